@@ -3,13 +3,16 @@ pragma solidity ^0.8.28;
 
 /// EdgeCharge — Production-ready MVP contract
 /// - deterministic anchor IDs (no block.timestamp in id)
-/// - ERC20 escrow & payout (SafeERC20)
+/// - ERC20 escrow & payout (SafeERC20), per token from an owner-maintained allowlist
 /// - relayer authorization
-/// - invoice creation with auto-increment id
+/// - invoice creation with auto-increment id, in a billing token, linked to the usage anchors it bills
 /// - markInvoicePaid does on-chain funds movement from enterprise escrow to provider balance
+/// - enterprise-authorized payment: directly, or with an EIP-712 InvoiceApproval anyone can submit
 /// - provider withdraw
 /// - pause/emergency + reentrancy guard
 /// - merkle proof verification for dispute path
+/// - dispute resolution: invoice holds, pro-rata refunds, relayer bond slashing and a deadline
+/// - timelocked escrow withdrawal and enterprise-set spending allowances per provider
 ///
 
 import "@openzeppelin/contracts/access/Ownable.sol";
@@ -18,8 +21,11 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
 
-contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
+contract EdgeCharge is Ownable, Pausable, ReentrancyGuard, EIP712, Nonces {
     using SafeERC20 for IERC20;
     using MerkleProof for bytes32[];
 
@@ -37,18 +43,49 @@ contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
         uint256 indexed invoiceId,
         address indexed enterprise,
         address indexed provider,
+        address token,
         uint256 amount,
         bytes32 invoiceHash
     );
 
+    event AnchorBilled(bytes32 indexed anchorId, uint256 indexed invoiceId);
     event InvoicePaid(uint256 indexed invoiceId, address payer, uint256 amount);
-    event ProviderWithdraw(address indexed provider, uint256 amount);
-    event DepositEscrow(address indexed enterprise, uint256 amount);
+    event ProviderWithdraw(address indexed provider, address indexed token, uint256 amount);
+    event DepositEscrow(address indexed enterprise, address indexed token, uint256 amount);
     event DisputeOpened(bytes32 indexed anchorId, address indexed disputant, string reason);
     event DisputeResolved(bytes32 indexed anchorId, bool resolvedInFavorOfProvider);
+    event DisputeRefunded(bytes32 indexed anchorId, uint256 indexed invoiceId, uint256 amount, uint256 returnedToEscrow);
+    event DisputeResolutionPeriodSet(uint256 period);
+    event RelayerBondDeposited(address indexed relayer, address indexed token, uint256 amount);
+    event RelayerBondWithdrawn(address indexed relayer, address indexed token, uint256 amount);
+    event RelayerSlashed(
+        address indexed relayer,
+        bytes32 indexed anchorId,
+        address token,
+        uint256 amount,
+        address beneficiary
+    );
     event RelayerAuthorized(address indexed relayer);
     event RelayerRevoked(address indexed relayer);
-    event BillingTokenSet(address indexed token);
+    event BillingTokenAllowed(address indexed token, bool allowed);
+    event EscrowWithdrawalRequested(address indexed enterprise, address indexed token, uint256 amount, uint256 unlockAt);
+    event EscrowWithdrawalCancelled(address indexed enterprise, address indexed token);
+    event EscrowWithdrawn(address indexed enterprise, address indexed token, uint256 amount);
+    event EscrowWithdrawalDelaySet(uint256 delay);
+    event ProviderAllowanceSet(
+        address indexed enterprise,
+        address indexed provider,
+        address indexed token,
+        uint256 periodCap,
+        uint256 period,
+        uint256 perInvoiceMax
+    );
+    event ProviderAllowanceRevoked(address indexed enterprise, address indexed provider, address indexed token);
+
+    /* ========== TYPED DATA ========== */
+    /// @notice The enterprise approves paying `invoiceId`, as long as no more than `maxAmount` is due
+    bytes32 public constant INVOICE_APPROVAL_TYPEHASH =
+        keccak256("InvoiceApproval(uint256 invoiceId,uint256 maxAmount,uint256 nonce,uint256 deadline)");
 
     /* ========== STRUCTS ========== */
     struct UsageAnchor {
@@ -61,9 +98,52 @@ contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
         bool exists;
     }
 
+    /// @notice A usage record as committed by tree version 2 (OpenZeppelin StandardMerkleTree leaves)
+    struct UsageLeaf {
+        address provider;
+        string nodeId;
+        uint256 windowStart;
+        uint256 windowEnd;
+        uint256 unitsConsumed;
+        string rateId;
+        string nonce;
+    }
+
+    enum DisputeStatus {
+        None,
+        Open,
+        ResolvedForProvider,
+        ResolvedAgainstProvider,
+        DefaultedForProvider // the deadline passed unresolved; the anchor can be disputed again
+    }
+
+    /// @notice An anchor is disputed until the owner rules on it; `deadline` is when the provider wins by default
+    struct Dispute {
+        address disputant;
+        uint256 deadline;
+        DisputeStatus status;
+    }
+
+    /// @notice What invoices from one provider may take from an enterprise's escrow in one token.
+    /// Spending is counted in consecutive windows of `period` seconds from when the allowance was set.
+    struct Allowance {
+        uint256 periodCap; // most paid per period
+        uint256 period;
+        uint256 perInvoiceMax; // most paid for one invoice; 0 = only the period cap applies
+        uint256 periodStart;
+        uint256 spentInPeriod;
+    }
+
+    /// @notice A requested escrow withdrawal; the escrow stays payable until `unlockAt`
+    struct EscrowWithdrawal {
+        uint256 amount;
+        uint256 unlockAt;
+    }
+
     struct Invoice {
         address enterprise;
         address provider;
+        address token; // billing token the invoice is paid in
         bytes32 invoiceHash;
         uint256 amount;
         bool paid;
@@ -74,21 +154,45 @@ contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
     mapping(bytes32 => UsageAnchor) public usageAnchors; // anchorId => anchor
     mapping(uint256 => Invoice) public invoices; // invoiceId => Invoice
     mapping(address => bool) public authorizedRelayers;
+    mapping(bytes32 => uint256) public anchorInvoice; // anchorId => invoiceId billing it (0 = not billed)
+    mapping(uint256 => bytes32[]) private invoiceAnchors; // invoiceId => anchorIds it bills
+    mapping(uint256 => uint256) public invoiceRefunds; // invoiceId => amount taken off it by lost disputes
+    mapping(bytes32 => Dispute) public disputes; // anchorId => its dispute
+    mapping(bytes32 => address) public anchorRelayer; // anchorId => relayer that submitted it
 
-    mapping(address => uint256) public enterpriseEscrow; // enterprise => token balance (in billingToken units)
-    mapping(address => uint256) public providerBalances; // provider => withdrawable amount
+    mapping(address => mapping(address => uint256)) public relayerBonds; // relayer => token => bond, slashable in disputes
+    mapping(address => uint256) public openDisputesByRelayer; // relayer => disputes open on its anchors
 
-    IERC20 public billingToken; // ERC20 token used for billing (e.g., USDC)
+    mapping(address => mapping(address => uint256)) public enterpriseEscrow; // enterprise => token => balance
+    mapping(address => mapping(address => uint256)) public providerBalances; // provider => token => withdrawable amount
+    // enterprise => provider => token => allowance
+    mapping(address => mapping(address => mapping(address => Allowance))) public allowances;
+    mapping(address => mapping(address => EscrowWithdrawal)) public escrowWithdrawals; // enterprise => token => pending withdrawal
+
+    // ERC20 tokens accepted for new escrow, bonds and invoices (e.g., USDC). Balances in a token
+    // removed from the list stay withdrawable and its invoices payable.
+    mapping(address => bool) public billingTokens;
 
     uint256 public nextInvoiceId = 1;
 
+    uint256 public disputeResolutionPeriod = 7 days; // time the owner has to resolve a dispute
+    uint256 public escrowWithdrawalDelay = 3 days; // time between requesting and withdrawing escrow
+    // Long enough for invoices in flight to be paid, short enough not to lock escrow away
+    uint256 public constant MIN_ESCROW_WITHDRAWAL_DELAY = 1 days;
+    uint256 public constant MAX_ESCROW_WITHDRAWAL_DELAY = 30 days;
+
     /* ========== MODIFIERS ========== */
     modifier onlyRelayer() {
         require(authorizedRelayers[msg.sender], "EdgeCharge: Not authorized relayer");
         _;
     }
 
-    constructor() Ownable(msg.sender) {
+    modifier onlyBillingToken(address token) {
+        require(billingTokens[token], "EdgeCharge: token not allowed");
+        _;
+    }
+
+    constructor() Ownable(msg.sender) EIP712("EdgeCharge", "1") {
         // Ownable sets owner to deployer
     }
 
@@ -104,25 +208,156 @@ contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
         emit RelayerRevoked(relayer);
     }
 
-    /* ========== ADMIN: billing token ========== */
-    function setBillingToken(address token) external onlyOwner {
+    /* ========== ADMIN: billing tokens ========== */
+    function setBillingTokenAllowed(address token, bool allowed) external onlyOwner {
         require(token != address(0), "EdgeCharge: zero token");
-        billingToken = IERC20(token);
-        emit BillingTokenSet(token);
+        billingTokens[token] = allowed;
+        emit BillingTokenAllowed(token, allowed);
+    }
+
+    /// @notice How long the owner has to resolve a dispute before the provider wins by default.
+    /// Applies to disputes opened afterwards.
+    function setDisputeResolutionPeriod(uint256 period) external onlyOwner {
+        require(period > 0, "EdgeCharge: invalid period");
+        disputeResolutionPeriod = period;
+        emit DisputeResolutionPeriodSet(period);
+    }
+
+    /// @notice How long enterprises wait between requesting and withdrawing escrow.
+    /// Applies to requests made afterwards.
+    function setEscrowWithdrawalDelay(uint256 delay) external onlyOwner {
+        require(
+            delay >= MIN_ESCROW_WITHDRAWAL_DELAY && delay <= MAX_ESCROW_WITHDRAWAL_DELAY,
+            "EdgeCharge: invalid delay"
+        );
+        escrowWithdrawalDelay = delay;
+        emit EscrowWithdrawalDelaySet(delay);
+    }
+
+    /* ========== RELAYER BOND ========== */
+
+    /// @notice Relayer stakes a billing token that a dispute lost on its anchors can slash.
+    /// Relayer must call `approve` on the token first.
+    function depositRelayerBond(
+        address token,
+        uint256 amount
+    ) external onlyRelayer onlyBillingToken(token) whenNotPaused nonReentrant {
+        require(amount > 0, "EdgeCharge: amount must be > 0");
+
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        relayerBonds[msg.sender][token] += amount;
+        emit RelayerBondDeposited(msg.sender, token, amount);
+    }
+
+    /// @notice Withdraw bond; not while disputes on the relayer's anchors are open.
+    /// A revoked relayer can still withdraw.
+    function withdrawRelayerBond(address token, uint256 amount) external whenNotPaused nonReentrant {
+        require(amount > 0, "EdgeCharge: amount must be > 0");
+        require(openDisputesByRelayer[msg.sender] == 0, "EdgeCharge: relayer has open disputes");
+        require(relayerBonds[msg.sender][token] >= amount, "EdgeCharge: insufficient bond");
+
+        relayerBonds[msg.sender][token] -= amount;
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit RelayerBondWithdrawn(msg.sender, token, amount);
     }
 
     /* ========== ESCROW (ENTERPRISE) ========== */
 
-    /// @notice Enterprise deposits ERC20 billingToken into contract escrow. 
+    /// @notice Enterprise deposits a billing token into contract escrow. 
     /// Enterprise must call `approve` on the token first.
-    function depositEscrow(uint256 amount) external whenNotPaused nonReentrant {
-        require(address(billingToken) != address(0), "EdgeCharge: billing token not set");
+    function depositEscrow(address token, uint256 amount) external onlyBillingToken(token) whenNotPaused nonReentrant {
         require(amount > 0, "EdgeCharge: amount must be > 0");
 
         // transferFrom enterprise to contract
-        billingToken.safeTransferFrom(msg.sender, address(this), amount);
-        enterpriseEscrow[msg.sender] += amount;
-        emit DepositEscrow(msg.sender, amount);
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        enterpriseEscrow[msg.sender][token] += amount;
+        emit DepositEscrow(msg.sender, token, amount);
+    }
+
+    /// @notice Start withdrawing `amount` of escrow in `token`, replacing any pending request for it.
+    /// Invoices can still be paid from it until `escrowWithdrawalDelay` has passed.
+    function requestEscrowWithdrawal(address token, uint256 amount) external whenNotPaused {
+        require(amount > 0, "EdgeCharge: amount must be > 0");
+        require(enterpriseEscrow[msg.sender][token] >= amount, "EdgeCharge: insufficient escrow");
+
+        uint256 unlockAt = block.timestamp + escrowWithdrawalDelay;
+        escrowWithdrawals[msg.sender][token] = EscrowWithdrawal({amount: amount, unlockAt: unlockAt});
+        emit EscrowWithdrawalRequested(msg.sender, token, amount, unlockAt);
+    }
+
+    function cancelEscrowWithdrawal(address token) external {
+        require(escrowWithdrawals[msg.sender][token].amount > 0, "EdgeCharge: no withdrawal requested");
+        delete escrowWithdrawals[msg.sender][token];
+        emit EscrowWithdrawalCancelled(msg.sender, token);
+    }
+
+    /// @notice Complete a requested withdrawal once unlocked. Pays out the requested amount, or what is left
+    /// of the escrow if invoices paid in the meantime took more.
+    function withdrawEscrow(address token) external whenNotPaused nonReentrant {
+        EscrowWithdrawal memory request = escrowWithdrawals[msg.sender][token];
+        require(request.amount > 0, "EdgeCharge: no withdrawal requested");
+        require(block.timestamp >= request.unlockAt, "EdgeCharge: withdrawal locked");
+
+        uint256 escrow = enterpriseEscrow[msg.sender][token];
+        uint256 amount = request.amount < escrow ? request.amount : escrow;
+        require(amount > 0, "EdgeCharge: no escrow to withdraw");
+
+        delete escrowWithdrawals[msg.sender][token];
+        enterpriseEscrow[msg.sender][token] -= amount;
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit EscrowWithdrawn(msg.sender, token, amount);
+    }
+
+    /* ========== ALLOWANCES (ENTERPRISE) ========== */
+
+    /// @notice Allow invoices from `provider` in `token` to be paid from the caller's escrow, up to `periodCap`
+    /// every `period` seconds and `perInvoiceMax` per invoice (0 for no per-invoice limit).
+    /// Replacing an allowance starts a new period.
+    function setProviderAllowance(
+        address provider,
+        address token,
+        uint256 periodCap,
+        uint256 period,
+        uint256 perInvoiceMax
+    ) external whenNotPaused {
+        require(provider != address(0), "EdgeCharge: provider required");
+        require(periodCap > 0, "EdgeCharge: invalid period cap");
+        require(period > 0, "EdgeCharge: invalid period");
+
+        allowances[msg.sender][provider][token] = Allowance({
+            periodCap: periodCap,
+            period: period,
+            perInvoiceMax: perInvoiceMax,
+            periodStart: block.timestamp,
+            spentInPeriod: 0
+        });
+        emit ProviderAllowanceSet(msg.sender, provider, token, periodCap, period, perInvoiceMax);
+    }
+
+    /// @notice Stop paying invoices from `provider` in `token`
+    function revokeProviderAllowance(address provider, address token) external {
+        require(allowances[msg.sender][provider][token].periodCap > 0, "EdgeCharge: no allowance");
+        delete allowances[msg.sender][provider][token];
+        emit ProviderAllowanceRevoked(msg.sender, provider, token);
+    }
+
+    /// @dev Count `amount` against the enterprise's allowance for the provider in `token`, rolling over
+    /// to the current period first.
+    function _spendAllowance(address enterprise, address provider, address token, uint256 amount) private {
+        Allowance storage allowance = allowances[enterprise][provider][token];
+        require(allowance.periodCap > 0, "EdgeCharge: no allowance for provider");
+        require(
+            allowance.perInvoiceMax == 0 || amount <= allowance.perInvoiceMax,
+            "EdgeCharge: invoice exceeds allowance"
+        );
+
+        if (block.timestamp >= allowance.periodStart + allowance.period) {
+            uint256 elapsed = (block.timestamp - allowance.periodStart) / allowance.period;
+            allowance.periodStart += elapsed * allowance.period;
+            allowance.spentInPeriod = 0;
+        }
+        require(allowance.spentInPeriod + amount <= allowance.periodCap, "EdgeCharge: period allowance exceeded");
+        allowance.spentInPeriod += amount;
     }
 
     /* ========== USAGE ANCHOR ========== */
@@ -153,6 +388,7 @@ contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
             disputed: false,
             exists: true
         });
+        anchorRelayer[anchorId] = msg.sender;
 
         emit UsageAnchored(anchorId, provider, windowStart, windowEnd, merkleRoot, totalUsage);
     }
@@ -160,85 +396,251 @@ contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
     /* ========== INVOICE CREATION & PAYMENT ========== */
 
     /// @notice Create an invoice entry (called by relayer after computing invoice off-chain)
-    /// @dev invoiceId is auto-incremented
+    /// @dev invoiceId is auto-incremented and `token` must be an allowed billing token.
+    /// Each anchor in `anchorIds` must belong to `provider`,
+    /// be undisputed and not be billed by another invoice; it is then recorded as billed by this one.
     function createInvoice(
         address enterprise,
         address provider,
+        address token,
         uint256 amount,
-        bytes32 invoiceHash
-    ) external onlyRelayer whenNotPaused returns (uint256 invoiceId) {
+        bytes32 invoiceHash,
+        bytes32[] calldata anchorIds
+    ) external onlyRelayer onlyBillingToken(token) whenNotPaused returns (uint256 invoiceId) {
         require(enterprise != address(0), "EdgeCharge: invalid enterprise");
         require(provider != address(0), "EdgeCharge: invalid provider");
         require(amount > 0, "EdgeCharge: amount must be > 0");
         require(invoiceHash != bytes32(0), "EdgeCharge: invalid invoice hash");
+        require(anchorIds.length > 0, "EdgeCharge: no anchors");
 
         invoiceId = nextInvoiceId++;
         invoices[invoiceId] = Invoice({
             enterprise: enterprise,
             provider: provider,
+            token: token,
             invoiceHash: invoiceHash,
             amount: amount,
             paid: false,
             exists: true
         });
 
-        emit InvoiceCreated(invoiceId, enterprise, provider, amount, invoiceHash);
+        emit InvoiceCreated(invoiceId, enterprise, provider, token, amount, invoiceHash);
+
+        for (uint256 i = 0; i < anchorIds.length; i++) {
+            UsageAnchor storage anchor = usageAnchors[anchorIds[i]];
+            require(anchor.exists, "EdgeCharge: Anchor does not exist");
+            require(anchor.provider == provider, "EdgeCharge: anchor of another provider");
+            require(!anchor.disputed, "EdgeCharge: anchor disputed");
+            require(disputes[anchorIds[i]].status != DisputeStatus.ResolvedAgainstProvider, "EdgeCharge: anchor rejected");
+            // Also catches an anchorId listed twice in this call
+            require(anchorInvoice[anchorIds[i]] == 0, "EdgeCharge: anchor already billed");
+
+            anchorInvoice[anchorIds[i]] = invoiceId;
+            emit AnchorBilled(anchorIds[i], invoiceId);
+        }
+        invoiceAnchors[invoiceId] = anchorIds;
     }
 
     /// @notice Mark an invoice as paid and move funds from enterprise escrow to provider balance
-    /// @dev This function is called by relayer once payment conditions are met (e.g., enterprise authorized or escrow available)
+    /// @dev This function is called by relayer once payment conditions are met (e.g., enterprise authorized or escrow available).
+    /// The amount, in the invoice's token, counts against the enterprise's allowance for the provider in it.
     function markInvoicePaid(uint256 invoiceId) external onlyRelayer whenNotPaused nonReentrant {
+        Invoice storage inv = _payableInvoice(invoiceId);
+        uint256 amount = _settleInvoice(invoiceId);
+        _spendAllowance(inv.enterprise, inv.provider, inv.token, amount);
+    }
+
+    /// @notice The invoice's enterprise pays it from its escrow. No allowance is needed.
+    function payInvoice(uint256 invoiceId) external whenNotPaused nonReentrant {
+        Invoice storage inv = _payableInvoice(invoiceId);
+        require(msg.sender == inv.enterprise, "EdgeCharge: not invoice enterprise");
+        _settleInvoice(invoiceId);
+    }
+
+    /// @notice Pay an invoice with an InvoiceApproval the enterprise signed (EIP-712); anyone can submit it.
+    /// `nonce` must be the enterprise's next nonce and is used up; no allowance is needed.
+    function payInvoiceWithApproval(
+        uint256 invoiceId,
+        uint256 maxAmount,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external whenNotPaused nonReentrant {
+        require(block.timestamp <= deadline, "EdgeCharge: approval expired");
+        Invoice storage inv = _payableInvoice(invoiceId);
+        require(getAmountDue(invoiceId) <= maxAmount, "EdgeCharge: amount exceeds approval");
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(INVOICE_APPROVAL_TYPEHASH, invoiceId, maxAmount, nonce, deadline))
+        );
+        require(
+            SignatureChecker.isValidSignatureNow(inv.enterprise, digest, signature),
+            "EdgeCharge: invalid signature"
+        );
+        _useCheckedNonce(inv.enterprise, nonce);
+
+        _settleInvoice(invoiceId);
+    }
+
+    /// @notice Invalidate the caller's outstanding InvoiceApprovals by using up its current nonce
+    function cancelInvoiceApprovals() external {
+        _useNonce(msg.sender);
+    }
+
+    /// @dev An existing unpaid invoice. Held while any anchor the invoice bills is disputed.
+    function _payableInvoice(uint256 invoiceId) private view returns (Invoice storage inv) {
         require(invoices[invoiceId].exists, "EdgeCharge: Invoice does not exist");
-        Invoice storage inv = invoices[invoiceId];
+        inv = invoices[invoiceId];
         require(!inv.paid, "EdgeCharge: Invoice already paid");
 
+        bytes32[] storage anchorIds = invoiceAnchors[invoiceId];
+        for (uint256 i = 0; i < anchorIds.length; i++) {
+            require(!usageAnchors[anchorIds[i]].disputed, "EdgeCharge: invoice has disputed anchor");
+        }
+    }
+
+    /// @dev Move the amount due from enterprise escrow to provider balance
+    function _settleInvoice(uint256 invoiceId) private returns (uint256 amount) {
+        Invoice storage inv = invoices[invoiceId];
+        amount = getAmountDue(invoiceId);
         // escrow must have funds
-        uint256 amount = inv.amount;
-        require(enterpriseEscrow[inv.enterprise] >= amount, "EdgeCharge: insufficient escrow");
+        require(enterpriseEscrow[inv.enterprise][inv.token] >= amount, "EdgeCharge: insufficient escrow");
 
         // move funds: deduct enterprise escrow and credit providerBalances
-        enterpriseEscrow[inv.enterprise] -= amount;
-        providerBalances[inv.provider] += amount;
+        enterpriseEscrow[inv.enterprise][inv.token] -= amount;
+        providerBalances[inv.provider][inv.token] += amount;
         inv.paid = true;
 
         emit InvoicePaid(invoiceId, inv.enterprise, amount);
     }
 
-    /// @notice Provider withdraws accumulated balance
-    function withdrawProvider() external whenNotPaused nonReentrant {
-        uint256 bal = providerBalances[msg.sender];
+    /// @notice Provider withdraws accumulated balance in `token`
+    function withdrawProvider(address token) external whenNotPaused nonReentrant {
+        uint256 bal = providerBalances[msg.sender][token];
         require(bal > 0, "EdgeCharge: no balance to withdraw");
-        providerBalances[msg.sender] = 0;
-        billingToken.safeTransfer(msg.sender, bal);
-        emit ProviderWithdraw(msg.sender, bal);
+        providerBalances[msg.sender][token] = 0;
+        IERC20(token).safeTransfer(msg.sender, bal);
+        emit ProviderWithdraw(msg.sender, token, bal);
     }
 
     /* ========== DISPUTE FLOW ========== */
 
     /// @notice Open a dispute for an anchor.
-    /// Anyone can open (enterprise or consumer), but only one active dispute per anchor is allowed in this MVP.
+    /// Once billed, only the invoice's enterprise can dispute the anchor; before that anyone can (enterprise or
+    /// consumer). Invoices billing it cannot be paid until the dispute is resolved, by the owner or by default
+    /// once `disputeResolutionPeriod` has passed. Each outcome is final: the one exception is a default won
+    /// against someone other than the billed enterprise, after which that enterprise may still dispute once.
     function openDispute(bytes32 anchorId, string calldata reason) external whenNotPaused {
         require(usageAnchors[anchorId].exists, "EdgeCharge: Anchor does not exist");
-        require(!usageAnchors[anchorId].disputed, "EdgeCharge: Anchor already disputed");
+        uint256 invoiceId = anchorInvoice[anchorId];
+        address enterprise = invoices[invoiceId].enterprise;
+        Dispute storage previous = disputes[anchorId];
+        bool enterpriseAfterDefault = previous.status == DisputeStatus.DefaultedForProvider
+            && invoiceId != 0
+            && previous.disputant != enterprise;
+        require(previous.status == DisputeStatus.None || enterpriseAfterDefault, "EdgeCharge: Anchor already disputed");
         require(bytes(reason).length > 0, "EdgeCharge: reason required");
+        require(invoiceId == 0 || msg.sender == enterprise, "EdgeCharge: not invoice enterprise");
 
         usageAnchors[anchorId].disputed = true;
+        disputes[anchorId] = Dispute({
+            disputant: msg.sender,
+            deadline: block.timestamp + disputeResolutionPeriod,
+            status: DisputeStatus.Open
+        });
+        openDisputesByRelayer[anchorRelayer[anchorId]]++;
         emit DisputeOpened(anchorId, msg.sender, reason);
     }
 
     /// @notice Owner (or multisig) resolves the dispute. For MVP owner resolves.
-    /// If resolvedInFavorOfProvider == true -> dispute cleared, else remain disputed and optionally refund logic can be implemented.
-    function resolveDispute(bytes32 anchorId, bool resolvedInFavorOfProvider) external onlyOwner whenNotPaused {
+    /// Against the provider, the anchor's share of its invoice is refunded (see _refundAnchor) and up to
+    /// `slashAmount` of the submitting relayer's bond in `slashToken` goes to the disputant's escrow. The anchor
+    /// can then no longer be billed. After the deadline the owner can only resolve in favor of the provider.
+    function resolveDispute(
+        bytes32 anchorId,
+        bool resolvedInFavorOfProvider,
+        address slashToken,
+        uint256 slashAmount
+    ) external onlyOwner whenNotPaused nonReentrant {
         require(usageAnchors[anchorId].exists, "EdgeCharge: Anchor does not exist");
         require(usageAnchors[anchorId].disputed, "EdgeCharge: Anchor not disputed");
+        require(
+            resolvedInFavorOfProvider || block.timestamp <= disputes[anchorId].deadline,
+            "EdgeCharge: dispute deadline passed"
+        );
+        require(!resolvedInFavorOfProvider || slashAmount == 0, "EdgeCharge: slash only against provider");
+
+        _resolveDispute(
+            anchorId,
+            resolvedInFavorOfProvider ? DisputeStatus.ResolvedForProvider : DisputeStatus.ResolvedAgainstProvider
+        );
+        if (slashAmount > 0) {
+            _slashRelayer(anchorId, slashToken, slashAmount);
+        }
+    }
 
+    /// @notice Anyone can close a dispute the owner left unresolved past its deadline; the provider wins.
+    function resolveExpiredDispute(bytes32 anchorId) external whenNotPaused nonReentrant {
+        require(usageAnchors[anchorId].disputed, "EdgeCharge: Anchor not disputed");
+        require(block.timestamp > disputes[anchorId].deadline, "EdgeCharge: dispute deadline not reached");
+
+        _resolveDispute(anchorId, DisputeStatus.DefaultedForProvider);
+    }
+
+    function _resolveDispute(bytes32 anchorId, DisputeStatus status) private {
         usageAnchors[anchorId].disputed = false;
+        disputes[anchorId].status = status;
+        openDisputesByRelayer[anchorRelayer[anchorId]]--;
+
+        bool resolvedInFavorOfProvider = status != DisputeStatus.ResolvedAgainstProvider;
+        if (!resolvedInFavorOfProvider) {
+            _refundAnchor(anchorId);
+        }
         emit DisputeResolved(anchorId, resolvedInFavorOfProvider);
-        // Further logic (refunds, slashing relayer) can be implemented here in a later version.
+    }
+
+    /// @dev Take the anchor's share of its invoice, pro rata by totalUsage, off the invoice. If the invoice is
+    /// already paid, that share moves from the provider's balance back to the enterprise's escrow, as far as
+    /// the provider has not withdrawn it. An anchor that was never billed has nothing to refund.
+    function _refundAnchor(bytes32 anchorId) private {
+        uint256 invoiceId = anchorInvoice[anchorId];
+        if (invoiceId == 0) return;
+        Invoice storage inv = invoices[invoiceId];
+
+        bytes32[] storage anchorIds = invoiceAnchors[invoiceId];
+        uint256 invoiceUsage = 0;
+        for (uint256 i = 0; i < anchorIds.length; i++) {
+            invoiceUsage += usageAnchors[anchorIds[i]].totalUsage;
+        }
+        uint256 share = (inv.amount * usageAnchors[anchorId].totalUsage) / invoiceUsage;
+        uint256 remaining = inv.amount - invoiceRefunds[invoiceId];
+        if (share > remaining) share = remaining;
+        invoiceRefunds[invoiceId] += share;
+
+        uint256 returned = 0;
+        if (inv.paid) {
+            uint256 balance = providerBalances[inv.provider][inv.token];
+            returned = share < balance ? share : balance;
+            providerBalances[inv.provider][inv.token] -= returned;
+            enterpriseEscrow[inv.enterprise][inv.token] += returned;
+        }
+        emit DisputeRefunded(anchorId, invoiceId, share, returned);
+    }
+
+    function _slashRelayer(bytes32 anchorId, address token, uint256 amount) private {
+        address relayer = anchorRelayer[anchorId];
+        require(relayerBonds[relayer][token] >= amount, "EdgeCharge: insufficient bond");
+        address disputant = disputes[anchorId].disputant;
+
+        relayerBonds[relayer][token] -= amount;
+        enterpriseEscrow[disputant][token] += amount;
+        emit RelayerSlashed(relayer, anchorId, token, amount, disputant);
     }
 
     /* ========== MERKLE PROOF VERIFICATION (for dispute) ========== */
-    /// @notice Verify a merkle proof against an anchor's stored merkleRoot
+    /// @notice Verify a merkle proof against an anchor's stored merkleRoot.
+    /// Takes the leaf hash as is; this is how anchors built with tree version 1 (JSON leaves) are checked.
+    /// For version 2 anchors use verifyUsageLeaf, which hashes the record itself.
     function verifyMerkleProof(
         bytes32 anchorId,
         bytes32 leaf,
@@ -249,6 +651,33 @@ contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
         return MerkleProof.verify(proof, root, leaf);
     }
 
+    /// @notice Leaf hash of a usage record in tree version 2:
+    /// keccak256(keccak256(abi.encode(provider, nodeId, windowStart, windowEnd, unitsConsumed, rateId, nonce))),
+    /// the same as OpenZeppelin StandardMerkleTree with leaf encoding
+    /// [address, string, uint256, uint256, uint256, string, string]
+    function usageLeafHash(UsageLeaf memory leaf) public pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(
+            leaf.provider,
+            leaf.nodeId,
+            leaf.windowStart,
+            leaf.windowEnd,
+            leaf.unitsConsumed,
+            leaf.rateId,
+            leaf.nonce
+        ))));
+    }
+
+    /// @notice Verify that a usage record is part of an anchor built with tree version 2.
+    /// The leaf is hashed here, so an inner node of the tree cannot be passed off as a record.
+    function verifyUsageLeaf(
+        bytes32 anchorId,
+        UsageLeaf memory leaf,
+        bytes32[] calldata proof
+    ) external view returns (bool valid) {
+        require(usageAnchors[anchorId].exists, "EdgeCharge: Anchor does not exist");
+        return MerkleProof.verify(proof, usageAnchors[anchorId].merkleRoot, usageLeafHash(leaf));
+    }
+
     /* ========== ADMIN / PAUSE ========== */
     function pause() external onlyOwner {
         _pause();
@@ -270,12 +699,42 @@ contract EdgeCharge is Ownable, Pausable, ReentrancyGuard {
         return invoices[invoiceId];
     }
 
-    function getEnterpriseEscrow(address enterprise) external view returns (uint256) {
-        return enterpriseEscrow[enterprise];
+    /// @notice The invoice's amount less what disputes lost by the provider took off it
+    function getAmountDue(uint256 invoiceId) public view returns (uint256) {
+        return invoices[invoiceId].amount - invoiceRefunds[invoiceId];
+    }
+
+    /// @notice The anchorIds an invoice bills, in the order they were given
+    function getInvoiceAnchors(uint256 invoiceId) external view returns (bytes32[] memory) {
+        require(invoices[invoiceId].exists, "EdgeCharge: Invoice does not exist");
+        return invoiceAnchors[invoiceId];
+    }
+
+    /// @notice The invoice billing an anchor, or 0 while it is not billed
+    function getAnchorInvoice(bytes32 anchorId) external view returns (uint256) {
+        require(usageAnchors[anchorId].exists, "EdgeCharge: Anchor does not exist");
+        return anchorInvoice[anchorId];
+    }
+
+    function getDispute(bytes32 anchorId) external view returns (Dispute memory) {
+        require(usageAnchors[anchorId].exists, "EdgeCharge: Anchor does not exist");
+        return disputes[anchorId];
+    }
+
+    function getEnterpriseEscrow(address enterprise, address token) external view returns (uint256) {
+        return enterpriseEscrow[enterprise][token];
+    }
+
+    function getAllowance(
+        address enterprise,
+        address provider,
+        address token
+    ) external view returns (Allowance memory) {
+        return allowances[enterprise][provider][token];
     }
 
-    function getProviderBalance(address provider) external view returns (uint256) {
-        return providerBalances[provider];
+    function getProviderBalance(address provider, address token) external view returns (uint256) {
+        return providerBalances[provider][token];
     }
 
     /* ========== EMERGENCY OWNER WITHDRAW (only if needed) ========== */
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// Freely mintable ERC20 for tests; never deployed by Ignition
+contract TestToken is ERC20 {
+    constructor() ERC20("Test USD", "TUSD") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -2,7 +2,7 @@ import assert from "node:assert/strict";
 import { describe, it, beforeEach } from "node:test";
 
 import { network } from "hardhat";
-import { keccak256, toBytes } from "viem";
+import { encodeAbiParameters, getAddress, keccak256, parseAbiParameters, toBytes } from "viem";
 
 
 describe("EdgeCharge", async function () {
@@ -133,14 +133,41 @@ describe("EdgeCharge", async function () {
   });
 
   describe("Invoice Management", async function () {
+    const windowEnd = BigInt(Math.floor(Date.now() / 1000));
+    let anchorId: `0x${string}`;
+    let token: any;
+
+    async function anchorUsage(label: string, anchorProvider = provider): Promise<`0x${string}`> {
+      await edgeCharge.write.submitUsageAnchor(
+        [anchorProvider.account.address, windowEnd - 3600n, windowEnd, keccak256(toBytes(label)), 1000n],
+        { account: relayer.account },
+      );
+      const events = await publicClient.getContractEvents({
+        address: edgeCharge.address,
+        abi: edgeCharge.abi,
+        eventName: "UsageAnchored",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      return (events[events.length - 1] as any).args.anchorId as `0x${string}`;
+    }
+
+    beforeEach(async function () {
+      token = await viem.deployContract("TestToken");
+      await edgeCharge.write.setBillingTokenAllowed([token.address, true]);
+      anchorId = await anchorUsage("invoiced usage");
+    });
+
     it("Should create invoice successfully", async function () {
       const invoiceHash = keccak256(toBytes("test invoice"));
 
       await edgeCharge.write.createInvoice([
         enterprise.account.address,
         provider.account.address,
+        token.address,
         1000n,
         invoiceHash,
+        [anchorId],
       ], { account: relayer.account });
 
       const events = await publicClient.getContractEvents({
@@ -158,6 +185,7 @@ describe("EdgeCharge", async function () {
       assert.equal(invoice.invoiceHash, invoiceHash);
       assert.equal(invoice.enterprise.toLowerCase(), enterprise.account.address.toLowerCase());
       assert.equal(invoice.provider.toLowerCase(), provider.account.address.toLowerCase());
+      assert.equal(invoice.token, getAddress(token.address));
       assert.equal(invoice.amount, 1000n);
       assert.equal(invoice.paid, false);
       assert.equal(invoice.exists, true);
@@ -170,8 +198,10 @@ describe("EdgeCharge", async function () {
         edgeCharge.write.createInvoice([
           "0x0000000000000000000000000000000000000000",
           provider.account.address,
+          token.address,
           1n,
           validHash,
+          [anchorId],
         ], { account: relayer.account }),
         /invalid enterprise/i,
       );
@@ -180,8 +210,10 @@ describe("EdgeCharge", async function () {
         edgeCharge.write.createInvoice([
           enterprise.account.address,
           "0x0000000000000000000000000000000000000000",
+          token.address,
           1n,
           validHash,
+          [anchorId],
         ], { account: relayer.account }),
         /invalid provider/i,
       );
@@ -190,8 +222,10 @@ describe("EdgeCharge", async function () {
         edgeCharge.write.createInvoice([
           enterprise.account.address,
           provider.account.address,
+          token.address,
           0n,
           validHash,
+          [anchorId],
         ], { account: relayer.account }),
         /amount must be > 0/i,
       );
@@ -200,8 +234,10 @@ describe("EdgeCharge", async function () {
         edgeCharge.write.createInvoice([
           enterprise.account.address,
           provider.account.address,
+          token.address,
           1n,
           "0x0000000000000000000000000000000000000000000000000000000000000000",
+          [anchorId],
         ], { account: relayer.account }),
         /invalid invoice hash/i,
       );
@@ -210,8 +246,10 @@ describe("EdgeCharge", async function () {
       await edgeCharge.write.createInvoice([
         enterprise.account.address,
         provider.account.address,
+        token.address,
         5n,
         validHash,
+        [anchorId],
       ], { account: relayer.account });
 
       const events = await publicClient.getContractEvents({
@@ -229,6 +267,63 @@ describe("EdgeCharge", async function () {
         /insufficient escrow/i,
       );
     });
+
+    it("Should record the anchors an invoice bills", async function () {
+      const second = await anchorUsage("more invoiced usage");
+      await edgeCharge.write.createInvoice([
+        enterprise.account.address,
+        provider.account.address,
+        token.address,
+        2000n,
+        keccak256(toBytes("invoice")),
+        [anchorId, second],
+      ], { account: relayer.account });
+
+      const billed = await publicClient.getContractEvents({
+        address: edgeCharge.address,
+        abi: edgeCharge.abi,
+        eventName: "AnchorBilled",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      assert.deepEqual(billed.map((e: any) => [e.args.anchorId, e.args.invoiceId]), [[anchorId, 1n], [second, 1n]]);
+      assert.deepEqual(await edgeCharge.read.getInvoiceAnchors([1n]), [anchorId, second]);
+      assert.equal(await edgeCharge.read.getAnchorInvoice([second]), 1n);
+      assert.equal(await edgeCharge.read.getAnchorInvoice([await anchorUsage("unbilled usage")]), 0n);
+
+      await assert.rejects(edgeCharge.read.getInvoiceAnchors([2n]), /Invoice does not exist/i);
+      await assert.rejects(
+        edgeCharge.read.getAnchorInvoice(["0x0000000000000000000000000000000000000000000000000000000000000000"]),
+        /Anchor does not exist/i,
+      );
+    });
+
+    it("Should reject anchors that cannot be billed", async function () {
+      const create = (anchorIds: `0x${string}`[]) => edgeCharge.write.createInvoice([
+        enterprise.account.address,
+        provider.account.address,
+        token.address,
+        1000n,
+        keccak256(toBytes("invoice")),
+        anchorIds,
+      ], { account: relayer.account });
+
+      await assert.rejects(create([]), /no anchors/i);
+      await assert.rejects(
+        create(["0x0000000000000000000000000000000000000000000000000000000000000000"]),
+        /Anchor does not exist/i,
+      );
+      await assert.rejects(create([await anchorUsage("someone else's usage", otherAccount)]), /anchor of another provider/i);
+      await assert.rejects(create([anchorId, anchorId]), /anchor already billed/i);
+
+      const disputed = await anchorUsage("disputed usage");
+      await edgeCharge.write.openDispute([disputed, "Usage too high"], { account: enterprise.account });
+      await assert.rejects(create([disputed]), /anchor disputed/i);
+
+      await create([anchorId]);
+      await assert.rejects(create([anchorId]), /anchor already billed/i);
+      assert.equal(await edgeCharge.read.nextInvoiceId(), 2n);
+    });
   });
 
   describe("Dispute Resolution", async function () {
@@ -295,6 +390,637 @@ describe("EdgeCharge", async function () {
     });
   });
 
+  describe("Dispute Settlement", async function () {
+    const testClient = await viem.getTestClient();
+    const windowEnd = BigInt(Math.floor(Date.now() / 1000));
+    const ResolvedForProvider = 2;
+    const ResolvedAgainstProvider = 3;
+    const DefaultedForProvider = 4;
+    let token: any;
+
+    async function lastEvent(eventName: string): Promise<any> {
+      const events = await publicClient.getContractEvents({
+        address: edgeCharge.address,
+        abi: edgeCharge.abi,
+        eventName,
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      return (events[events.length - 1] as any).args;
+    }
+
+    async function anchorUsage(label: string, totalUsage: bigint): Promise<`0x${string}`> {
+      await edgeCharge.write.submitUsageAnchor(
+        [provider.account.address, windowEnd - 3600n, windowEnd, keccak256(toBytes(label)), totalUsage],
+        { account: relayer.account },
+      );
+      return (await lastEvent("UsageAnchored")).anchorId;
+    }
+
+    async function invoice(amount: bigint, anchorIds: `0x${string}`[]): Promise<bigint> {
+      await edgeCharge.write.createInvoice(
+        [enterprise.account.address, provider.account.address, token.address, amount, keccak256(toBytes("invoice")), anchorIds],
+        { account: relayer.account },
+      );
+      return (await lastEvent("InvoiceCreated")).invoiceId;
+    }
+
+    const dispute = (anchorId: `0x${string}`) =>
+      edgeCharge.write.openDispute([anchorId, "Usage too high"], { account: enterprise.account });
+    const resolve = (anchorId: `0x${string}`, inFavorOfProvider: boolean, slashAmount = 0n) =>
+      edgeCharge.write.resolveDispute([anchorId, inFavorOfProvider, token.address, slashAmount]);
+    const pay = (invoiceId: bigint) => edgeCharge.write.markInvoicePaid([invoiceId], { account: relayer.account });
+
+    // Let an open dispute run past its deadline and default to the provider
+    async function lapse(anchorId: `0x${string}`) {
+      await testClient.increaseTime({ seconds: Number(await edgeCharge.read.disputeResolutionPeriod()) + 1 });
+      await testClient.mine({ blocks: 1 });
+      await edgeCharge.write.resolveExpiredDispute([anchorId], { account: otherAccount.account });
+    }
+
+    beforeEach(async function () {
+      token = await viem.deployContract("TestToken");
+      await edgeCharge.write.setBillingTokenAllowed([token.address, true]);
+
+      await token.write.mint([enterprise.account.address, 10_000n]);
+      await token.write.approve([edgeCharge.address, 10_000n], { account: enterprise.account });
+      await edgeCharge.write.depositEscrow([token.address, 10_000n], { account: enterprise.account });
+
+      await token.write.mint([relayer.account.address, 1_000n]);
+      await token.write.approve([edgeCharge.address, 1_000n], { account: relayer.account });
+      await edgeCharge.write.depositRelayerBond([token.address, 1_000n], { account: relayer.account });
+      await edgeCharge.write.setProviderAllowance([provider.account.address, token.address, 10_000n, 30n * 86_400n, 0n], {
+        account: enterprise.account,
+      });
+    });
+
+    it("Should hold payment of an invoice billing a disputed anchor until it is resolved", async function () {
+      const a = await anchorUsage("a", 600n);
+      const b = await anchorUsage("b", 400n);
+      const invoiceId = await invoice(1_000n, [a, b]);
+
+      await dispute(b);
+      await assert.rejects(pay(invoiceId), /invoice has disputed anchor/i);
+      await assert.rejects(
+        edgeCharge.write.resolveDispute([b, false, token.address, 0n], { account: otherAccount.account }),
+        /OwnableUnauthorizedAccount/i,
+      );
+
+      await resolve(b, true);
+      assert.equal((await edgeCharge.read.getDispute([b])).status, ResolvedForProvider);
+      assert.deepEqual(await lastEvent("DisputeResolved"), { anchorId: b, resolvedInFavorOfProvider: true });
+
+      await pay(invoiceId);
+      assert.equal(await edgeCharge.read.getProviderBalance([provider.account.address, token.address]), 1_000n);
+      assert.equal(await edgeCharge.read.getEnterpriseEscrow([enterprise.account.address, token.address]), 9_000n);
+    });
+
+    it("Should take a lost anchor's share off an unpaid invoice", async function () {
+      const a = await anchorUsage("a", 600n);
+      const b = await anchorUsage("b", 400n);
+      const invoiceId = await invoice(1_000n, [a, b]);
+
+      await dispute(b);
+      await resolve(b, false);
+      assert.equal((await edgeCharge.read.getDispute([b])).status, ResolvedAgainstProvider);
+      assert.equal(await edgeCharge.read.invoiceRefunds([invoiceId]), 400n);
+      assert.deepEqual(await lastEvent("DisputeRefunded"), { anchorId: b, invoiceId, amount: 400n, returnedToEscrow: 0n });
+
+      await pay(invoiceId);
+      assert.equal(await edgeCharge.read.getProviderBalance([provider.account.address, token.address]), 600n);
+      assert.equal(await edgeCharge.read.getEnterpriseEscrow([enterprise.account.address, token.address]), 9_400n);
+    });
+
+    it("Should return a paid invoice's share from the provider balance to escrow", async function () {
+      const a = await anchorUsage("a", 600n);
+      const b = await anchorUsage("b", 400n);
+      const invoiceId = await invoice(1_000n, [a, b]);
+      await pay(invoiceId);
+
+      await dispute(a);
+      await resolve(a, false);
+      assert.deepEqual(await lastEvent("DisputeRefunded"), { anchorId: a, invoiceId, amount: 600n, returnedToEscrow: 600n });
+      assert.equal(await edgeCharge.read.getProviderBalance([provider.account.address, token.address]), 400n);
+      assert.equal(await edgeCharge.read.getEnterpriseEscrow([enterprise.account.address, token.address]), 9_600n);
+    });
+
+    it("Should only return what the provider has not withdrawn", async function () {
+      const a = await anchorUsage("a", 600n);
+      const b = await anchorUsage("b", 400n);
+      await pay(await invoice(1_000n, [a]));
+      await edgeCharge.write.withdrawProvider([token.address], { account: provider.account });
+      await pay(await invoice(200n, [b]));
+
+      await dispute(a);
+      await resolve(a, false);
+      assert.deepEqual(await lastEvent("DisputeRefunded"), { anchorId: a, invoiceId: 1n, amount: 1_000n, returnedToEscrow: 200n });
+      assert.equal(await edgeCharge.read.getProviderBalance([provider.account.address, token.address]), 0n);
+      assert.equal(await edgeCharge.read.getEnterpriseEscrow([enterprise.account.address, token.address]), 9_000n);
+    });
+
+    it("Should refuse to bill a rejected anchor or dispute an anchor twice", async function () {
+      const a = await anchorUsage("a", 600n);
+      await dispute(a);
+      await resolve(a, false);
+
+      await assert.rejects(invoice(600n, [a]), /anchor rejected/i);
+      await assert.rejects(dispute(a), /Anchor already disputed/i);
+      await assert.rejects(resolve(a, true), /Anchor not disputed/i);
+    });
+
+    it("Should slash the relayer bond to the disputant", async function () {
+      const a = await anchorUsage("a", 600n);
+      await dispute(a);
+      assert.equal(await edgeCharge.read.openDisputesByRelayer([relayer.account.address]), 1n);
+      await assert.rejects(
+        edgeCharge.write.withdrawRelayerBond([token.address, 1_000n], { account: relayer.account }),
+        /relayer has open disputes/i,
+      );
+
+      await assert.rejects(resolve(a, true, 1n), /slash only against provider/i);
+      await assert.rejects(resolve(a, false, 1_001n), /insufficient bond/i);
+      await resolve(a, false, 300n);
+
+      assert.deepEqual(await lastEvent("RelayerSlashed"), {
+        relayer: getAddress(relayer.account.address),
+        anchorId: a,
+        token: getAddress(token.address),
+        amount: 300n,
+        beneficiary: getAddress(enterprise.account.address),
+      });
+      assert.equal(await edgeCharge.read.relayerBonds([relayer.account.address, token.address]), 700n);
+      assert.equal(await edgeCharge.read.getEnterpriseEscrow([enterprise.account.address, token.address]), 10_300n);
+
+      await assert.rejects(
+        edgeCharge.write.withdrawRelayerBond([token.address, 701n], { account: relayer.account }),
+        /insufficient bond/i,
+      );
+      await edgeCharge.write.withdrawRelayerBond([token.address, 700n], { account: relayer.account });
+      assert.equal(await token.read.balanceOf([relayer.account.address]), 700n);
+    });
+
+    it("Should let the provider win by default after the deadline", async function () {
+      await assert.rejects(
+        edgeCharge.write.setDisputeResolutionPeriod([3_600n], { account: otherAccount.account }),
+        /OwnableUnauthorizedAccount/i,
+      );
+      await assert.rejects(edgeCharge.write.setDisputeResolutionPeriod([0n]), /invalid period/i);
+      await edgeCharge.write.setDisputeResolutionPeriod([3_600n]);
+
+      const a = await anchorUsage("a", 600n);
+      const invoiceId = await invoice(600n, [a]);
+      await dispute(a);
+      await assert.rejects(
+        edgeCharge.write.resolveExpiredDispute([a], { account: otherAccount.account }),
+        /dispute deadline not reached/i,
+      );
+
+      await testClient.increaseTime({ seconds: 3_601 });
+      await testClient.mine({ blocks: 1 });
+      await assert.rejects(resolve(a, false), /dispute deadline passed/i);
+
+      await edgeCharge.write.resolveExpiredDispute([a], { account: otherAccount.account });
+      assert.equal((await edgeCharge.read.getDispute([a])).status, DefaultedForProvider);
+      assert.equal(await edgeCharge.read.openDisputesByRelayer([relayer.account.address]), 0n);
+      await assert.rejects(edgeCharge.write.resolveExpiredDispute([a]), /Anchor not disputed/i);
+
+      await pay(invoiceId);
+      assert.equal(await edgeCharge.read.getProviderBalance([provider.account.address, token.address]), 600n);
+    });
+
+    it("Should only let the billed enterprise dispute a billed anchor", async function () {
+      const a = await anchorUsage("a", 600n);
+      const invoiceId = await invoice(600n, [a]);
+
+      for (const account of [otherAccount, provider, relayer]) {
+        await assert.rejects(
+          edgeCharge.write.openDispute([a, "Hold the invoice"], { account: account.account }),
+          /not invoice enterprise/i,
+        );
+      }
+      assert.equal(await edgeCharge.read.openDisputesByRelayer([relayer.account.address]), 0n);
+
+      await pay(invoiceId);
+      await dispute(a);
+      assert.equal((await edgeCharge.read.getDispute([a])).disputant, getAddress(enterprise.account.address));
+    });
+
+    it("Should make a default win final", async function () {
+      await edgeCharge.write.setDisputeResolutionPeriod([3_600n]);
+      const a = await anchorUsage("a", 600n);
+      const b = await anchorUsage("b", 400n);
+
+      // An unbilled anchor cannot be held back from billing by disputing it again and again
+      await edgeCharge.write.openDispute([a, "Hold billing"], { account: otherAccount.account });
+      await lapse(a);
+      for (const account of [otherAccount, enterprise, provider]) {
+        await assert.rejects(
+          edgeCharge.write.openDispute([a, "Hold billing"], { account: account.account }),
+          /Anchor already disputed/i,
+        );
+      }
+
+      // Nor can the enterprise hold its own invoice by re-disputing after each default
+      const invoiceId = await invoice(400n, [b]);
+      await dispute(b);
+      await lapse(b);
+      await assert.rejects(dispute(b), /Anchor already disputed/i);
+
+      await pay(invoiceId);
+      assert.equal(await edgeCharge.read.getProviderBalance([provider.account.address, token.address]), 400n);
+    });
+
+    it("Should give the billed enterprise one dispute after someone else's lapsed", async function () {
+      await edgeCharge.write.setDisputeResolutionPeriod([3_600n]);
+      const a = await anchorUsage("a", 600n);
+
+      await edgeCharge.write.openDispute([a, "Throwaway"], { account: provider.account });
+      await lapse(a);
+
+      const invoiceId = await invoice(600n, [a]);
+      await dispute(a);
+      assert.equal((await edgeCharge.read.getDispute([a])).disputant, getAddress(enterprise.account.address));
+      await assert.rejects(pay(invoiceId), /invoice has disputed anchor/i);
+
+      // The enterprise's own dispute lapsing ends the matter
+      await lapse(a);
+      assert.equal((await edgeCharge.read.getDispute([a])).status, DefaultedForProvider);
+      await assert.rejects(dispute(a), /Anchor already disputed/i);
+      await pay(invoiceId);
+    });
+
+    it("Should keep an owner's ruling final after someone else's dispute lapsed", async function () {
+      await edgeCharge.write.setDisputeResolutionPeriod([3_600n]);
+      const a = await anchorUsage("a", 600n);
+      await edgeCharge.write.openDispute([a, "Throwaway"], { account: provider.account });
+      await lapse(a);
+
+      const invoiceId = await invoice(600n, [a]);
+      await dispute(a);
+      await resolve(a, false);
+
+      assert.equal((await edgeCharge.read.getDispute([a])).status, ResolvedAgainstProvider);
+      assert.equal(await edgeCharge.read.invoiceRefunds([invoiceId]), 600n);
+      await assert.rejects(dispute(a), /Anchor already disputed/i);
+    });
+  });
+
+  describe("Escrow Withdrawal and Allowances", async function () {
+    const testClient = await viem.getTestClient();
+    const windowEnd = BigInt(Math.floor(Date.now() / 1000));
+    const day = 86_400n;
+    let token: any;
+    let anchors = 0;
+
+    async function invoice(amount: bigint): Promise<bigint> {
+      await edgeCharge.write.submitUsageAnchor(
+        [provider.account.address, windowEnd - 3600n, windowEnd, keccak256(toBytes(`usage ${anchors++}`)), 100n],
+        { account: relayer.account },
+      );
+      const anchored = await publicClient.getContractEvents({
+        address: edgeCharge.address,
+        abi: edgeCharge.abi,
+        eventName: "UsageAnchored",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      const { anchorId } = (anchored[anchored.length - 1] as any).args;
+
+      await edgeCharge.write.createInvoice(
+        [enterprise.account.address, provider.account.address, token.address, amount, keccak256(toBytes("invoice")), [anchorId]],
+        { account: relayer.account },
+      );
+      const created = await publicClient.getContractEvents({
+        address: edgeCharge.address,
+        abi: edgeCharge.abi,
+        eventName: "InvoiceCreated",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      return (created[created.length - 1] as any).args.invoiceId;
+    }
+
+    const pay = (invoiceId: bigint) => edgeCharge.write.markInvoicePaid([invoiceId], { account: relayer.account });
+    const allow = (periodCap: bigint, period: bigint, perInvoiceMax: bigint) =>
+      edgeCharge.write.setProviderAllowance([provider.account.address, token.address, periodCap, period, perInvoiceMax], {
+        account: enterprise.account,
+      });
+    const escrowOf = () => edgeCharge.read.getEnterpriseEscrow([enterprise.account.address, token.address]);
+
+    async function passTime(seconds: bigint) {
+      await testClient.increaseTime({ seconds: Number(seconds) });
+      await testClient.mine({ blocks: 1 });
+    }
+
+    beforeEach(async function () {
+      anchors = 0;
+      token = await viem.deployContract("TestToken");
+      await edgeCharge.write.setBillingTokenAllowed([token.address, true]);
+      await token.write.mint([enterprise.account.address, 10_000n]);
+      await token.write.approve([edgeCharge.address, 10_000n], { account: enterprise.account });
+      await edgeCharge.write.depositEscrow([token.address, 10_000n], { account: enterprise.account });
+    });
+
+    it("Should only withdraw escrow once the requested withdrawal unlocks", async function () {
+      const withdraw = () => edgeCharge.write.withdrawEscrow([token.address], { account: enterprise.account });
+      await assert.rejects(withdraw(), /no withdrawal requested/i);
+      await assert.rejects(
+        edgeCharge.write.requestEscrowWithdrawal([token.address, 10_001n], { account: enterprise.account }),
+        /insufficient escrow/i,
+      );
+
+      await edgeCharge.write.requestEscrowWithdrawal([token.address, 4_000n], { account: enterprise.account });
+      await assert.rejects(withdraw(), /withdrawal locked/i);
+      await edgeCharge.write.cancelEscrowWithdrawal([token.address], { account: enterprise.account });
+      await passTime(3n * day);
+      await assert.rejects(withdraw(), /no withdrawal requested/i);
+
+      await edgeCharge.write.requestEscrowWithdrawal([token.address, 4_000n], { account: enterprise.account });
+      await passTime(3n * day);
+      await withdraw();
+
+      assert.equal(await token.read.balanceOf([enterprise.account.address]), 4_000n);
+      assert.equal(await escrowOf(), 6_000n);
+      await assert.rejects(withdraw(), /no withdrawal requested/i);
+    });
+
+    it("Should let invoices be paid from escrow while a withdrawal is pending", async function () {
+      await allow(10_000n, 30n * day, 0n);
+      await edgeCharge.write.requestEscrowWithdrawal([token.address, 10_000n], { account: enterprise.account });
+      await pay(await invoice(3_000n));
+
+      await passTime(3n * day);
+      await edgeCharge.write.withdrawEscrow([token.address], { account: enterprise.account });
+      assert.equal(await token.read.balanceOf([enterprise.account.address]), 7_000n);
+      assert.equal(await escrowOf(), 0n);
+    });
+
+    it("Should let the owner set the withdrawal delay", async function () {
+      await assert.rejects(
+        edgeCharge.write.setEscrowWithdrawalDelay([day], { account: otherAccount.account }),
+        /OwnableUnauthorizedAccount/i,
+      );
+      await edgeCharge.write.setEscrowWithdrawalDelay([day]);
+      assert.equal(await edgeCharge.read.escrowWithdrawalDelay(), day);
+    });
+
+    it("Should keep the withdrawal delay within its bounds", async function () {
+      const min = await edgeCharge.read.MIN_ESCROW_WITHDRAWAL_DELAY();
+      const max = await edgeCharge.read.MAX_ESCROW_WITHDRAWAL_DELAY();
+      await assert.rejects(edgeCharge.write.setEscrowWithdrawalDelay([0n]), /invalid delay/i);
+      await assert.rejects(edgeCharge.write.setEscrowWithdrawalDelay([min - 1n]), /invalid delay/i);
+      await assert.rejects(edgeCharge.write.setEscrowWithdrawalDelay([max + 1n]), /invalid delay/i);
+
+      await edgeCharge.write.setEscrowWithdrawalDelay([min]);
+      assert.equal(await edgeCharge.read.escrowWithdrawalDelay(), min);
+      await edgeCharge.write.setEscrowWithdrawalDelay([max]);
+      assert.equal(await edgeCharge.read.escrowWithdrawalDelay(), max);
+    });
+
+    it("Should only pay invoices within the enterprise's allowance for the provider", async function () {
+      const first = await invoice(600n);
+      await assert.rejects(pay(first), /no allowance for provider/i);
+      await assert.rejects(allow(0n, day, 0n), /invalid period cap/i);
+      await assert.rejects(allow(1_000n, 0n, 0n), /invalid period/i);
+
+      await allow(1_000n, day, 600n);
+      await assert.rejects(pay(await invoice(700n)), /invoice exceeds allowance/i);
+      await pay(first);
+
+      const second = await invoice(500n);
+      await assert.rejects(pay(second), /period allowance exceeded/i);
+      await passTime(day);
+      await pay(second);
+
+      const allowance = await edgeCharge.read.getAllowance([
+        enterprise.account.address,
+        provider.account.address,
+        token.address,
+      ]);
+      assert.equal(allowance.spentInPeriod, 500n);
+      assert.equal(await escrowOf(), 8_900n);
+    });
+
+    it("Should stop paying a provider once its allowance is revoked", async function () {
+      await assert.rejects(
+        edgeCharge.write.revokeProviderAllowance([provider.account.address, token.address], {
+          account: otherAccount.account,
+        }),
+        /no allowance/i,
+      );
+      await allow(1_000n, day, 0n);
+      await edgeCharge.write.revokeProviderAllowance([provider.account.address, token.address], { account: enterprise.account });
+      await assert.rejects(pay(await invoice(100n)), /no allowance for provider/i);
+    });
+  });
+
+  describe("Billing Tokens", async function () {
+    const windowEnd = BigInt(Math.floor(Date.now() / 1000));
+    let usd: any;
+    let eur: any;
+
+    async function invoiceIn(token: any, amount: bigint): Promise<bigint> {
+      await edgeCharge.write.submitUsageAnchor(
+        [provider.account.address, windowEnd - 3600n, windowEnd, keccak256(toBytes(`usage ${amount}`)), 100n],
+        { account: relayer.account },
+      );
+      const events = await publicClient.getContractEvents({
+        address: edgeCharge.address,
+        abi: edgeCharge.abi,
+        eventName: "UsageAnchored",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      const { anchorId } = (events[events.length - 1] as any).args;
+      await edgeCharge.write.createInvoice(
+        [enterprise.account.address, provider.account.address, token.address, amount, keccak256(toBytes("invoice")), [anchorId]],
+        { account: relayer.account },
+      );
+      return (await edgeCharge.read.nextInvoiceId()) - 1n;
+    }
+
+    const pay = (invoiceId: bigint) => edgeCharge.write.markInvoicePaid([invoiceId], { account: relayer.account });
+    const balances = async (token: any) => [
+      await edgeCharge.read.getEnterpriseEscrow([enterprise.account.address, token.address]),
+      await edgeCharge.read.getProviderBalance([provider.account.address, token.address]),
+    ];
+
+    beforeEach(async function () {
+      usd = await viem.deployContract("TestToken");
+      eur = await viem.deployContract("TestToken");
+      for (const token of [usd, eur]) {
+        await edgeCharge.write.setBillingTokenAllowed([token.address, true]);
+        await token.write.mint([enterprise.account.address, 1_000n]);
+        await token.write.approve([edgeCharge.address, 1_000n], { account: enterprise.account });
+        await edgeCharge.write.depositEscrow([token.address, 1_000n], { account: enterprise.account });
+        await edgeCharge.write.setProviderAllowance([provider.account.address, token.address, 1_000n, 86_400n, 0n], {
+          account: enterprise.account,
+        });
+      }
+    });
+
+    it("Should only let the owner allow billing tokens", async function () {
+      await assert.rejects(
+        edgeCharge.write.setBillingTokenAllowed([usd.address, false], { account: otherAccount.account }),
+        /OwnableUnauthorizedAccount/i,
+      );
+      await assert.rejects(
+        edgeCharge.write.setBillingTokenAllowed(["0x0000000000000000000000000000000000000000", true]),
+        /zero token/i,
+      );
+      assert.equal(await edgeCharge.read.billingTokens([usd.address]), true);
+      assert.equal(await edgeCharge.read.billingTokens([otherAccount.account.address]), false);
+    });
+
+    it("Should settle each invoice in its own token", async function () {
+      await pay(await invoiceIn(usd, 300n));
+      await pay(await invoiceIn(eur, 500n));
+
+      assert.deepEqual(await balances(usd), [700n, 300n]);
+      assert.deepEqual(await balances(eur), [500n, 500n]);
+
+      await edgeCharge.write.withdrawProvider([eur.address], { account: provider.account });
+      assert.equal(await eur.read.balanceOf([provider.account.address]), 500n);
+      assert.equal(await usd.read.balanceOf([provider.account.address]), 0n);
+      assert.deepEqual(await balances(usd), [700n, 300n]);
+    });
+
+    it("Should keep balances in a removed token payable and withdrawable", async function () {
+      const invoiceId = await invoiceIn(usd, 300n);
+      await edgeCharge.write.setBillingTokenAllowed([usd.address, false]);
+
+      await assert.rejects(
+        edgeCharge.write.depositEscrow([usd.address, 1n], { account: enterprise.account }),
+        /token not allowed/i,
+      );
+      await assert.rejects(invoiceIn(usd, 100n), /token not allowed/i);
+
+      await pay(invoiceId);
+      await edgeCharge.write.withdrawProvider([usd.address], { account: provider.account });
+      assert.equal(await usd.read.balanceOf([provider.account.address]), 300n);
+    });
+  });
+
+  describe("Invoice Approval", async function () {
+    const windowEnd = BigInt(Math.floor(Date.now() / 1000));
+    let token: any;
+    let invoiceId: bigint;
+
+    async function createInvoice(label: string, amount: bigint): Promise<bigint> {
+      await edgeCharge.write.submitUsageAnchor(
+        [provider.account.address, windowEnd - 3600n, windowEnd, keccak256(toBytes(label)), 100n],
+        { account: relayer.account },
+      );
+      const events = await publicClient.getContractEvents({
+        address: edgeCharge.address,
+        abi: edgeCharge.abi,
+        eventName: "UsageAnchored",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      const { anchorId } = (events[events.length - 1] as any).args;
+      await edgeCharge.write.createInvoice(
+        [enterprise.account.address, provider.account.address, token.address, amount, keccak256(toBytes(label)), [anchorId]],
+        { account: relayer.account },
+      );
+      return (await edgeCharge.read.nextInvoiceId()) - 1n;
+    }
+
+    async function sign(
+      signer: any,
+      message: { invoiceId: bigint; maxAmount: bigint; nonce: bigint; deadline: bigint },
+    ): Promise<`0x${string}`> {
+      return signer.signTypedData({
+        domain: {
+          name: "EdgeCharge",
+          version: "1",
+          chainId: await publicClient.getChainId(),
+          verifyingContract: edgeCharge.address,
+        },
+        types: {
+          InvoiceApproval: [
+            { name: "invoiceId", type: "uint256" },
+            { name: "maxAmount", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "InvoiceApproval",
+        message,
+      });
+    }
+
+    const submit = (
+      message: { invoiceId: bigint; maxAmount: bigint; nonce: bigint; deadline: bigint },
+      signature: `0x${string}`,
+    ) =>
+      edgeCharge.write.payInvoiceWithApproval(
+        [message.invoiceId, message.maxAmount, message.nonce, message.deadline, signature],
+        { account: otherAccount.account },
+      );
+
+    const inAnHour = async () => (await publicClient.getBlock()).timestamp + 3600n;
+
+    beforeEach(async function () {
+      token = await viem.deployContract("TestToken");
+      await edgeCharge.write.setBillingTokenAllowed([token.address, true]);
+      await token.write.mint([enterprise.account.address, 1_000n]);
+      await token.write.approve([edgeCharge.address, 1_000n], { account: enterprise.account });
+      await edgeCharge.write.depositEscrow([token.address, 1_000n], { account: enterprise.account });
+      // No allowance is set: only the enterprise's own authorization can pay
+      invoiceId = await createInvoice("approved usage", 400n);
+    });
+
+    it("Should pay an invoice with the enterprise's signed approval, submitted by anyone", async function () {
+      const approval = { invoiceId, maxAmount: 400n, nonce: 0n, deadline: await inAnHour() };
+      await submit(approval, await sign(enterprise, approval));
+
+      assert.equal((await edgeCharge.read.getInvoice([invoiceId])).paid, true);
+      assert.equal(await edgeCharge.read.getProviderBalance([provider.account.address, token.address]), 400n);
+      assert.equal(await edgeCharge.read.nonces([enterprise.account.address]), 1n);
+
+      // The nonce is used up, so the same approval cannot pay another invoice
+      const next = { ...approval, invoiceId: await createInvoice("more usage", 400n) };
+      await assert.rejects(submit(next, await sign(enterprise, next)), /InvalidAccountNonce/i);
+    });
+
+    it("Should reject expired, foreign, tampered or insufficient approvals", async function () {
+      const approval = { invoiceId, maxAmount: 400n, nonce: 0n, deadline: await inAnHour() };
+      const signature = await sign(enterprise, approval);
+
+      const expired = { ...approval, deadline: (await publicClient.getBlock()).timestamp - 1n };
+      await assert.rejects(submit(expired, await sign(enterprise, expired)), /approval expired/i);
+      await assert.rejects(submit(approval, await sign(otherAccount, approval)), /invalid signature/i);
+      await assert.rejects(submit({ ...approval, maxAmount: 500n }, signature), /invalid signature/i);
+
+      const tooLow = { ...approval, maxAmount: 399n };
+      await assert.rejects(submit(tooLow, await sign(enterprise, tooLow)), /amount exceeds approval/i);
+
+      await edgeCharge.write.cancelInvoiceApprovals({ account: enterprise.account });
+      await assert.rejects(submit(approval, signature), /InvalidAccountNonce/i);
+      assert.equal((await edgeCharge.read.getInvoice([invoiceId])).paid, false);
+    });
+
+    it("Should let only the invoice's enterprise pay it directly", async function () {
+      await assert.rejects(
+        edgeCharge.write.markInvoicePaid([invoiceId], { account: relayer.account }),
+        /no allowance for provider/i,
+      );
+      await assert.rejects(
+        edgeCharge.write.payInvoice([invoiceId], { account: otherAccount.account }),
+        /not invoice enterprise/i,
+      );
+
+      await edgeCharge.write.payInvoice([invoiceId], { account: enterprise.account });
+      assert.equal(await edgeCharge.read.getEnterpriseEscrow([enterprise.account.address, token.address]), 600n);
+      assert.equal(await edgeCharge.read.getAmountDue([invoiceId]), 400n);
+      await assert.rejects(
+        edgeCharge.write.payInvoice([invoiceId], { account: enterprise.account }),
+        /Invoice already paid/i,
+      );
+    });
+  });
+
   describe("Merkle Proof Verification", async function () {
     const windowStart = BigInt(Math.floor(Date.now() / 1000) - 3600); // 1 hour ago
     const windowEnd = BigInt(Math.floor(Date.now() / 1000)); // now
@@ -336,6 +1062,57 @@ describe("EdgeCharge", async function () {
         /Anchor does not exist/i,
       );
     });
+
+    it("Should verify usage records against a version 2 (StandardMerkleTree) anchor", async function () {
+      const record = (nonce: string) => ({
+        provider: provider.account.address,
+        nodeId: "node-001",
+        windowStart,
+        windowEnd,
+        unitsConsumed: 500n,
+        rateId: "rate-gpu-bandwidth-1",
+        nonce,
+      });
+      const hashLeaf = (r: ReturnType<typeof record>) => keccak256(keccak256(encodeAbiParameters(
+        parseAbiParameters("address, string, uint256, uint256, uint256, string, string"),
+        [r.provider, r.nodeId, r.windowStart, r.windowEnd, r.unitsConsumed, r.rateId, r.nonce],
+      )));
+      const first = record("0x01");
+      const second = record("0x02");
+      const [a, b] = [hashLeaf(first), hashLeaf(second)].sort();
+      const merkleRoot = keccak256(`0x${a.slice(2)}${b.slice(2)}`);
+
+      assert.equal(await edgeCharge.read.usageLeafHash([first]), hashLeaf(first));
+
+      await edgeCharge.write.submitUsageAnchor(
+        [provider.account.address, windowStart, windowEnd, merkleRoot, totalUsage],
+        { account: relayer.account },
+      );
+      const events = await publicClient.getContractEvents({
+        address: edgeCharge.address,
+        abi: edgeCharge.abi,
+        eventName: "UsageAnchored",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      const anchorId = (events[events.length - 1] as any).args.anchorId as `0x${string}`;
+
+      assert.equal(await edgeCharge.read.verifyUsageLeaf([anchorId, first, [hashLeaf(second)]]), true);
+      assert.equal(await edgeCharge.read.verifyUsageLeaf([anchorId, second, [hashLeaf(first)]]), true);
+      assert.equal(
+        await edgeCharge.read.verifyUsageLeaf([anchorId, { ...first, unitsConsumed: 5000n }, [hashLeaf(second)]]),
+        false,
+      );
+
+      await assert.rejects(
+        edgeCharge.read.verifyUsageLeaf([
+          "0x0000000000000000000000000000000000000000000000000000000000000000",
+          first,
+          [],
+        ]),
+        /Anchor does not exist/i,
+      );
+    });
   });
 
   describe("Dishonest Relayer Scenario", async function () {
@@ -1,5 +1,8 @@
 "use client"
 
+import { useMemo, useState } from "react";
+import { BaseError } from "viem";
+import { useAccount } from "wagmi";
 import { Header } from "@/components/layout/header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,6 +20,7 @@ import {
   Search
 } from "lucide-react";
 import { Project, Invoice, UsageData } from "@/lib/types";
+import { useEnterpriseInvoices, usePayInvoice } from "@/lib/hooks/useBlockchain";
 
 // Mock data - in real app, this would come from API
 const mockProjects: Project[] = [
@@ -52,39 +56,6 @@ const mockProjects: Project[] = [
   }
 ];
 
-const mockInvoices: Invoice[] = [
-  {
-    id: "inv-001",
-    projectId: "proj-001",
-    projectName: "AI Training Cluster",
-    amount: 2456.78,
-    status: "paid",
-    dueDate: 1704153600,
-    generatedDate: 1704067200,
-    downloadUrl: "/api/invoices/inv-001/download"
-  },
-  {
-    id: "inv-002",
-    projectId: "proj-002", 
-    projectName: "Edge Computing Network",
-    amount: 1876.45,
-    status: "pending",
-    dueDate: 1704240000,
-    generatedDate: 1704063600,
-    downloadUrl: "/api/invoices/inv-002/download"
-  },
-  {
-    id: "inv-003",
-    projectId: "proj-003",
-    projectName: "Data Processing Pipeline", 
-    amount: 892.34,
-    status: "overdue",
-    dueDate: 1703980800,
-    generatedDate: 1704056400,
-    downloadUrl: "/api/invoices/inv-003/download"
-  }
-];
-
 const mockUsageData: UsageData[] = [
   { date: "2024-01-01", usage: 1200, cost: 2400 },
   { date: "2024-01-02", usage: 1350, cost: 2700 },
@@ -95,7 +66,28 @@ const mockUsageData: UsageData[] = [
   { date: "2024-01-07", usage: 1400, cost: 2800 }
 ];
 
+// Outcome of the last payment sent from the dashboard
+type PaymentStatus = { invoiceId: string; txHash?: string; error?: string };
+
 export default function EnterpriseDashboard() {
+  const { address } = useAccount();
+  // Only the connected enterprise's invoices, which are the ones it can pay
+  const { data: onChainInvoices = [], isLoading: invoicesLoading } = useEnterpriseInvoices(address);
+  const payInvoice = usePayInvoice();
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>();
+
+  // Invoices created on chain, keyed by their on-chain id so each one can be paid
+  const invoices = useMemo<Invoice[]>(() => onChainInvoices.map(invoice => ({
+    id: invoice.id,
+    amount: invoice.amount,
+    status: invoice.paid ? 'paid' : 'pending',
+    dueDate: invoice.dueDate,
+    generatedDate: invoice.generatedDate,
+    invoiceHash: invoice.invoiceHash,
+    paid: invoice.paid,
+    transactionHash: invoice.transactionHash,
+  })), [onChainInvoices]);
+  const unpaidInvoices = invoices.filter(i => i.status !== 'paid');
 
   const handleDownloadInvoice = (invoice: Invoice) => {
     console.log(`Downloading invoice: ${invoice.id}`);
@@ -113,6 +105,18 @@ export default function EnterpriseDashboard() {
     console.log('Viewing invoice:', invoice.id);
   };
 
+  // Pays from the connected wallet's escrow; the contract only accepts it from the invoice's enterprise
+  const handlePayInvoice = (invoice: Invoice) => {
+    setPaymentStatus(undefined);
+    payInvoice.mutate(invoice.id, {
+      onSuccess: (receipt) => setPaymentStatus({ invoiceId: invoice.id, txHash: receipt.transactionHash }),
+      onError: (error) => setPaymentStatus({
+        invoiceId: invoice.id,
+        error: error instanceof BaseError ? error.shortMessage : error.message,
+      }),
+    });
+  };
+
   return (
     <div className="flex flex-col h-full">
       <Header 
@@ -147,8 +151,8 @@ export default function EnterpriseDashboard() {
             
             <StatsCard
               title="Pending Invoices"
-              value={mockInvoices.filter(i => i.status === 'pending' || i.status === 'overdue').length}
-              description={`$${mockInvoices.filter(i => i.status === 'pending' || i.status === 'overdue').reduce((sum, i) => sum + i.amount, 0).toFixed(2)} total`}
+              value={invoicesLoading ? '...' : unpaidInvoices.length}
+              description={`$${unpaidInvoices.reduce((sum, i) => sum + i.amount, 0).toFixed(2)} total`}
               icon={Calendar}
             />
           </div>
@@ -204,14 +208,31 @@ export default function EnterpriseDashboard() {
                 <CardHeader>
                   <CardTitle>Invoice Management</CardTitle>
                   <CardDescription>
-                    View and download invoices for all projects
+                    View, download and pay invoices for all projects
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
+                  {paymentStatus && (
+                    <p
+                      role="status"
+                      className={paymentStatus.error ? "text-sm text-red-600 dark:text-red-400" : "text-sm text-green-600 dark:text-green-400"}
+                    >
+                      {paymentStatus.error
+                        ? `Could not pay invoice ${paymentStatus.invoiceId}: ${paymentStatus.error}`
+                        : `Paid invoice ${paymentStatus.invoiceId} in transaction ${paymentStatus.txHash}`}
+                    </p>
+                  )}
+                  {!address && (
+                    <p className="text-sm text-muted-foreground">
+                      Connect the enterprise wallet to see and pay its invoices
+                    </p>
+                  )}
                   <InvoiceTable
-                    invoices={mockInvoices}
+                    invoices={invoices}
                     onView={handleViewInvoice}
                     onDownload={handleDownloadInvoice}
+                    onPay={handlePayInvoice}
+                    payingId={payInvoice.isPending ? payInvoice.variables : undefined}
                   />
                 </CardContent>
               </Card>
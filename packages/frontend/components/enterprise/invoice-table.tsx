@@ -1,7 +1,7 @@
 import { DataTable, type Column } from "@/components/shared/data-table";
 import { StatusBadge } from "@/components/shared/status-badge";
 import { Button } from "@/components/ui/button";
-import { Download, Eye } from "lucide-react";
+import { Download, Eye, Wallet } from "lucide-react";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { Invoice } from "@/lib/types";
 
@@ -9,12 +9,17 @@ interface InvoiceTableProps {
   invoices: Invoice[];
   onView?: (invoice: Invoice) => void;
   onDownload?: (invoice: Invoice) => void;
+  onPay?: (invoice: Invoice) => void;
+  // Invoice whose payment is being sent
+  payingId?: string;
 }
 
 export function InvoiceTable({ 
   invoices, 
   onView, 
-  onDownload
+  onDownload,
+  onPay,
+  payingId
 }: InvoiceTableProps) {
   const columns: Column<Invoice>[] = [
     {
@@ -26,7 +31,7 @@ export function InvoiceTable({
       label: 'Project',
       render: (value, row) => (
         <div>
-          <div className="font-medium">{String(value)}</div>
+          <div className="font-medium">{value ? String(value) : '-'}</div>
           {row.projectId && (
             <div className="text-sm text-muted-foreground">{row.projectId}</div>
           )}
@@ -73,6 +78,16 @@ export function InvoiceTable({
               Download
             </Button>
           )}
+          {onPay && row.status !== 'paid' && (
+            <Button
+              size="sm"
+              disabled={payingId === row.id}
+              onClick={() => onPay(row)}
+            >
+              <Wallet className="mr-2 h-4 w-4" />
+              {payingId === row.id ? 'Paying...' : 'Pay'}
+            </Button>
+          )}
         </div>
       ),
     },
@@ -1,4 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useConfig } from 'wagmi';
+import { waitForTransactionReceipt, writeContract } from 'wagmi/actions';
+import { EDGECHARGE_ABI, EDGECHARGE_CONFIG } from '../wagmi';
 import { getBlockchainService } from '../services';
 import { UsageAnchor, Invoice } from '../services/interfaces';
 
@@ -38,6 +41,19 @@ export function useInvoices(provider?: string) {
   });
 }
 
+// Hook for fetching the invoices billed to an enterprise; idle until the enterprise is known
+export function useEnterpriseInvoices(enterprise?: string) {
+  const blockchainService = getBlockchainService();
+
+  return useQuery({
+    queryKey: ['invoices', undefined, enterprise],
+    queryFn: () => blockchainService.getInvoices(undefined, enterprise),
+    enabled: !!enterprise,
+    staleTime: 30000, // 30 seconds
+    refetchInterval: 60000, // Refetch every minute
+  });
+}
+
 // Hook for fetching a specific invoice
 export function useInvoice(invoiceId: string) {
   const blockchainService = getBlockchainService();
@@ -88,6 +104,33 @@ export function useBlockchainEvents(callback: (event: any) => void) {
   });
 }
 
+// Hook for paying an invoice from the connected enterprise wallet's escrow
+export function usePayInvoice() {
+  const config = useConfig();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invoiceId: string) => {
+      const hash = await writeContract(config, {
+        address: EDGECHARGE_CONFIG.address,
+        abi: EDGECHARGE_ABI,
+        functionName: 'payInvoice',
+        args: [BigInt(invoiceId)],
+        chainId: EDGECHARGE_CONFIG.chainId,
+      });
+      const receipt = await waitForTransactionReceipt(config, { hash, chainId: EDGECHARGE_CONFIG.chainId });
+      if (receipt.status !== 'success') {
+        throw new Error(`Payment of invoice ${invoiceId} reverted`);
+      }
+      return receipt;
+    },
+    onSuccess: (_receipt, invoiceId) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] });
+    },
+  });
+}
+
 // Hook for refreshing blockchain data
 export function useRefreshBlockchain() {
   const queryClient = useQueryClient();
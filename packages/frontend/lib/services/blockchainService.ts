@@ -1,4 +1,4 @@
-import { createPublicClient, http, parseAbiItem, formatUnits } from 'viem';
+import { createPublicClient, erc20Abi, http, parseAbiItem, formatUnits } from 'viem';
 import { config, u2uNebulasTestnet, EDGECHARGE_ABI, EDGECHARGE_CONFIG } from '../wagmi';
 import { 
   IBlockchainService, 
@@ -9,6 +9,8 @@ import {
 
 export class BlockchainService implements IBlockchainService {
   private publicClient;
+  // Decimals by billing token; invoices are billed in the token's base units
+  private tokenDecimals = new Map<string, number>();
 
   constructor() {
     this.publicClient = createPublicClient({
@@ -77,6 +79,13 @@ export class BlockchainService implements IBlockchainService {
       const log = logs[0];
       const block = log ? await this.publicClient.getBlock({ blockNumber: log.blockNumber }) : null;
 
+      const invoiceId = await this.publicClient.readContract({
+        address: EDGECHARGE_CONFIG.address,
+        abi: EDGECHARGE_ABI,
+        functionName: 'getAnchorInvoice',
+        args: [anchorId as `0x${string}`],
+      });
+
       return {
         id: anchorId,
         provider: result.provider,
@@ -89,6 +98,7 @@ export class BlockchainService implements IBlockchainService {
         transactionHash: log?.transactionHash || '',
         blockNumber: log ? Number(log.blockNumber) : undefined,
         timestamp: block ? Number(block.timestamp) : Date.now() / 1000,
+        invoiceId: invoiceId > 0n ? invoiceId.toString() : undefined,
       };
     } catch (error) {
       console.error(`Error fetching usage anchor ${anchorId}:`, error);
@@ -112,7 +122,7 @@ export class BlockchainService implements IBlockchainService {
       // Get invoice events for additional data
       const anchoredLogs = await this.publicClient.getLogs({
         address: EDGECHARGE_CONFIG.address,
-        event: parseAbiItem('event InvoiceAnchored(uint256 indexed invoiceId, address indexed enterprise, address indexed provider, uint256 amount)'),
+        event: parseAbiItem('event InvoiceCreated(uint256 indexed invoiceId, address indexed enterprise, address indexed provider, address token, uint256 amount, bytes32 invoiceHash)'),
         args: { invoiceId: BigInt(invoiceId) },
       });
 
@@ -122,6 +132,13 @@ export class BlockchainService implements IBlockchainService {
         args: { invoiceId: BigInt(invoiceId) },
       });
 
+      const anchorIds = await this.publicClient.readContract({
+        address: EDGECHARGE_CONFIG.address,
+        abi: EDGECHARGE_ABI,
+        functionName: 'getInvoiceAnchors',
+        args: [BigInt(invoiceId)],
+      });
+
       const anchoredLog = anchoredLogs[0];
       const paidLog = paidLogs[0];
 
@@ -137,11 +154,13 @@ export class BlockchainService implements IBlockchainService {
       return {
         id: invoiceId,
         invoiceHash: result.invoiceHash,
-        amount: Number(formatUnits(result.amount, 18)),
+        amount: Number(formatUnits(result.amount, await this.getTokenDecimals(result.token))),
         status,
         anchoredDate: anchoredLog ? Number(anchoredLog.blockNumber) : undefined,
         paid: result.paid,
         transactionHash: anchoredLog?.transactionHash,
+        anchorIds: [...anchorIds],
+        token: result.token,
         generatedDate: Date.now() / 1000,
         dueDate: Date.now() / 1000 + (30 * 24 * 60 * 60), // 30 days from now
         billingPeriod: {
@@ -161,13 +180,16 @@ export class BlockchainService implements IBlockchainService {
     }
   }
 
-  async getInvoices(provider?: string): Promise<Invoice[]> {
+  async getInvoices(provider?: string, enterprise?: string): Promise<Invoice[]> {
     try {
-      // Get all InvoiceAnchored events
+      // Get the InvoiceCreated events of the provider and enterprise, when given
       const logs = await this.publicClient.getLogs({
         address: EDGECHARGE_CONFIG.address,
-        event: parseAbiItem('event InvoiceAnchored(uint256 indexed invoiceId, address indexed enterprise, address indexed provider, uint256 amount)'),
-        args: provider ? { provider: provider as `0x${string}` } : undefined,
+        event: parseAbiItem('event InvoiceCreated(uint256 indexed invoiceId, address indexed enterprise, address indexed provider, address token, uint256 amount, bytes32 invoiceHash)'),
+        args: {
+          provider: provider as `0x${string}` | undefined,
+          enterprise: enterprise as `0x${string}` | undefined,
+        },
       });
 
       const invoices: Invoice[] = [];
@@ -188,6 +210,16 @@ export class BlockchainService implements IBlockchainService {
     }
   }
 
+  private async getTokenDecimals(token: `0x${string}`): Promise<number> {
+    const key = token.toLowerCase();
+    let decimals = this.tokenDecimals.get(key);
+    if (decimals === undefined) {
+      decimals = await this.publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' });
+      this.tokenDecimals.set(key, decimals);
+    }
+    return decimals;
+  }
+
   async isRelayerAuthorized(address: string): Promise<boolean> {
     try {
       const result = await this.publicClient.readContract({
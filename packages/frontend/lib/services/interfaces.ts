@@ -13,6 +13,8 @@ export interface UsageAnchor {
   transactionHash: string;
   blockNumber?: number;
   timestamp: number;
+  // On-chain invoice billing this anchor; unset while it is not billed
+  invoiceId?: string;
 }
 
 export interface Invoice {
@@ -23,6 +25,10 @@ export interface Invoice {
   anchoredDate?: number;
   paid: boolean;
   transactionHash?: string;
+  // Usage anchors the invoice bills, as recorded on chain
+  anchorIds?: string[];
+  // Billing token the invoice is paid in
+  token?: string;
   generatedDate: number;
   dueDate: number;
   billingPeriod: {
@@ -75,7 +81,7 @@ export interface IBlockchainService {
   getUsageAnchors(provider?: string, fromBlock?: number, toBlock?: number): Promise<UsageAnchor[]>;
   getUsageAnchor(anchorId: string): Promise<UsageAnchor | null>;
   getInvoice(invoiceId: string): Promise<Invoice | null>;
-  getInvoices(provider?: string): Promise<Invoice[]>;
+  getInvoices(provider?: string, enterprise?: string): Promise<Invoice[]>;
   isRelayerAuthorized(address: string): Promise<boolean>;
   getNextInvoiceId(): Promise<number>;
   listenToEvents(callback: (event: any) => void): () => void;
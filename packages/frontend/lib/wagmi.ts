@@ -56,12 +56,22 @@ export const EDGECHARGE_ABI = [
   },
   {
     "type": "event",
-    "name": "InvoiceAnchored",
+    "name": "InvoiceCreated",
     "inputs": [
       { "name": "invoiceId", "type": "uint256", "indexed": true },
       { "name": "enterprise", "type": "address", "indexed": true },
       { "name": "provider", "type": "address", "indexed": true },
-      { "name": "amount", "type": "uint256" }
+      { "name": "token", "type": "address" },
+      { "name": "amount", "type": "uint256" },
+      { "name": "invoiceHash", "type": "bytes32" }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "AnchorBilled",
+    "inputs": [
+      { "name": "anchorId", "type": "bytes32", "indexed": true },
+      { "name": "invoiceId", "type": "uint256", "indexed": true }
     ]
   },
   {
@@ -109,6 +119,7 @@ export const EDGECHARGE_ABI = [
         "components": [
           { "name": "enterprise", "type": "address" },
           { "name": "provider", "type": "address" },
+          { "name": "token", "type": "address" },
           { "name": "invoiceHash", "type": "bytes32" },
           { "name": "amount", "type": "uint256" },
           { "name": "paid", "type": "bool" },
@@ -118,6 +129,34 @@ export const EDGECHARGE_ABI = [
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "getInvoiceAnchors",
+    "inputs": [{ "name": "invoiceId", "type": "uint256" }],
+    "outputs": [{ "name": "", "type": "bytes32[]" }],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getAnchorInvoice",
+    "inputs": [{ "name": "anchorId", "type": "bytes32" }],
+    "outputs": [{ "name": "", "type": "uint256" }],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getAmountDue",
+    "inputs": [{ "name": "invoiceId", "type": "uint256" }],
+    "outputs": [{ "name": "", "type": "uint256" }],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "payInvoice",
+    "inputs": [{ "name": "invoiceId", "type": "uint256" }],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
   {
     "type": "function",
     "name": "nextInvoiceId",
@@ -6,6 +6,7 @@ import { PDFInvoiceGenerator } from '../services/pdfInvoiceGenerator.js';
 import { CSVInvoiceGenerator } from '../services/csvInvoiceGenerator.js';
 import { InvoiceHashService } from '../services/invoiceHashService.js';
 import { BlockchainAnchorService } from '../services/blockchainAnchorService.js';
+import { RelayerAnchorUsageService } from '../services/anchorUsageService.js';
 import { loadEnv } from '../config/env.js';
 
 const program = new Command();
@@ -30,6 +31,7 @@ program
       const csvGenerator = new CSVInvoiceGenerator();
       const hashService = new InvoiceHashService();
       const anchorService = new BlockchainAnchorService();
+      const anchorUsageService = new RelayerAnchorUsageService();
       
       const invoicingService = new InvoicingService(
         blockchainEventService,
@@ -38,6 +40,7 @@ program
         csvGenerator,
         hashService,
         anchorService,
+        anchorUsageService,
       );
 
       // Start the service
@@ -80,6 +83,7 @@ program
       const csvGenerator = new CSVInvoiceGenerator();
       const hashService = new InvoiceHashService();
       const anchorService = new BlockchainAnchorService();
+      const anchorUsageService = new RelayerAnchorUsageService();
       
       const invoicingService = new InvoicingService(
         blockchainEventService,
@@ -88,6 +92,7 @@ program
         csvGenerator,
         hashService,
         anchorService,
+        anchorUsageService,
       );
 
       let invoice = null;
@@ -137,6 +142,7 @@ program
       const csvGenerator = new CSVInvoiceGenerator();
       const hashService = new InvoiceHashService();
       const anchorService = new BlockchainAnchorService();
+      const anchorUsageService = new RelayerAnchorUsageService();
       
       const invoicingService = new InvoicingService(
         blockchainEventService,
@@ -145,6 +151,7 @@ program
         csvGenerator,
         hashService,
         anchorService,
+        anchorUsageService,
       );
 
       const invoices = invoicingService.getInvoices();
@@ -197,6 +204,7 @@ program
       const csvGenerator = new CSVInvoiceGenerator();
       const hashService = new InvoiceHashService();
       const anchorService = new BlockchainAnchorService();
+      const anchorUsageService = new RelayerAnchorUsageService();
       
       const invoicingService = new InvoicingService(
         blockchainEventService,
@@ -205,6 +213,7 @@ program
         csvGenerator,
         hashService,
         anchorService,
+        anchorUsageService,
       );
 
       const invoice = invoicingService.getInvoice(invoiceId);
@@ -249,6 +258,7 @@ program
       const csvGenerator = new CSVInvoiceGenerator();
       const hashService = new InvoiceHashService();
       const anchorService = new BlockchainAnchorService();
+      const anchorUsageService = new RelayerAnchorUsageService();
       
       const invoicingService = new InvoicingService(
         blockchainEventService,
@@ -257,6 +267,7 @@ program
         csvGenerator,
         hashService,
         anchorService,
+        anchorUsageService,
       );
 
       const stats = invoicingService.getServiceStats();
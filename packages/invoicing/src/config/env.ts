@@ -1,10 +1,35 @@
 import 'dotenv/config';
 import { z } from 'zod';
 
+const Address = z.string().regex(/^0x[0-9a-fA-F]{40}$/);
+
+const BillingTokenSchema = z.object({
+  address: Address.transform(a => a as `0x${string}`),
+  // Invoice amounts are sent in the token's base units
+  decimals: z.number().int().min(0).max(36).default(6),
+});
+
+export type BillingToken = z.infer<typeof BillingTokenSchema>;
+
 const EnvSchema = z.object({
   // Blockchain configuration
   U2U_RPC_URL: z.string().url().default('https://rpc-nebulas-testnet.u2u.xyz'),
   EDGECHARGE_ADDRESS: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
+  // JSON object mapping each invoice currency to the billing token it is paid in, e.g. {"USD":{"address":"0x…","decimals":6}}
+  BILLING_TOKENS: z.string().optional()
+    .transform((value, ctx) => {
+      if (!value) return {};
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be a JSON object' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.string().min(1), BillingTokenSchema)),
+
+  // Relayer that anchored the usage; serves the per-rate breakdown of each anchor
+  RELAYER_URL: z.string().url().default('http://localhost:8787'),
   
   // Invoicing configuration
   INVOICE_OUTPUT_DIR: z.string().default('./invoices'),
@@ -50,3 +75,10 @@ export function loadEnv(): Env {
   }
   return parsed.data;
 }
+
+/** The billing token invoices in `currency` are created in; currencies match case-insensitively */
+export function resolveBillingToken(env: Pick<Env, 'BILLING_TOKENS'>, currency: string): BillingToken {
+  const key = Object.keys(env.BILLING_TOKENS).find(c => c.toUpperCase() === currency.toUpperCase());
+  if (!key) throw new Error(`No billing token configured for currency ${currency}; add it to BILLING_TOKENS`);
+  return env.BILLING_TOKENS[key];
+}
@@ -5,6 +5,7 @@ import { PDFInvoiceGenerator } from './services/pdfInvoiceGenerator.js';
 import { CSVInvoiceGenerator } from './services/csvInvoiceGenerator.js';
 import { InvoiceHashService } from './services/invoiceHashService.js';
 import { BlockchainAnchorService } from './services/blockchainAnchorService.js';
+import { IAnchorUsageService } from './services/anchorUsageService.js';
 import { UsageAnchorEvent } from './domain/usageAnchor.js';
 
 async function runDemo() {
@@ -20,6 +21,10 @@ async function runDemo() {
     const csvGenerator = new CSVInvoiceGenerator();
     const hashService = new InvoiceHashService();
     const anchorService = new BlockchainAnchorService();
+    // The simulated anchor has no relayer behind it; bill all of its usage at one rate
+    const anchorUsageService: IAnchorUsageService = {
+      getRateUsage: async anchor => [{ rateId: 'rate-gpu-bandwidth-1', unitsConsumed: anchor.totalUsage }],
+    };
     
     const invoicingService = new InvoicingService(
       blockchainEventService,
@@ -28,6 +33,7 @@ async function runDemo() {
       csvGenerator,
       hashService,
       anchorService,
+      anchorUsageService,
     );
 
     // Load rate cards
@@ -53,6 +59,7 @@ async function runDemo() {
       provider: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
       windowStart: Math.floor(Date.now() / 1000) - 3600, // 1 hour ago
       windowEnd: Math.floor(Date.now() / 1000), // now
+      merkleRoot: '0x0000000000000000000000000000000000000000000000000000000000000000',
       totalUsage: 1500,
       blockNumber: 12345,
       transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
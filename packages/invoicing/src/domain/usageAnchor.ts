@@ -20,6 +20,7 @@ export const UsageAnchorEventSchema = z.object({
   provider: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
   windowStart: z.coerce.number().int().nonnegative(),
   windowEnd: z.coerce.number().int().positive(),
+  merkleRoot: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
   totalUsage: z.coerce.number().int().nonnegative(),
   blockNumber: z.coerce.number().int().positive(),
   transactionHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
@@ -27,3 +28,32 @@ export const UsageAnchorEventSchema = z.object({
 });
 
 export type UsageAnchorEvent = z.infer<typeof UsageAnchorEventSchema>;
+
+// Units billed at one rate within an anchor
+export const RateUsageSchema = z.object({
+  rateId: z.string().min(1),
+  unitsConsumed: z.coerce.number().int().nonnegative(),
+});
+
+export type RateUsage = z.infer<typeof RateUsageSchema>;
+
+// Response of the relayer's GET /anchors/:anchorId/rates
+export const AnchorRatesResponseSchema = z.object({
+  anchorId: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
+  provider: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  merkleRoot: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
+  treeVersion: z.union([z.literal(1), z.literal(2)]),
+  totalUsage: z.coerce.number().int().nonnegative(),
+  rates: z.array(RateUsageSchema.extend({ leafCount: z.number().int().positive() })),
+  leaves: z.array(z.object({
+    provider: z.string(),
+    nodeId: z.string(),
+    windowStart: z.number().int(),
+    windowEnd: z.number().int(),
+    unitsConsumed: z.number().int().nonnegative(),
+    rateId: z.string(),
+    nonce: z.string(),
+  })),
+});
+
+export type AnchorRatesResponse = z.infer<typeof AnchorRatesResponseSchema>;
@@ -6,11 +6,12 @@ export { PDFInvoiceGenerator } from './services/pdfInvoiceGenerator.js';
 export { CSVInvoiceGenerator } from './services/csvInvoiceGenerator.js';
 export { InvoiceHashService } from './services/invoiceHashService.js';
 export { BlockchainAnchorService } from './services/blockchainAnchorService.js';
+export { RelayerAnchorUsageService } from './services/anchorUsageService.js';
 
 // Domain exports
 export { Invoice, InvoiceSchema } from './domain/invoice.js';
 export { RateCard, RateCardSchema, DEFAULT_RATE_CARDS } from './domain/rateCard.js';
-export { UsageAnchor, UsageAnchorEvent, UsageAnchorEventSchema } from './domain/usageAnchor.js';
+export { UsageAnchor, UsageAnchorEvent, UsageAnchorEventSchema, RateUsage } from './domain/usageAnchor.js';
 
 // Configuration exports
 export { loadEnv } from './config/env.js';
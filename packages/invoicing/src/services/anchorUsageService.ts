@@ -0,0 +1,50 @@
+import { buildMerkleRoot, hashUsageLeaf } from '@edgecharge/shared';
+import { loadEnv } from '../config/env.js';
+import { AnchorRatesResponseSchema, RateUsage, UsageAnchorEvent } from '../domain/usageAnchor.js';
+
+export interface IAnchorUsageService {
+  getRateUsage(anchor: UsageAnchorEvent): Promise<RateUsage[]>;
+}
+
+export class RelayerAnchorUsageService implements IAnchorUsageService {
+  private env: ReturnType<typeof loadEnv>;
+
+  constructor() {
+    this.env = loadEnv();
+  }
+
+  /**
+   * Units per rateId behind an anchor, from the relayer that built it. The
+   * relayer's leaves are only used once they rebuild the anchor's on-chain
+   * merkleRoot and add up to its totalUsage, so a relayer cannot move usage
+   * to a different rate.
+   */
+  async getRateUsage(anchor: UsageAnchorEvent): Promise<RateUsage[]> {
+    const url = new URL(`/anchors/${anchor.anchorId}/rates`, this.env.RELAYER_URL);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Relayer returned ${response.status} for the rates of anchor ${anchor.anchorId}`);
+    }
+    const breakdown = AnchorRatesResponseSchema.parse(await response.json());
+
+    const root = buildMerkleRoot(breakdown.leaves.map(leaf => hashUsageLeaf(leaf, breakdown.treeVersion)), breakdown.treeVersion);
+    if (root.toLowerCase() !== anchor.merkleRoot.toLowerCase()) {
+      throw new Error(`Leaves from the relayer do not rebuild the merkle root of anchor ${anchor.anchorId}`);
+    }
+
+    // Summed from the verified leaves rather than taken from the relayer's totals
+    const units = new Map<string, number>();
+    for (const leaf of breakdown.leaves) {
+      if (leaf.provider.toLowerCase() !== anchor.provider.toLowerCase()) {
+        throw new Error(`Anchor ${anchor.anchorId} contains usage of another provider`);
+      }
+      units.set(leaf.rateId, (units.get(leaf.rateId) ?? 0) + leaf.unitsConsumed);
+    }
+    const rates = Array.from(units, ([rateId, unitsConsumed]) => ({ rateId, unitsConsumed }));
+    const total = rates.reduce((sum, rate) => sum + rate.unitsConsumed, 0);
+    if (total !== anchor.totalUsage) {
+      throw new Error(`Leaves of anchor ${anchor.anchorId} add up to ${total} units, the anchor records ${anchor.totalUsage}`);
+    }
+    return rates.sort((a, b) => a.rateId.localeCompare(b.rateId));
+  }
+}
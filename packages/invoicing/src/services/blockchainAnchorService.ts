@@ -1,8 +1,8 @@
 import { createConfig, http, writeContract } from '@wagmi/core';
 import { privateKeyToAccount } from 'viem/accounts';
-import { createPublicClient } from 'viem';
+import { createPublicClient, parseUnits } from 'viem';
 import { defineChain } from 'viem';
-import { loadEnv } from '../config/env.js';
+import { loadEnv, resolveBillingToken } from '../config/env.js';
 import { getEdgeChargeAdapter } from '../contracts/edgeCharge.js';
 import { Invoice } from '../domain/invoice.js';
 
@@ -20,6 +20,7 @@ const u2uNebulasTestnet = defineChain({
 export interface IBlockchainAnchorService {
   anchorInvoice(invoice: Invoice, invoiceHash: string): Promise<{ success: boolean; transactionHash?: string; error?: string }>;
   markInvoicePaid(invoiceId: string): Promise<{ success: boolean; transactionHash?: string; error?: string }>;
+  getAnchorInvoice(anchorId: string): Promise<bigint>;
   getInvoiceFromBlockchain(invoiceId: string): Promise<any>;
   isInvoiceAnchored(invoiceId: string): Promise<boolean>;
   checkConfiguration(): Promise<{ isValid: boolean; errors: string[] }>;
@@ -64,18 +65,28 @@ export class BlockchainAnchorService implements IBlockchainAnchorService {
     try {
       console.log(`🔗 Anchoring invoice ${invoice.invoiceId} with hash ${invoiceHash}`);
 
-      // Convert invoice ID to number (assuming it's numeric)
-      const invoiceId = parseInt(invoice.invoiceId, 10);
-      if (isNaN(invoiceId)) {
-        throw new Error(`Invalid invoice ID: ${invoice.invoiceId}`);
+      // The contract records which anchors the invoice bills and refuses any that are billed already
+      const anchorIds = [...new Set(invoice.lineItems.flatMap(item => (item.usageData.anchorId ? [item.usageData.anchorId] : [])))];
+      if (anchorIds.length === 0) {
+        throw new Error(`Invoice ${invoice.invoiceId} bills no usage anchors`);
       }
+      // The contract holds balances per token; the invoice's currency names the one it is paid in
+      const token = resolveBillingToken(this.env, invoice.currency);
+      const amount = parseUnits(invoice.amount.toFixed(token.decimals), token.decimals);
 
-      // Call the anchorInvoice function on the contract
+      // Call the createInvoice function on the contract
       const hash = await writeContract(this.config, {
         abi: this.adapter.abi,
         address: this.adapter.address,
-        functionName: 'anchorInvoice',
-        args: [BigInt(invoiceId), invoiceHash as `0x${string}`],
+        functionName: 'createInvoice',
+        args: [
+          invoice.enterprise as `0x${string}`,
+          invoice.provider as `0x${string}`,
+          token.address,
+          amount,
+          invoiceHash as `0x${string}`,
+          anchorIds as `0x${string}`[],
+        ],
         chainId: u2uNebulasTestnet.id,
         account: this.account,
       });
@@ -160,6 +171,21 @@ export class BlockchainAnchorService implements IBlockchainAnchorService {
     }
   }
 
+  /** The on-chain invoice billing an anchor, or 0n while it is not billed */
+  async getAnchorInvoice(anchorId: string): Promise<bigint> {
+    const invoiceId = await this.publicClient.readContract({
+      abi: this.adapter.abi,
+      address: this.adapter.address,
+      functionName: 'getAnchorInvoice',
+      args: [anchorId as `0x${string}`],
+    });
+    // The ABI is read at runtime, so the result is only typed once checked
+    if (typeof invoiceId !== 'bigint') {
+      throw new Error(`Unexpected getAnchorInvoice result for anchor ${anchorId}: ${String(invoiceId)}`);
+    }
+    return invoiceId;
+  }
+
   async getInvoiceFromBlockchain(invoiceId: string): Promise<any> {
     try {
       console.log(`🔍 Fetching invoice ${invoiceId} from blockchain`);
@@ -233,6 +259,28 @@ export class BlockchainAnchorService implements IBlockchainAnchorService {
       errors.push(`Cannot access contract: ${error}`);
     }
 
+    // Check that the default currency has a billing token and that every configured token is allowed on chain
+    try {
+      resolveBillingToken(this.env, this.env.DEFAULT_CURRENCY);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    for (const [currency, token] of Object.entries(this.env.BILLING_TOKENS)) {
+      try {
+        const allowed = await this.publicClient.readContract({
+          abi: this.adapter.abi,
+          address: this.adapter.address,
+          functionName: 'billingTokens',
+          args: [token.address],
+        });
+        if (!allowed) {
+          errors.push(`Billing token ${token.address} for ${currency} is not allowed by the contract`);
+        }
+      } catch (error) {
+        errors.push(`Cannot check billing token for ${currency}: ${error}`);
+      }
+    }
+
     // Check if account has sufficient balance (optional)
     try {
       const balance = await this.publicClient.getBalance({
@@ -261,17 +309,35 @@ export class BlockchainAnchorService implements IBlockchainAnchorService {
         throw new Error(`Invalid invoice ID: ${invoiceId}`);
       }
 
-      // Get InvoiceAnchored events
+      // Get InvoiceCreated events
       const anchoredEvents = await this.publicClient.getLogs({
         address: this.adapter.address,
         event: {
           type: 'event',
-          name: 'InvoiceAnchored',
+          name: 'InvoiceCreated',
           inputs: [
             { name: 'invoiceId', type: 'uint256', indexed: true },
             { name: 'enterprise', type: 'address', indexed: true },
             { name: 'provider', type: 'address', indexed: true },
+            { name: 'token', type: 'address' },
             { name: 'amount', type: 'uint256' },
+            { name: 'invoiceHash', type: 'bytes32' },
+          ],
+        },
+        args: {
+          invoiceId: BigInt(id),
+        },
+      });
+
+      // Get AnchorBilled events, one per usage anchor the invoice bills
+      const billedEvents = await this.publicClient.getLogs({
+        address: this.adapter.address,
+        event: {
+          type: 'event',
+          name: 'AnchorBilled',
+          inputs: [
+            { name: 'anchorId', type: 'bytes32', indexed: true },
+            { name: 'invoiceId', type: 'uint256', indexed: true },
           ],
         },
         args: {
@@ -294,7 +360,7 @@ export class BlockchainAnchorService implements IBlockchainAnchorService {
         },
       });
 
-      return [...anchoredEvents, ...paidEvents];
+      return [...anchoredEvents, ...billedEvents, ...paidEvents];
     } catch (error) {
       console.error(`❌ Error fetching events for invoice ${invoiceId}:`, error);
       throw error;
@@ -99,7 +99,7 @@ export class BlockchainEventService implements IBlockchainEventService {
     try {
       const events = await this.publicClient.getLogs({
         address: this.adapter.address,
-        event: parseAbiItem('event UsageAnchored(bytes32 indexed anchorId, address indexed provider, uint256 windowStart, uint256 windowEnd, uint256 totalUsage)'),
+        event: parseAbiItem('event UsageAnchored(bytes32 indexed anchorId, address indexed provider, uint256 windowStart, uint256 windowEnd, bytes32 merkleRoot, uint256 totalUsage)'),
         fromBlock,
         toBlock,
       });
@@ -113,6 +113,7 @@ export class BlockchainEventService implements IBlockchainEventService {
             provider: event.args.provider as string,
             windowStart: Number(event.args.windowStart),
             windowEnd: Number(event.args.windowEnd),
+            merkleRoot: event.args.merkleRoot as string,
             totalUsage: Number(event.args.totalUsage),
             blockNumber: Number(event.blockNumber),
             transactionHash: event.transactionHash,
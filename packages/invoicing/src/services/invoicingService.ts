@@ -7,6 +7,7 @@ import { IInvoiceGenerator } from './pdfInvoiceGenerator.js';
 import { ICSVInvoiceGenerator } from './csvInvoiceGenerator.js';
 import { IInvoiceHashService } from './invoiceHashService.js';
 import { IBlockchainAnchorService } from './blockchainAnchorService.js';
+import { IAnchorUsageService } from './anchorUsageService.js';
 import { loadEnv } from '../config/env.js';
 
 export interface IInvoicingService {
@@ -33,6 +34,7 @@ export class InvoicingService implements IInvoicingService {
     private csvGenerator: ICSVInvoiceGenerator,
     private hashService: IInvoiceHashService,
     private anchorService: IBlockchainAnchorService,
+    private anchorUsageService: IAnchorUsageService,
   ) {
     this.env = loadEnv();
   }
@@ -182,8 +184,24 @@ export class InvoicingService implements IInvoicingService {
     }
   }
 
-  private async generateInvoiceForProviderAnchors(provider: string, anchors: UsageAnchorEvent[]): Promise<Invoice | null> {
+  private async generateInvoiceForProviderAnchors(provider: string, candidates: UsageAnchorEvent[]): Promise<Invoice | null> {
     try {
+      // An anchor is billed at most once; skip those an on-chain invoice already covers
+      const anchors: UsageAnchorEvent[] = [];
+      for (const anchor of candidates) {
+        const billedBy = await this.anchorService.getAnchorInvoice(anchor.anchorId);
+        if (billedBy > 0n) {
+          console.log(`⏭️  Anchor ${anchor.anchorId} is already billed by on-chain invoice ${billedBy}`);
+          this.pendingAnchors.delete(anchor.anchorId);
+          continue;
+        }
+        anchors.push(anchor);
+      }
+      if (anchors.length === 0) {
+        console.log('⚠️  Every anchor is already billed');
+        return null;
+      }
+
       // Generate unique invoice ID
       const invoiceId = uuidv4();
       const now = Math.floor(Date.now() / 1000);
@@ -199,29 +217,30 @@ export class InvoicingService implements IInvoicingService {
       const lineItems = [];
       let totalAmount = 0;
 
+      // One line item per rate within each anchor; the breakdown is checked against the anchor's merkle root
       for (const anchor of anchors) {
-        // For demo purposes, we'll use a default rate ID
-        // In production, you'd determine the rate ID based on the anchor data
-        const rateId = 'rate-gpu-bandwidth-1';
-        
-        const cost = await this.rateCardService.calculateCost(rateId, provider, anchor.totalUsage);
-        
-        const lineItem = {
-          description: `Edge computing usage - ${new Date(anchor.windowStart * 1000).toLocaleDateString()}`,
-          quantity: anchor.totalUsage,
-          unitPrice: cost / anchor.totalUsage,
-          total: cost,
-          rateId: rateId,
-          usageData: {
-            anchorId: anchor.anchorId,
-            windowStart: anchor.windowStart,
-            windowEnd: anchor.windowEnd,
-            unitsConsumed: anchor.totalUsage,
-          },
-        };
-
-        lineItems.push(lineItem);
-        totalAmount += cost;
+        const rateUsage = await this.anchorUsageService.getRateUsage(anchor);
+
+        for (const { rateId, unitsConsumed } of rateUsage) {
+          const cost = await this.rateCardService.calculateCost(rateId, provider, unitsConsumed);
+
+          const lineItem = {
+            description: `Edge computing usage (${rateId}) - ${new Date(anchor.windowStart * 1000).toLocaleDateString()}`,
+            quantity: unitsConsumed,
+            unitPrice: unitsConsumed > 0 ? cost / unitsConsumed : 0,
+            total: cost,
+            rateId: rateId,
+            usageData: {
+              anchorId: anchor.anchorId,
+              windowStart: anchor.windowStart,
+              windowEnd: anchor.windowEnd,
+              unitsConsumed: unitsConsumed,
+            },
+          };
+
+          lineItems.push(lineItem);
+          totalAmount += cost;
+        }
       }
 
       // Create invoice
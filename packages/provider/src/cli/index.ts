@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { loadProviderConfig } from '../config/env.js';
 import { UsageSimulator } from '../services/usageSimulator.js';
 import { SignatureService } from '../services/signatureService.js';
-import { RelayerClient } from '../services/relayerClient.js';
+import { RelayerClient, relayerAuthFromConfig } from '../services/relayerClient.js';
 import { NonceGenerator } from '../services/nonceGenerator.js';
 import { ProviderService } from '../services/providerService.js';
 
@@ -24,7 +24,7 @@ program
       // Initialize services
       const usageSimulator = new UsageSimulator(config.simulationConfig);
       const signatureService = new SignatureService(config.providerPrivateKey as `0x${string}`);
-      const relayerClient = new RelayerClient(config.relayerUrl);
+      const relayerClient = new RelayerClient(config.relayerUrl, relayerAuthFromConfig(config));
       const nonceGenerator = new NonceGenerator();
       const providerService = new ProviderService(
         config,
@@ -78,7 +78,7 @@ program
       // Initialize services
       const usageSimulator = new UsageSimulator(config.simulationConfig);
       const signatureService = new SignatureService(config.providerPrivateKey as `0x${string}`);
-      const relayerClient = new RelayerClient(config.relayerUrl);
+      const relayerClient = new RelayerClient(config.relayerUrl, relayerAuthFromConfig(config));
       const nonceGenerator = new NonceGenerator();
       const providerService = new ProviderService(
         config,
@@ -148,7 +148,7 @@ program
   .action(async () => {
     try {
       const config = loadProviderConfig();
-      const relayerClient = new RelayerClient(config.relayerUrl);
+      const relayerClient = new RelayerClient(config.relayerUrl, relayerAuthFromConfig(config));
       
       console.log(`🔍 Checking relayer health at ${config.relayerUrl}...`);
       const health = await relayerClient.checkHealth();
@@ -10,7 +10,7 @@
  *   pnpm -w --filter provider dev verify proof <leaf.json> <proof.json> <root>
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { readFileSync, writeFileSync } from 'node:fs';
 import { 
   verifyUsageRecordSignature, 
@@ -23,6 +23,15 @@ import { UsageRecord } from '../domain/usageRecord.js';
 
 const program = new Command();
 
+const treeVersionOption = ['-t, --tree-version <version>', 'Merkle tree version of the anchor (1 or 2)', parseTreeVersion, 2] as const;
+
+function parseTreeVersion(value: string): 1 | 2 {
+  if (value !== '1' && value !== '2') {
+    throw new InvalidArgumentError('Tree version must be 1 or 2');
+  }
+  return Number(value) as 1 | 2;
+}
+
 program
   .name('edgecharge-verify')
   .description('Verify provider signatures and Merkle roots')
@@ -87,6 +96,7 @@ program
   .command('merkle')
   .description('Verify multiple usage records and build Merkle tree')
   .argument('<file>', 'JSON file containing array of usage records')
+  .option(...treeVersionOption)
   .option('-o, --output <file>', 'Output file for verification result')
   .action(async (file, options) => {
     try {
@@ -103,11 +113,12 @@ program
       console.log(`📊 Processing ${records.length} usage records...`);
       
       // Verify all records and build Merkle tree
-      const result = await verifyUsageRecordsAndBuildMerkle(records);
+      const result = await verifyUsageRecordsAndBuildMerkle(records, options.treeVersion);
       
       if (result.isValid) {
         console.log('✅ All signatures are valid');
         console.log(`   Merkle Root: ${result.merkleRoot}`);
+        console.log(`   Tree Version: ${result.treeVersion}`);
         console.log(`   Total Usage: ${result.totalUsage.toString()}`);
         console.log(`   Leaf Count: ${result.leafCount}`);
         
@@ -139,6 +150,7 @@ program
         const output = {
           isValid: result.isValid,
           merkleRoot: result.merkleRoot,
+          treeVersion: result.treeVersion,
           totalUsage: result.totalUsage.toString(),
           leafCount: result.leafCount,
           verifiedAt: new Date().toISOString(),
@@ -161,6 +173,7 @@ program
   .argument('<records-file>', 'JSON file containing array of usage records')
   .argument('<leaf-index>', 'Index of the leaf to generate proof for')
   .option('-v, --verify <root>', 'Verify proof against given Merkle root')
+  .option(...treeVersionOption)
   .option('-o, --output <file>', 'Output file for proof')
   .action(async (recordsFile, leafIndex, options) => {
     try {
@@ -181,7 +194,7 @@ program
       }
       
       // Generate proof
-      const proofResult = generateMerkleProof(records, index);
+      const proofResult = generateMerkleProof(records, index, options.treeVersion);
       
       if (!proofResult) {
         console.error('❌ Failed to generate Merkle proof');
@@ -213,6 +226,7 @@ program
           leafIndex: index,
           leafHash: proofResult.leafHash,
           proof: proofResult.proof,
+          treeVersion: options.treeVersion,
           verifiedAt: new Date().toISOString(),
           record: records[index],
         };
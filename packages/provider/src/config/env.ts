@@ -6,6 +6,7 @@ const EnvSchema = z.object({
   PROVIDER_PRIVATE_KEY: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
   NODE_ID: z.string().min(1).default('node-001'),
   RELAYER_URL: z.string().url().default('http://localhost:8787'),
+  RELAYER_API_KEY: z.string().min(1).optional(),
   SUBMISSION_INTERVAL_MS: z.coerce.number().int().positive().default(30000),
   // Simulation config
   GPU_USAGE_MIN: z.coerce.number().min(0).max(100).default(20),
@@ -36,6 +37,7 @@ export function loadProviderConfig(): z.infer<typeof ProviderConfigSchema> {
     providerPrivateKey: env.PROVIDER_PRIVATE_KEY,
     nodeId: env.NODE_ID,
     relayerUrl: env.RELAYER_URL,
+    relayerApiKey: env.RELAYER_API_KEY,
     submissionIntervalMs: env.SUBMISSION_INTERVAL_MS,
     simulationConfig: {
       gpuUsage: {
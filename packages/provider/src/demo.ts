@@ -13,7 +13,7 @@
 import { loadProviderConfig } from './config/env.js';
 import { UsageSimulator } from './services/usageSimulator.js';
 import { SignatureService } from './services/signatureService.js';
-import { RelayerClient } from './services/relayerClient.js';
+import { RelayerClient, relayerAuthFromConfig } from './services/relayerClient.js';
 import { NonceGenerator } from './services/nonceGenerator.js';
 import { ProviderService } from './services/providerService.js';
 
@@ -32,7 +32,7 @@ async function runDemo() {
     console.log('🔧 Initializing services...');
     const usageSimulator = new UsageSimulator(config.simulationConfig);
     const signatureService = new SignatureService(config.providerPrivateKey as `0x${string}`);
-    const relayerClient = new RelayerClient(config.relayerUrl);
+    const relayerClient = new RelayerClient(config.relayerUrl, relayerAuthFromConfig(config));
     const nonceGenerator = new NonceGenerator();
     const providerService = new ProviderService(
       config,
@@ -4,6 +4,7 @@ export const ProviderConfigSchema = z.object({
   providerPrivateKey: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
   nodeId: z.string().min(1),
   relayerUrl: z.string().url().default('http://localhost:8787'),
+  relayerApiKey: z.string().min(1).optional(), // Requests are signed with the provider key when unset
   submissionIntervalMs: z.coerce.number().int().positive().default(30000), // 30 seconds
   simulationConfig: z.object({
     gpuUsage: z.object({
@@ -1,24 +1,67 @@
+import { privateKeyToAccount } from 'viem/accounts';
+import { REQUEST_SIGNATURE_HEADERS, createRequestSigningMessage } from '@edgecharge/shared';
 import { UsageRecord } from '../domain/usageRecord.js';
+import { ProviderConfig } from '../domain/providerConfig.js';
+
+/** The relayer's verdict on one record of a bulk submission; `index` is its position in the input */
+export type UsageRecordResult =
+  | { index: number; status: 'queued' | 'duplicate'; nonce: string }
+  | { index: number; status: 'rejected'; nonce?: string; code: string; message: string; details?: Record<string, unknown> };
+
+export interface BulkSubmissionResult {
+  results: UsageRecordResult[];
+  summary: { received: number; accepted: number; rejected: number };
+}
 
 export interface IRelayerClient {
   submitUsageRecord(record: UsageRecord): Promise<{ status: string }>;
+  submitUsageRecords(records: UsageRecord[]): Promise<BulkSubmissionResult>;
   checkHealth(): Promise<{ ok: boolean }>;
 }
 
+/** Records per `POST /leaves/batch` request; the relayer refuses more than 1000 by default */
+const BULK_CHUNK_SIZE = 500;
+
+/** Anything that can sign an EIP-191 message, such as a viem local account */
+export interface RequestSigner {
+  address: `0x${string}`;
+  signMessage(args: { message: string }): Promise<`0x${string}`>;
+}
+
+/**
+ * How requests to the relayer are authenticated: a bearer API key issued by
+ * the relayer admin, or a signature from one of the provider's allowed signers.
+ */
+export type RelayerAuth =
+  | { apiKey: string }
+  | { provider: `0x${string}`; signer: RequestSigner };
+
+/**
+ * Use the configured API key if there is one, otherwise sign requests with
+ * the provider key itself (registered as a signer by default).
+ */
+export function relayerAuthFromConfig(config: ProviderConfig): RelayerAuth {
+  if (config.relayerApiKey) return { apiKey: config.relayerApiKey };
+  const account = privateKeyToAccount(config.providerPrivateKey as `0x${string}`);
+  return { provider: account.address, signer: account };
+}
+
 export class RelayerClient implements IRelayerClient {
   private baseUrl: string;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, private auth?: RelayerAuth) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
   }
 
   async submitUsageRecord(record: UsageRecord): Promise<{ status: string }> {
+    const body = JSON.stringify(record);
     const response = await fetch(`${this.baseUrl}/leaves`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(await this.authHeaders('POST', '/leaves', body)),
       },
-      body: JSON.stringify(record),
+      body,
     });
 
     if (!response.ok) {
@@ -29,6 +72,36 @@ export class RelayerClient implements IRelayerClient {
     return response.json();
   }
 
+  /**
+   * Submit many records through `POST /leaves/batch`, in chunks the relayer
+   * accepts. Individual rejections are reported in the results, not thrown.
+   */
+  async submitUsageRecords(records: UsageRecord[]): Promise<BulkSubmissionResult> {
+    const results: UsageRecordResult[] = [];
+    for (let offset = 0; offset < records.length; offset += BULK_CHUNK_SIZE) {
+      const body = JSON.stringify(records.slice(offset, offset + BULK_CHUNK_SIZE));
+      const response = await fetch(`${this.baseUrl}/leaves/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await this.authHeaders('POST', '/leaves/batch', body)),
+        },
+        body,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to submit usage records: ${response.status} ${errorText}`);
+      }
+
+      const chunk = await response.json() as BulkSubmissionResult;
+      results.push(...chunk.results.map(result => ({ ...result, index: result.index + offset })));
+    }
+
+    const rejected = results.filter(r => r.status === 'rejected').length;
+    return { results, summary: { received: results.length, accepted: results.length - rejected, rejected } };
+  }
+
   async checkHealth(): Promise<{ ok: boolean }> {
     const response = await fetch(`${this.baseUrl}/health`);
     
@@ -38,4 +111,19 @@ export class RelayerClient implements IRelayerClient {
 
     return response.json();
   }
+
+  private async authHeaders(method: string, path: string, body: string): Promise<Record<string, string>> {
+    if (!this.auth) return {};
+    if ('apiKey' in this.auth) return { Authorization: `Bearer ${this.auth.apiKey}` };
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await this.auth.signer.signMessage({
+      message: createRequestSigningMessage({ method, path, timestamp, body }),
+    });
+    return {
+      [REQUEST_SIGNATURE_HEADERS.provider]: this.auth.provider,
+      [REQUEST_SIGNATURE_HEADERS.timestamp]: String(timestamp),
+      [REQUEST_SIGNATURE_HEADERS.signature]: signature,
+    };
+  }
 }
@@ -1,9 +1,11 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { UsageSimulator } from '../services/usageSimulator.js';
 import { NonceGenerator } from '../services/nonceGenerator.js';
 import { SignatureService } from '../services/signatureService.js';
-import { RelayerClient } from '../services/relayerClient.js';
+import { RelayerClient, relayerAuthFromConfig } from '../services/relayerClient.js';
 import { ProviderService } from '../services/providerService.js';
 import { ProviderConfig } from '../domain/providerConfig.js';
 
@@ -107,6 +109,52 @@ describe('Provider Services', () => {
       const client = new RelayerClient('http://localhost:8787/');
       assert.ok(client);
     });
+
+    it('should submit records in chunks and report results by input position', async () => {
+      const requests: { authorization?: string; count: number }[] = [];
+      const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          const records = JSON.parse(body) as { nonce: string }[];
+          requests.push({ authorization: req.headers.authorization, count: records.length });
+          const results = records.map((r, index) => ({ index, status: 'queued', nonce: r.nonce }));
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ results, summary: { received: records.length, accepted: records.length, rejected: 0 } }));
+        });
+      }).listen(0);
+      await new Promise(resolve => server.once('listening', resolve));
+
+      try {
+        const client = new RelayerClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, { apiKey: 'ec_test' });
+        const records = Array.from({ length: 501 }, (_, i) => ({
+          provider: '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb',
+          nodeId: 'test-node-001',
+          windowStart: 0,
+          windowEnd: 60,
+          unitsConsumed: 1,
+          rateId: 'rate-test-1',
+          nonce: `0x${i.toString(16)}`,
+          providerSig: '0x00',
+        }));
+        const { results, summary } = await client.submitUsageRecords(records);
+
+        assert.deepEqual(requests, [{ authorization: 'Bearer ec_test', count: 500 }, { authorization: 'Bearer ec_test', count: 1 }]);
+        assert.equal(results[500].index, 500);
+        assert.equal(results[500].nonce, '0x1f4');
+        assert.deepEqual(summary, { received: 501, accepted: 501, rejected: 0 });
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should prefer a configured API key over request signing', () => {
+      assert.deepEqual(relayerAuthFromConfig({ ...mockConfig, relayerApiKey: 'ec_test' }), { apiKey: 'ec_test' });
+
+      const signed = relayerAuthFromConfig(mockConfig);
+      assert.ok('signer' in signed);
+      assert.equal(signed.provider, new SignatureService(mockConfig.providerPrivateKey as `0x${string}`).getProviderAddress());
+    });
   });
 
   describe('ProviderService', () => {
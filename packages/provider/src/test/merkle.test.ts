@@ -1,45 +1,17 @@
 import { describe, it, beforeEach } from 'node:test';
 import assert from 'node:assert/strict';
-import { keccak256, toBytes } from 'viem';
+import { buildMerkleTree, getMerkleProof, hashUsageLeaf, MERKLE_TREE_VERSIONS, verifyMerkleProof } from '@edgecharge/shared';
 import { UsageRecord } from '../domain/usageRecord.js';
 import { SignatureService } from '../services/signatureService.js';
 import { NonceGenerator } from '../services/nonceGenerator.js';
-import { createCanonicalJson } from '../utils/canonicalJson.js';
+import { generateMerkleProof as generateRecordProof, verifyUsageRecordsAndBuildMerkle } from '../utils/verification.js';
 
-// Import the relayer's Merkle utilities (we'll need to access them)
-// For testing, we'll recreate the same logic here
-function hashLeafCanonicalJson(jsonString: string): `0x${string}` {
-  return keccak256(toBytes(jsonString));
-}
-
-function hashPairCommutative(a: `0x${string}`, b: `0x${string}`): `0x${string}` {
-  return a.toLowerCase() < b.toLowerCase()
-    ? keccak256(concatBytes(a, b))
-    : keccak256(concatBytes(b, a));
-}
-
-function concatBytes(a: `0x${string}`, b: `0x${string}`) {
-  const ab = new Uint8Array(64);
-  ab.set(toBytes(a));
-  ab.set(toBytes(b), 32);
-  return ab;
+function buildMerkleRoot(leaves: `0x${string}`[]): `0x${string}` {
+  return buildMerkleTree(leaves).root;
 }
 
-function buildMerkleRoot(leaves: `0x${string}`[]): `0x${string}` {
-  if (leaves.length === 0) return ('0x' + '00'.repeat(32)) as `0x${string}`;
-  let layer = [...leaves];
-  layer.sort();
-  while (layer.length > 1) {
-    const next: `0x${string}`[] = [];
-    for (let i = 0; i < layer.length; i += 2) {
-      const left = layer[i];
-      const right = layer[i + 1] ?? layer[i];
-      next.push(hashPairCommutative(left, right));
-    }
-    next.sort();
-    layer = next;
-  }
-  return layer[0] as `0x${string}`;
+function generateMerkleProof(leaves: `0x${string}`[], leafIndex: number): `0x${string}`[] {
+  return getMerkleProof(buildMerkleTree(leaves), leaves[leafIndex]) ?? [];
 }
 
 describe('Merkle Root Verification', () => {
@@ -75,9 +47,8 @@ describe('Merkle Root Verification', () => {
         }),
       };
 
-      // Create the canonical object that gets hashed (without signature)
-      const canonicalObject = createCanonicalJson(usageRecord);
-      const leafHash = hashLeafCanonicalJson(canonicalObject);
+      // The leaf hash covers the record without its signature
+      const leafHash = hashUsageLeaf(usageRecord);
       const merkleRoot = buildMerkleRoot([leafHash]);
 
       // For single leaf, the root should equal the leaf hash
@@ -112,11 +83,8 @@ describe('Merkle Root Verification', () => {
         });
       }
 
-      // Create leaf hashes (canonical objects without signatures)
-      const leafHashes = records.map(record => {
-        const canonicalJson = createCanonicalJson(record);
-        return hashLeafCanonicalJson(canonicalJson);
-      });
+      // Create leaf hashes (records without signatures)
+      const leafHashes = records.map(record => hashUsageLeaf(record));
 
       const merkleRoot = buildMerkleRoot(leafHashes);
 
@@ -154,10 +122,7 @@ describe('Merkle Root Verification', () => {
       }
 
       // Create leaf hashes
-      const leafHashes = records.map(record => {
-        const canonicalJson = createCanonicalJson(record);
-        return hashLeafCanonicalJson(canonicalJson);
-      });
+      const leafHashes = records.map(record => hashUsageLeaf(record));
 
       // Build Merkle root with original order
       const merkleRoot1 = buildMerkleRoot(leafHashes);
@@ -217,6 +182,38 @@ describe('Merkle Root Verification', () => {
     });
   });
 
+  describe('Record Proofs per Tree Version', () => {
+    for (const treeVersion of MERKLE_TREE_VERSIONS) {
+      it(`should prove every record against the root it builds with tree version ${treeVersion}`, async () => {
+        const records: UsageRecord[] = [];
+        for (let i = 0; i < 5; i++) {
+          const unsignedRecord = {
+            provider: providerAddress,
+            nodeId: `test-node-${i.toString().padStart(3, '0')}`,
+            windowStart: 1690000000 + (i * 60),
+            windowEnd: 1690000060 + (i * 60),
+            unitsConsumed: 1000 + (i * 100),
+            rateId: 'rate-test-1',
+            nonce: nonceGenerator.generateNonce(),
+          };
+          records.push({ ...unsignedRecord, providerSig: await signatureService.signUsageRecord(unsignedRecord) });
+        }
+
+        const result = await verifyUsageRecordsAndBuildMerkle(records, treeVersion);
+        assert.ok(result.isValid, result.error);
+        assert.equal(result.treeVersion, treeVersion);
+        assert.equal(result.merkleRoot, buildMerkleTree(records.map(r => hashUsageLeaf(r, treeVersion)), treeVersion).root);
+
+        for (let i = 0; i < records.length; i++) {
+          const proof = generateRecordProof(records, i, treeVersion);
+          assert.ok(proof);
+          assert.equal(proof.leafHash, hashUsageLeaf(records[i], treeVersion));
+          assert.ok(verifyMerkleProof(proof.leafHash as `0x${string}`, proof.proof as `0x${string}`[], result.merkleRoot as `0x${string}`));
+        }
+      });
+    }
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty Merkle tree', () => {
       const merkleRoot = buildMerkleRoot([]);
@@ -251,48 +248,3 @@ describe('Merkle Root Verification', () => {
     });
   });
 });
-
-// Helper functions for Merkle proof generation and verification
-function generateMerkleProof(leaves: `0x${string}`[], leafIndex: number): `0x${string}`[] {
-  if (leaves.length === 0 || leafIndex >= leaves.length) {
-    return [];
-  }
-
-  const proof: `0x${string}`[] = [];
-  let layer = [...leaves];
-  let currentIndex = leafIndex;
-
-  while (layer.length > 1) {
-    const nextLayer: `0x${string}`[] = [];
-    
-    for (let i = 0; i < layer.length; i += 2) {
-      const left = layer[i];
-      const right = layer[i + 1] ?? layer[i];
-      
-      if (i === currentIndex) {
-        // This is our target leaf, add its sibling to proof
-        proof.push(right);
-      } else if (i + 1 === currentIndex) {
-        // This is our target leaf's sibling, add left to proof
-        proof.push(left);
-      }
-      
-      nextLayer.push(hashPairCommutative(left, right));
-    }
-    
-    layer = nextLayer;
-    currentIndex = Math.floor(currentIndex / 2);
-  }
-
-  return proof;
-}
-
-function verifyMerkleProof(leaf: `0x${string}`, proof: `0x${string}`[], root: `0x${string}`): boolean {
-  let computedHash = leaf;
-  
-  for (const proofElement of proof) {
-    computedHash = hashPairCommutative(computedHash, proofElement);
-  }
-  
-  return computedHash === root;
-}
@@ -1,6 +1,13 @@
-import { verifyMessage, keccak256, toBytes } from 'viem';
+import {
+  buildMerkleTree,
+  getMerkleProof,
+  hashUsageLeaf,
+  LATEST_TREE_VERSION,
+  verifyMerkleProof as verifySharedMerkleProof,
+  verifyUsageRecordSignature as verifySignedUsageRecord,
+  type MerkleTreeVersion,
+} from '@edgecharge/shared';
 import { UsageRecord } from '../domain/usageRecord.js';
-import { createCanonicalJson } from './canonicalJson.js';
 
 /**
  * Utility functions for verifying provider signatures and Merkle roots
@@ -16,46 +23,35 @@ export interface VerificationResult {
 export interface MerkleVerificationResult {
   isValid: boolean;
   merkleRoot: string;
+  /** Tree format the root was built with; must match the relayer's anchor */
+  treeVersion: MerkleTreeVersion;
   totalUsage: bigint;
   leafCount: number;
   error?: string;
 }
 
 /**
- * Verify a single usage record signature
+ * Verify a single usage record signature.
+ * Delegates to the shared verifier the relayer uses on ingestion.
  */
 export async function verifyUsageRecordSignature(record: UsageRecord): Promise<VerificationResult> {
-  try {
-    // Create the canonical message string that was signed
-    const messageString = createCanonicalJson(record);
-
-    // Verify the signature
-    const isValid = await verifyMessage({
-      address: record.provider as `0x${string}`,
-      message: { raw: messageString as `0x${string}` },
-      signature: record.providerSig as `0x${string}`,
-    });
-
-    return { isValid };
-  } catch (error) {
-    return {
-      isValid: false,
-      error: error instanceof Error ? error.message : 'Unknown verification error',
-    };
-  }
+  return verifySignedUsageRecord(record);
 }
 
 /**
- * Verify multiple usage records and build Merkle tree
+ * Verify multiple usage records and build Merkle tree.
+ * Uses the same versioned tree as the relayer, so the root matches the anchored one.
  */
 export async function verifyUsageRecordsAndBuildMerkle(
-  records: UsageRecord[]
+  records: UsageRecord[],
+  treeVersion: MerkleTreeVersion = LATEST_TREE_VERSION
 ): Promise<MerkleVerificationResult> {
   try {
     if (records.length === 0) {
       return {
         isValid: false,
         merkleRoot: '0x' + '00'.repeat(32),
+        treeVersion,
         totalUsage: 0n,
         leafCount: 0,
         error: 'No records provided',
@@ -72,6 +68,7 @@ export async function verifyUsageRecordsAndBuildMerkle(
       return {
         isValid: false,
         merkleRoot: '0x' + '00'.repeat(32),
+        treeVersion,
         totalUsage: 0n,
         leafCount: records.length,
         error: `Invalid signatures found: ${invalidSignatures.length}/${records.length}`,
@@ -79,17 +76,15 @@ export async function verifyUsageRecordsAndBuildMerkle(
     }
 
     // Build Merkle tree
-    const leafHashes = records.map(record => {
-      const json = createCanonicalJson(record);
-      return keccak256(toBytes(json));
-    });
+    const leafHashes = records.map(record => hashUsageLeaf(record, treeVersion));
 
-    const merkleRoot = buildMerkleRoot(leafHashes);
+    const merkleRoot = buildMerkleTree(leafHashes, treeVersion).root;
     const totalUsage = records.reduce((sum, record) => sum + BigInt(record.unitsConsumed), 0n);
 
     return {
       isValid: true,
       merkleRoot,
+      treeVersion,
       totalUsage,
       leafCount: records.length,
     };
@@ -97,6 +92,7 @@ export async function verifyUsageRecordsAndBuildMerkle(
     return {
       isValid: false,
       merkleRoot: '0x' + '00'.repeat(32),
+      treeVersion,
       totalUsage: 0n,
       leafCount: records.length,
       error: error instanceof Error ? error.message : 'Unknown verification error',
@@ -109,22 +105,20 @@ export async function verifyUsageRecordsAndBuildMerkle(
  */
 export function generateMerkleProof(
   records: UsageRecord[],
-  targetRecordIndex: number
+  targetRecordIndex: number,
+  treeVersion: MerkleTreeVersion = LATEST_TREE_VERSION
 ): { proof: string[]; leafHash: string } | null {
   if (targetRecordIndex < 0 || targetRecordIndex >= records.length) {
     return null;
   }
 
-  const leafHashes = records.map(record => {
-    const json = createCanonicalJson(record);
-    return keccak256(toBytes(json));
-  });
-
+  const leafHashes = records.map(record => hashUsageLeaf(record, treeVersion));
   const targetLeafHash = leafHashes[targetRecordIndex];
-  const proof = generateMerkleProofForLeaf(leafHashes, targetRecordIndex);
+  const proof = getMerkleProof(buildMerkleTree(leafHashes, treeVersion), targetLeafHash);
+  if (!proof) return null;
 
   return {
-    proof: proof.map(hash => hash),
+    proof,
     leafHash: targetLeafHash,
   };
 }
@@ -138,13 +132,7 @@ export function verifyMerkleProof(
   root: string
 ): boolean {
   try {
-    let computedHash = leafHash as `0x${string}`;
-    
-    for (const proofElement of proof) {
-      computedHash = hashPairCommutative(computedHash, proofElement as `0x${string}`);
-    }
-    
-    return computedHash === root;
+    return verifySharedMerkleProof(leafHash as `0x${string}`, proof as `0x${string}`[], root as `0x${string}`);
   } catch {
     return false;
   }
@@ -198,72 +186,3 @@ export function validateUsageRecord(record: UsageRecord): VerificationResult {
     };
   }
 }
-
-// Helper functions for Merkle tree operations
-
-function buildMerkleRoot(leaves: `0x${string}`[]): `0x${string}` {
-  if (leaves.length === 0) return ('0x' + '00'.repeat(32)) as `0x${string}`;
-  
-  let layer = [...leaves];
-  layer.sort();
-  
-  while (layer.length > 1) {
-    const next: `0x${string}`[] = [];
-    for (let i = 0; i < layer.length; i += 2) {
-      const left = layer[i];
-      const right = layer[i + 1] ?? layer[i];
-      next.push(hashPairCommutative(left, right));
-    }
-    next.sort();
-    layer = next;
-  }
-  
-  return layer[0] as `0x${string}`;
-}
-
-function hashPairCommutative(a: `0x${string}`, b: `0x${string}`): `0x${string}` {
-  return a.toLowerCase() < b.toLowerCase()
-    ? keccak256(concatBytes(a, b))
-    : keccak256(concatBytes(b, a));
-}
-
-function concatBytes(a: `0x${string}`, b: `0x${string}`) {
-  const ab = new Uint8Array(64);
-  ab.set(toBytes(a));
-  ab.set(toBytes(b), 32);
-  return ab;
-}
-
-function generateMerkleProofForLeaf(leaves: `0x${string}`[], leafIndex: number): `0x${string}`[] {
-  if (leaves.length === 0 || leafIndex >= leaves.length) {
-    return [];
-  }
-
-  const proof: `0x${string}`[] = [];
-  let layer = [...leaves];
-  let currentIndex = leafIndex;
-
-  while (layer.length > 1) {
-    const nextLayer: `0x${string}`[] = [];
-    
-    for (let i = 0; i < layer.length; i += 2) {
-      const left = layer[i];
-      const right = layer[i + 1] ?? layer[i];
-      
-      if (i === currentIndex) {
-        // This is our target leaf, add its sibling to proof
-        proof.push(right);
-      } else if (i + 1 === currentIndex) {
-        // This is our target leaf's sibling, add left to proof
-        proof.push(left);
-      }
-      
-      nextLayer.push(hashPairCommutative(left, right));
-    }
-    
-    layer = nextLayer;
-    currentIndex = Math.floor(currentIndex / 2);
-  }
-
-  return proof;
-}
@@ -1,4 +1,5 @@
-import { defineChain } from 'viem';
+import { defineChain, type Chain } from 'viem';
+import * as viemChains from 'viem/chains';
 
 export const u2uNebulasTestnet = defineChain({
   id: 2484,
@@ -10,4 +11,42 @@ export const u2uNebulasTestnet = defineChain({
   },
 });
 
+const knownChains: Record<string, Chain> = { ...(viemChains as Record<string, Chain>), u2uNebulasTestnet };
 
+export type ChainSelector = {
+  /** Export name in viem/chains, or u2uNebulasTestnet; case-insensitive */
+  chain?: string;
+  chainId?: number;
+  /** Required for a chainId viem does not know */
+  rpcUrl?: string;
+};
+
+/**
+ * Pick the chain to anchor on: by viem name, by id, or a custom chain built
+ * from `chainId` and `rpcUrl` (e.g. a private network). Without either,
+ * the U2U Nebulas testnet.
+ */
+export function resolveChain({ chain, chainId, rpcUrl }: ChainSelector): Chain {
+  if (chain) {
+    const entry = Object.entries(knownChains).find(([name]) => name.toLowerCase() === chain.toLowerCase());
+    if (!entry) throw new Error(`Unknown chain "${chain}"; use a viem/chains export name or set a chainId`);
+    if (chainId !== undefined && entry[1].id !== chainId) {
+      throw new Error(`Chain "${chain}" has id ${entry[1].id}, not ${chainId}`);
+    }
+    return entry[1];
+  }
+  if (chainId === undefined) return u2uNebulasTestnet;
+
+  // Prefer our own definition for U2U, then whichever viem chain has the id
+  const known = chainId === u2uNebulasTestnet.id
+    ? u2uNebulasTestnet
+    : Object.values(knownChains).find(c => c.id === chainId);
+  if (known) return known;
+  if (!rpcUrl) throw new Error(`Chain ${chainId} is not known to viem; set an RPC URL for it`);
+  return defineChain({
+    id: chainId,
+    name: `Chain ${chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+}
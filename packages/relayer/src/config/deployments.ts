@@ -0,0 +1,47 @@
+import type { Chain } from 'viem';
+import { readDeployedAddress } from '../contracts/edgeCharge.js';
+import { resolveChain } from './chain.js';
+import type { DeploymentEntry, Env } from './env.js';
+
+/** An EdgeCharge contract the relayer anchors to */
+export type DeploymentConfig = {
+  /** Referenced by provider registrations and recorded with each batch */
+  name: string;
+  chain: Chain;
+  rpcUrl: string;
+  address: `0x${string}`;
+};
+
+export const DEFAULT_DEPLOYMENT = 'default';
+
+/**
+ * The deployments this relayer serves. EDGECHARGE_DEPLOYMENTS lists them
+ * explicitly; otherwise CHAIN / CHAIN_ID / RPC_URL / EDGECHARGE_ADDRESS
+ * describe a single one named `default`. A deployment without an address
+ * uses the one Ignition recorded for its chain. The first is the default
+ * for providers that are not assigned to one.
+ */
+export function resolveDeployments(
+  env: Pick<Env, 'CHAIN' | 'CHAIN_ID' | 'RPC_URL' | 'U2U_RPC_URL' | 'EDGECHARGE_ADDRESS' | 'EDGECHARGE_DEPLOYMENTS' | 'IGNITION_DEPLOYMENTS_DIR'>,
+): DeploymentConfig[] {
+  const entries: DeploymentEntry[] = env.EDGECHARGE_DEPLOYMENTS ?? [{
+    name: DEFAULT_DEPLOYMENT,
+    chain: env.CHAIN,
+    chainId: env.CHAIN_ID,
+    rpcUrl: env.RPC_URL ?? env.U2U_RPC_URL,
+    address: env.EDGECHARGE_ADDRESS,
+  }];
+
+  const names = new Set<string>();
+  return entries.map(entry => {
+    if (names.has(entry.name)) throw new Error(`Deployment "${entry.name}" is listed twice`);
+    names.add(entry.name);
+
+    const chain = resolveChain(entry);
+    const address = (entry.address as `0x${string}` | undefined) ?? readDeployedAddress(chain.id, env.IGNITION_DEPLOYMENTS_DIR);
+    if (!address) {
+      throw new Error(`EdgeCharge address for deployment "${entry.name}" (chain ${chain.id}) not found. Set its address or deploy via Ignition.`);
+    }
+    return { name: entry.name, chain, rpcUrl: entry.rpcUrl ?? chain.rpcUrls.default.http[0], address };
+  });
+}
@@ -1,14 +1,142 @@
 import 'dotenv/config';
 import { z } from 'zod';
 
+const Address = z.string().regex(/^0x[0-9a-fA-F]{40}$/);
+
+/** One entry of EDGECHARGE_DEPLOYMENTS; `chain` is a viem chain name, `chainId` a known or custom chain */
+export const DeploymentEntrySchema = z.object({
+  name: z.string().min(1),
+  chain: z.string().min(1).optional(),
+  chainId: z.number().int().positive().optional(),
+  rpcUrl: z.string().url().optional(),
+  address: Address.optional(),
+});
+
+export type DeploymentEntry = z.infer<typeof DeploymentEntrySchema>;
+
 const EnvSchema = z.object({
-  U2U_RPC_URL: z.string().url().default('https://rpc-nebulas-testnet.u2u.xyz'),
-  RELAYER_PRIVATE_KEY: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
-  EDGECHARGE_ADDRESS: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
+  // viem chain name (e.g. sepolia, hardhat, anvil) or u2uNebulasTestnet; the default
+  CHAIN: z.string().min(1).optional(),
+  // Chain by id instead of name; an id viem does not know needs RPC_URL
+  CHAIN_ID: z.coerce.number().int().positive().optional(),
+  // Defaults to the chain's public RPC
+  RPC_URL: z.string().url().optional(),
+  // Older name for RPC_URL
+  U2U_RPC_URL: z.string().url().optional(),
+  // Required unless DRY_RUN is set
+  RELAYER_PRIVATE_KEY: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
+  // Account a dry run calls from when RELAYER_PRIVATE_KEY is unset; simulations only pass for an authorized relayer
+  RELAYER_ADDRESS: Address.optional(),
+  // Build anchors without sending them: simulate runs each submitUsageAnchor call with eth_call, journal makes no RPC calls
+  DRY_RUN: z.enum(['off', 'simulate', 'journal']).default('off'),
+  // Where a dry run appends the calls it would have sent, one JSON object per line
+  DRY_RUN_JOURNAL_PATH: z.string().min(1).default('./data/dry-run.jsonl'),
+  // Defaults to the Ignition deployment for the chain
+  EDGECHARGE_ADDRESS: Address.optional(),
+  // JSON array of deployments to anchor to, replacing CHAIN, CHAIN_ID, RPC_URL and EDGECHARGE_ADDRESS; the first is the default
+  EDGECHARGE_DEPLOYMENTS: z.string().optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be a JSON array' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(DeploymentEntrySchema).min(1).optional()),
+  // Where `chain-<id>/deployed_addresses.json` folders are looked up; defaults to the contracts package
+  IGNITION_DEPLOYMENTS_DIR: z.string().optional(),
   BATCH_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
+  // Length of wall-clock aligned anchoring epochs; defaults to the batch interval
+  ANCHOR_EPOCH_SECONDS: z.coerce.number().int().positive().optional(),
+  // Leaves arriving this long after their epoch ended are still anchored with it
+  LATE_LEAF_GRACE_SECONDS: z.coerce.number().int().nonnegative().default(30),
+  // What happens to leaves arriving after their epoch closed
+  STRAGGLER_POLICY: z.enum(['next_epoch', 'catch_up', 'reject']).default('catch_up'),
+  // Anchor each (provider, rateId) pair separately; false mixes a provider's rates in one anchor
+  BATCH_GROUP_BY_RATE: z.enum(['true', 'false']).default('true').transform(v => v === 'true'),
+  // Most leaves in one anchor; larger groups are split. Unset means no limit
+  BATCH_MAX_LEAVES: z.coerce.number().int().positive().optional(),
+  // Units a group must reach before it is anchored; smaller groups are held and carried into the next epoch
+  BATCH_MIN_USAGE: z.coerce.number().int().nonnegative().default(0),
+  // Longest a leaf held by BATCH_MIN_USAGE waits, from when it was received, before it is anchored anyway
+  BATCH_MAX_WAIT_SECONDS: z.coerce.number().int().positive().default(3600),
+  // Merkle tree format for new anchors: 2 is OpenZeppelin StandardMerkleTree, 1 the original JSON-leaf tree
+  MERKLE_TREE_VERSION: z.enum(['1', '2']).default('2').transform(v => Number(v) as 1 | 2),
+  // How long (provider, nonce) pairs are remembered for replay detection; older leaves are refused
+  NONCE_RETENTION_SECONDS: z.coerce.number().int().positive().default(7 * 24 * 60 * 60),
+  // Where queued leaves and batches are persisted; 'memory' loses them on restart
+  RELAYER_STORE: z.enum(['sqlite', 'memory']).default('sqlite'),
+  RELAYER_DB_PATH: z.string().min(1).default('./data/relayer.db'),
+  // RPC failures before a transaction is broadcast are retried this often, with exponential backoff
+  TX_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  TX_RETRY_BASE_DELAY_MS: z.coerce.number().int().positive().default(1000),
+  // A transaction without a receipt after this long is replaced with bumped fees
+  TX_STUCK_AFTER_MS: z.coerce.number().int().positive().default(60000),
+  TX_FEE_BUMP_PERCENT: z.coerce.number().int().min(10).default(20),
+  TX_MAX_FEE_BUMPS: z.coerce.number().int().nonnegative().default(3),
+  // Submissions per batch before it is marked failed; until then it stays pending and is retried each tick
+  ANCHOR_MAX_BATCH_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  // How often each deployment is polled for DisputeOpened and DisputeResolved events
+  DISPUTE_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(15000),
+  // First block scanned for disputes on a fresh database; defaults to the chain head at startup
+  DISPUTE_FROM_BLOCK: z.coerce.bigint().nonnegative().optional(),
+  // Blocks per eth_getLogs request, to stay under RPC range limits
+  DISPUTE_LOG_BLOCK_RANGE: z.coerce.number().int().positive().default(5000),
+  // On SIGTERM/SIGINT: how long the final batch and pending receipts may take before the process exits anyway
+  SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
+  // Bearer credential for /admin; the admin routes are disabled when unset
+  ADMIN_API_KEY: z.string().min(16).optional(),
+  // Read-only bearer key for /ops; without it (and without ADMIN_API_KEY) those routes are open
+  OPS_API_KEY: z.string().min(16).optional(),
+  // Requests per minute per provider, unless its registration sets its own limit
+  RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(120),
+  MAX_REQUEST_BYTES: z.coerce.number().int().positive().default(64 * 1024),
+  // Limits for JSON arrays sent to POST /leaves/batch
+  MAX_BATCH_REQUEST_BYTES: z.coerce.number().int().positive().default(4 * 1024 * 1024),
+  MAX_BATCH_LEAVES: z.coerce.number().int().positive().default(1000),
+  // Body cap for NDJSON streams sent to POST /leaves/batch, whose lines are each capped by MAX_REQUEST_BYTES
+  MAX_STREAM_REQUEST_BYTES: z.coerce.number().int().positive().default(64 * 1024 * 1024),
+  // Signed requests older or newer than this are refused
+  REQUEST_MAX_AGE_SECONDS: z.coerce.number().int().positive().default(300),
+  // Comma-separated browser origins allowed by CORS; unset allows any
+  CORS_ORIGINS: z.string().optional().transform(v => v?.split(',').map(o => o.trim()).filter(Boolean)),
+  // Minimum level of the JSON log lines written to stdout
+  LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal', 'silent']).default('info'),
+}).superRefine((env, ctx) => {
+  if (env.DRY_RUN === 'off' && !env.RELAYER_PRIVATE_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['RELAYER_PRIVATE_KEY'], message: 'Required unless DRY_RUN is set' });
+  }
+  if (env.DRY_RUN === 'simulate' && !env.RELAYER_PRIVATE_KEY && !env.RELAYER_ADDRESS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['RELAYER_ADDRESS'], message: 'DRY_RUN=simulate needs RELAYER_ADDRESS or RELAYER_PRIVATE_KEY' });
+  }
 });
 
 export type Env = z.infer<typeof EnvSchema>;
+export type StragglerPolicy = Env['STRAGGLER_POLICY'];
+export type DryRunMode = Exclude<Env['DRY_RUN'], 'off'>;
+
+export function resolveEpochConfig(env: Pick<Env, 'ANCHOR_EPOCH_SECONDS' | 'BATCH_INTERVAL_MS' | 'LATE_LEAF_GRACE_SECONDS'>) {
+  return {
+    epochSeconds: env.ANCHOR_EPOCH_SECONDS ?? Math.max(1, Math.round(env.BATCH_INTERVAL_MS / 1000)),
+    graceSeconds: env.LATE_LEAF_GRACE_SECONDS,
+  };
+}
+
+/** The relayer-wide batch policy; provider registrations may override each field */
+export function resolveBatchPolicyDefaults(env: Pick<Env, 'BATCH_MAX_LEAVES' | 'BATCH_MIN_USAGE' | 'BATCH_MAX_WAIT_SECONDS'>) {
+  return {
+    maxLeaves: env.BATCH_MAX_LEAVES,
+    minUsage: env.BATCH_MIN_USAGE,
+    maxWaitSeconds: env.BATCH_MAX_WAIT_SECONDS,
+  };
+}
+
+/** How anchors are handled instead of being sent; undefined when they are sent */
+export function resolveDryRun(env: Pick<Env, 'DRY_RUN' | 'DRY_RUN_JOURNAL_PATH'>) {
+  return env.DRY_RUN === 'off' ? undefined : { mode: env.DRY_RUN as DryRunMode, journalPath: env.DRY_RUN_JOURNAL_PATH };
+}
 
 export function loadEnv(): Env {
   const parsed = EnvSchema.safeParse(process.env);
@@ -1,6 +1,29 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { parseAbiItem } from 'viem';
+import { u2uNebulasTestnet } from '../config/chain.js';
+
+/** Declared here so receipts can be decoded without the compiled artifact */
+export const usageAnchoredEvent = parseAbiItem(
+  'event UsageAnchored(bytes32 indexed anchorId, address indexed provider, uint256 windowStart, uint256 windowEnd, bytes32 merkleRoot, uint256 totalUsage)',
+);
+
+export const submitUsageAnchorFunction = parseAbiItem(
+  'function submitUsageAnchor(address provider, uint256 windowStart, uint256 windowEnd, bytes32 merkleRoot, uint256 totalUsage) returns (bytes32 anchorId)',
+);
+
+export const usageAnchorsFunction = parseAbiItem(
+  'function usageAnchors(bytes32 anchorId) view returns (address provider, uint256 windowStart, uint256 windowEnd, bytes32 merkleRoot, uint256 totalUsage, bool disputed, bool exists)',
+);
+
+export const disputeOpenedEvent = parseAbiItem(
+  'event DisputeOpened(bytes32 indexed anchorId, address indexed disputant, string reason)',
+);
+
+export const disputeResolvedEvent = parseAbiItem(
+  'event DisputeResolved(bytes32 indexed anchorId, bool resolvedInFavorOfProvider)',
+);
 
 export type EdgeChargeAdapter = {
   readonly abi: any[];
@@ -18,27 +41,29 @@ function readAbi(): any[] {
   return json.abi;
 }
 
-function readDeployedAddress(): `0x${string}` | null {
+const defaultDeploymentsDir = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../../contracts/ignition/deployments',
+);
+
+/**
+ * The EdgeCharge address Ignition recorded for `chainId`, from
+ * `<deploymentsDir>/chain-<chainId>/deployed_addresses.json`.
+ */
+export function readDeployedAddress(chainId: number, deploymentsDir = defaultDeploymentsDir): `0x${string}` | null {
   try {
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirnameLocal = path.dirname(__filename);
-    const file = path.resolve(
-      __dirnameLocal,
-      '../../../contracts/ignition/deployments/chain-2484/deployed_addresses.json',
-    );
+    const file = path.resolve(deploymentsDir, `chain-${chainId}`, 'deployed_addresses.json');
     const json = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, string>;
     const addr = json['EdgeChargeModule#EdgeCharge'];
-    return addr as `0x${string}`;
+    return (addr as `0x${string}` | undefined) ?? null;
   } catch {
     return null;
   }
 }
 
-export function getEdgeChargeAdapter(explicitAddress?: `0x${string}`): EdgeChargeAdapter {
+export function getEdgeChargeAdapter(explicitAddress?: `0x${string}`, chainId = u2uNebulasTestnet.id): EdgeChargeAdapter {
   const abi = readAbi();
-  const address = explicitAddress ?? readDeployedAddress();
+  const address = explicitAddress ?? readDeployedAddress(chainId);
   if (!address) throw new Error('EdgeCharge address not found. Set EDGECHARGE_ADDRESS or deploy via Ignition.');
   return { abi, address };
 }
-
-
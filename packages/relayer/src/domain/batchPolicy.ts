@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+/** Batching thresholds; as a provider override every field is optional and unset ones fall back to the relayer's */
+export const BatchPolicySchema = z.object({
+  /** Most leaves in one anchor; a larger group is split into several anchors */
+  maxLeaves: z.number().int().positive().optional(),
+  /** Units a group must reach before it is anchored; smaller groups are held and carried into the next epoch */
+  minUsage: z.number().int().nonnegative().optional(),
+  /** Longest a held leaf waits, from when it was received, before it is anchored regardless of minUsage */
+  maxWaitSeconds: z.number().int().positive().optional(),
+});
+
+export type BatchPolicy = z.infer<typeof BatchPolicySchema>;
+
+/** The policy in force for one provider; `maxLeaves` unset means no limit */
+export type ResolvedBatchPolicy = {
+  maxLeaves?: number;
+  minUsage: number;
+  maxWaitSeconds: number;
+  /** `provider` when the provider's registration overrides any field */
+  source: 'default' | 'provider';
+};
+
+/**
+ * The policy a batch was released under, recorded with its anchor.
+ * `trigger` is `ready` when its usage reached minUsage (always, without
+ * one) and `max_wait` when it was anchored short of it.
+ */
+export type AppliedBatchPolicy = ResolvedBatchPolicy & { trigger: 'ready' | 'max_wait' };
+
+export function resolveBatchPolicy(
+  defaults: { maxLeaves?: number; minUsage: number; maxWaitSeconds: number },
+  override?: BatchPolicy,
+): ResolvedBatchPolicy {
+  const overridden = !!override && Object.values(override).some(v => v !== undefined);
+  return {
+    maxLeaves: override?.maxLeaves ?? defaults.maxLeaves,
+    minUsage: override?.minUsage ?? defaults.minUsage,
+    maxWaitSeconds: override?.maxWaitSeconds ?? defaults.maxWaitSeconds,
+    source: overridden ? 'provider' : 'default',
+  };
+}
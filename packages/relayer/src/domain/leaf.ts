@@ -1,16 +1,28 @@
 import { z } from 'zod';
+import { keccak256, toBytes } from 'viem';
+import { createCanonicalJson } from '@edgecharge/shared';
 
 export const LeafSchema = z.object({
   provider: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
   nodeId: z.string().min(1),
   windowStart: z.coerce.number().int().nonnegative(),
   windowEnd: z.coerce.number().int().positive(),
-  unitsConsumed: z.coerce.number().int().nonnegative(),
+  // The contract refuses an anchor with no usage or an empty window, so no leaf may bring either
+  unitsConsumed: z.coerce.number().int().positive(),
   rateId: z.string().min(1),
   nonce: z.string().min(1),
   providerSig: z.string().regex(/^0x[0-9a-fA-F]+$/),
+}).refine(leaf => leaf.windowStart < leaf.windowEnd, {
+  message: 'windowStart must be before windowEnd',
+  path: ['windowStart'],
 });
 
 export type Leaf = z.infer<typeof LeafSchema>;
 
-
+/**
+ * Fingerprint of what the provider signed. Two leaves with the same
+ * (provider, nonce) and the same content hash are the same submission.
+ */
+export function leafContentHash(leaf: Leaf): `0x${string}` {
+  return keccak256(toBytes(createCanonicalJson(leaf)));
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { BatchPolicySchema } from './batchPolicy.js';
+
+const Address = z.string().regex(/^0x[0-9a-fA-F]{40}$/);
+
+/** Body of `POST /admin/providers` */
+export const ProviderRegistrationSchema = z.object({
+  address: Address,
+  /** Issue a new API key (replacing any previous one); otherwise only signed requests are accepted */
+  issueApiKey: z.boolean().default(true),
+  /** Addresses allowed to sign requests; defaults to the provider address itself */
+  signers: z.array(Address).optional(),
+  /** nodeIds the provider may report usage for; empty allows any */
+  nodes: z.array(z.string().min(1)).default([]),
+  rateLimitPerMinute: z.number().int().positive().optional(),
+  /** Name of the EdgeCharge deployment to anchor this provider's usage to; defaults to the relayer's default */
+  deployment: z.string().min(1).optional(),
+  /** Overrides fields of the relayer-wide batch policy for this provider */
+  batchPolicy: BatchPolicySchema.optional(),
+});
+
+export type ProviderRegistrationInput = z.infer<typeof ProviderRegistrationSchema>;
@@ -1,29 +1,116 @@
 declare const process: any;
+import { dryRunAnchor } from './usecases/dryRunAnchor.js';
 import { submitAnchor } from './usecases/submitAnchor.js';
+import { readUsageAnchor } from './usecases/buildDisputeEvidence.js';
 import { createServer } from './server/http.js';
 import { startBatcher } from './services/batcher.js';
-import { loadEnv } from './config/env.js';
+import { startDisputeWatcher } from './services/disputeWatcher.js';
+import { loadEnv, resolveDryRun, resolveEpochConfig } from './config/env.js';
+import { createStore } from './services/createStore.js';
+import { getDeployment, getDeployments } from './services/deployments.js';
+import { events } from './services/events.js';
+import { Lifecycle, type Worker } from './services/lifecycle.js';
+import { logger } from './services/logger.js';
+import type { RelayerStore } from './services/store.js';
 
 export { submitAnchor };
 
+/**
+ * Last worker to stop: report what is left for the next start and close
+ * the store. SQLite keeps it all; the memory store loses it, so that is
+ * logged as an error.
+ */
+function storeWorker(store: RelayerStore, durable: boolean): Worker {
+  return {
+    name: 'store',
+    async stop() {
+      const pendingLeaves = (await store.summarizePendingLeaves()).reduce((sum, node) => sum + node.leaves, 0);
+      const pendingBatches = (await store.listBatches({ status: 'pending' })).length;
+      if (pendingLeaves + pendingBatches > 0) {
+        (durable ? logger.info : logger.error)(
+          { pendingLeaves, pendingBatches, durable },
+          durable ? 'Unanchored work kept for the next start' : 'Unanchored work lost with the memory store',
+        );
+      }
+      await store.close();
+    },
+  };
+}
+
 // Demo runner if invoked directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   (async () => {
     // start http server & batcher
-    const app = createServer();
-    const port = process.env.PORT ? Number(process.env.PORT) : 8787;
-    app.listen(port, () => console.log(`Relayer API listening on :${port}`));
-    startBatcher();
     const env = loadEnv();
+    logger.level = env.LOG_LEVEL;
+    // Resolve every deployment up front so a bad chain or missing address stops startup
+    const deployments = getDeployments();
+    for (const { name, chain, address } of deployments) {
+      logger.info({ deployment: name, chainId: chain.id, chain: chain.name, address }, 'Anchoring to deployment');
+    }
+    const dryRun = resolveDryRun(env);
+    if (dryRun) {
+      logger.warn({ mode: dryRun.mode, journal: dryRun.journalPath, from: deployments[0].txManager.address }, 'Dry run: anchors are built but not sent');
+    }
+    const store = createStore(env);
+    const lifecycle = new Lifecycle();
+    const app = createServer(store, {
+      nonceRetentionSeconds: env.NONCE_RETENTION_SECONDS,
+      rejectClosedEpochs: env.STRAGGLER_POLICY === 'reject' ? resolveEpochConfig(env) : undefined,
+      adminApiKey: env.ADMIN_API_KEY,
+      opsApiKey: env.OPS_API_KEY,
+      rateLimitPerMinute: env.RATE_LIMIT_PER_MINUTE,
+      maxRequestBytes: env.MAX_REQUEST_BYTES,
+      maxBatchRequestBytes: env.MAX_BATCH_REQUEST_BYTES,
+      maxStreamRequestBytes: env.MAX_STREAM_REQUEST_BYTES,
+      maxBatchLeaves: env.MAX_BATCH_LEAVES,
+      requestMaxAgeSeconds: env.REQUEST_MAX_AGE_SECONDS,
+      corsOrigins: env.CORS_ORIGINS,
+      deployments: deployments.map(d => d.name),
+      // A journaling dry run makes no RPC calls, so evidence bundles report the chain as unreadable
+      readAnchor: dryRun?.mode === 'journal' ? undefined : (anchorId, name) => {
+        const { address, txManager } = getDeployment(name);
+        return readUsageAnchor({ address, publicClient: txManager.publicClient })(anchorId, name);
+      },
+      lifecycle,
+    });
+    const port = process.env.PORT ? Number(process.env.PORT) : 8787;
+    const server = app.listen(port, () => logger.info({ port }, 'Relayer API listening'));
+
+    // Stopped in this order: the API keeps answering probes and reads until the final batch is anchored
+    // A journaling dry run makes no RPC calls, so there is no chain to watch
+    if (dryRun?.mode !== 'journal') lifecycle.register(startDisputeWatcher(store));
+    lifecycle.register(startBatcher(store));
+    // Event streams never end on their own and would hold server.close open
+    lifecycle.register({ name: 'events', stop: async () => events.close() });
+    lifecycle.register({
+      name: 'http',
+      stop: () => new Promise<void>((resolve, reject) => {
+        server.close((err?: Error) => (err ? reject(err) : resolve()));
+        server.closeIdleConnections();
+      }),
+    });
+    lifecycle.register(storeWorker(store, env.RELAYER_STORE === 'sqlite'));
+    lifecycle.markReady();
+
+    for (const signal of ['SIGTERM', 'SIGINT']) {
+      process.once(signal, () => {
+        // A second signal gives up on draining
+        process.once(signal, () => process.exit(1));
+        lifecycle.shutdown(signal, env.SHUTDOWN_TIMEOUT_MS).then(({ clean }) => process.exit(clean ? 0 : 1));
+      });
+    }
+
     const provider = (process.env.PROVIDER_ADDRESS as `0x${string}`) || '0x0000000000000000000000000000000000000001';
     const windowEnd = Math.floor(Date.now() / 1000);
     const windowStart = windowEnd - 60;
     const merkleRoot = ('0x' + '00'.repeat(32)) as `0x${string}`;
     const totalUsage = 1n;
-    const receipt = await submitAnchor({ provider, windowStart, windowEnd, merkleRoot, totalUsage });
-    console.log('submitUsageAnchor tx:', receipt.transactionHash);
+    const payload = { provider, windowStart, windowEnd, merkleRoot, totalUsage };
+    const submission = dryRun ? await dryRunAnchor(payload, getDeployment(), dryRun) : await submitAnchor(payload);
+    logger.info({ tx: submission.txHash, anchorId: submission.anchorId }, 'Demo anchor submitted');
   })().catch((err) => {
-    console.error(err);
+    logger.fatal({ err }, 'Relayer failed');
     process.exit(1);
   });
 }
@@ -0,0 +1,18 @@
+import { encodePacked, keccak256 } from 'viem';
+import type { Hash } from '@edgecharge/shared';
+
+/**
+ * Same derivation as EdgeCharge.submitUsageAnchor:
+ * keccak256(abi.encodePacked(provider, windowStart, windowEnd, merkleRoot))
+ */
+export function computeAnchorId(
+  provider: `0x${string}`,
+  windowStart: bigint | number,
+  windowEnd: bigint | number,
+  merkleRoot: Hash,
+): Hash {
+  return keccak256(encodePacked(
+    ['address', 'uint256', 'uint256', 'bytes32'],
+    [provider, BigInt(windowStart), BigInt(windowEnd), merkleRoot],
+  ));
+}
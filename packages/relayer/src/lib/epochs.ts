@@ -0,0 +1,24 @@
+/**
+ * Anchoring epochs are aligned to the unix epoch: with a 300s length they
+ * end at :00, :05, :10, … on the wall clock. A leaf belongs to the epoch
+ * whose (end - length, end] range contains its windowEnd.
+ */
+export type EpochConfig = {
+  epochSeconds: number;
+  /** How long after an epoch ends leaves for it are still accepted as on time */
+  graceSeconds: number;
+};
+
+export function epochEndOf(windowEnd: number, epochSeconds: number): number {
+  return Math.ceil(windowEnd / epochSeconds) * epochSeconds;
+}
+
+/** When the epoch containing `windowEnd` stops accepting on-time leaves */
+export function epochCloseOf(windowEnd: number, { epochSeconds, graceSeconds }: EpochConfig): number {
+  return epochEndOf(windowEnd, epochSeconds) + graceSeconds;
+}
+
+/** End of the newest epoch whose grace period is over at `now` */
+export function lastClosedEpochEnd(now: number, { epochSeconds, graceSeconds }: EpochConfig): number {
+  return Math.floor((now - graceSeconds) / epochSeconds) * epochSeconds;
+}
@@ -0,0 +1,100 @@
+import os from 'node:os';
+
+export const LOG_LEVELS = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+  silent: Infinity,
+} as const;
+
+export type LogLevel = keyof typeof LOG_LEVELS;
+
+export type LogFields = Record<string, unknown>;
+
+type LogMethod = (fieldsOrMessage: LogFields | string, message?: string) => void;
+
+function serializeError(err: unknown): unknown {
+  if (!(err instanceof Error)) return err;
+  return { type: err.name, message: err.message, stack: err.stack, ...(err.cause !== undefined ? { cause: serializeError(err.cause) } : {}) };
+}
+
+// Log lines must always be valid JSON: bigints become strings, errors keep their type and stack
+function replacer(key: string, value: unknown) {
+  if (typeof value === 'bigint') return value.toString();
+  if (key === 'err') return serializeError(value);
+  return value;
+}
+
+/**
+ * Structured JSON logger writing one pino-compatible line per entry:
+ * `{"level":30,"time":...,"pid":...,"hostname":...,"msg":"..."}` plus the
+ * logger's bindings and the entry's fields. Pass errors as `err`.
+ *
+ * `child()` adds bindings, which is how a correlation id is carried from
+ * one component to the next.
+ */
+export class Logger {
+  readonly trace: LogMethod;
+  readonly debug: LogMethod;
+  readonly info: LogMethod;
+  readonly warn: LogMethod;
+  readonly error: LogMethod;
+  readonly fatal: LogMethod;
+
+  constructor(
+    private state: { level: LogLevel; write: (line: string) => void },
+    private bindings: LogFields = {},
+  ) {
+    this.trace = this.method('trace');
+    this.debug = this.method('debug');
+    this.info = this.method('info');
+    this.warn = this.method('warn');
+    this.error = this.method('error');
+    this.fatal = this.method('fatal');
+  }
+
+  /** Shared with every child, so changing it affects the whole logger tree */
+  get level(): LogLevel {
+    return this.state.level;
+  }
+
+  set level(level: LogLevel) {
+    this.state.level = level;
+  }
+
+  child(bindings: LogFields): Logger {
+    return new Logger(this.state, { ...this.bindings, ...bindings });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.state.level];
+  }
+
+  private method(level: Exclude<LogLevel, 'silent'>): LogMethod {
+    return (fieldsOrMessage, message) => {
+      if (!this.isLevelEnabled(level)) return;
+      const fields = typeof fieldsOrMessage === 'string' ? {} : fieldsOrMessage;
+      const msg = typeof fieldsOrMessage === 'string' ? fieldsOrMessage : message;
+      const entry = {
+        level: LOG_LEVELS[level],
+        time: Date.now(),
+        pid: process.pid,
+        hostname: os.hostname(),
+        ...this.bindings,
+        ...fields,
+        ...(msg !== undefined ? { msg } : {}),
+      };
+      this.state.write(`${JSON.stringify(entry, replacer)}\n`);
+    };
+  }
+}
+
+export function createLogger({
+  level = 'info',
+  write = (line: string) => { process.stdout.write(line); },
+}: { level?: LogLevel; write?: (line: string) => void } = {}): Logger {
+  return new Logger({ level, write });
+}
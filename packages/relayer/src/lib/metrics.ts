@@ -0,0 +1,173 @@
+export type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** One exposition line: `name{labels} value` */
+type Sample = { name: string; labels: Labels; value: number };
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** A value per label set, created on first use */
+class LabelledValues<T> {
+  private values = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(private initial: () => T) {}
+
+  entry(labels: Labels): { labels: Labels; value: T } {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: this.initial() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+
+  find(labels: Labels) {
+    return this.values.get(labelKey(labels));
+  }
+
+  all() {
+    return [...this.values.values()];
+  }
+}
+
+/** Monotonic count, split by label values */
+export class Counter {
+  readonly type = 'counter';
+  private values = new LabelledValues(() => 0);
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1) {
+    this.values.entry(labels).value += by;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.find(labels)?.value ?? 0;
+  }
+
+  samples(): Sample[] {
+    return this.values.all().map(v => ({ name: this.name, labels: { ...v.labels }, value: v.value }));
+  }
+}
+
+/** A value that goes up and down, such as a queue depth */
+export class Gauge {
+  readonly type = 'gauge';
+  private values = new LabelledValues(() => 0);
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(labels: Labels, value: number) {
+    this.values.entry(labels).value = value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.find(labels)?.value ?? 0;
+  }
+
+  samples(): Sample[] {
+    return this.values.all().map(v => ({ name: this.name, labels: { ...v.labels }, value: v.value }));
+  }
+}
+
+/** Observations counted into cumulative `le` buckets, with their sum and count */
+export class Histogram {
+  readonly type = 'histogram';
+  private values: LabelledValues<{ buckets: number[]; sum: number; count: number }>;
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+    this.values = new LabelledValues(() => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+  }
+
+  observe(labels: Labels, value: number) {
+    const entry = this.values.entry(labels).value;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /** Start timing; the returned function observes the elapsed seconds */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  count(labels: Labels = {}): number {
+    return this.values.find(labels)?.value.count ?? 0;
+  }
+
+  samples(): Sample[] {
+    return this.values.all().flatMap(({ labels, value }) => [
+      ...this.buckets.map((bound, i) => ({ name: `${this.name}_bucket`, labels: { ...labels, le: String(bound) }, value: value.buckets[i] })),
+      { name: `${this.name}_bucket`, labels: { ...labels, le: '+Inf' }, value: value.count },
+      { name: `${this.name}_sum`, labels: { ...labels }, value: value.sum },
+      { name: `${this.name}_count`, labels: { ...labels }, value: value.count },
+    ]);
+  }
+}
+
+type Metric = Counter | Gauge | Histogram;
+
+function escapeLabelValue(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample({ name, labels, value }: Sample) {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  const number = Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+  return `${name}${pairs.length ? `{${pairs.join(',')}}` : ''} ${number}`;
+}
+
+/** In-process metrics; values reset when the process restarts */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, 'counter', () => new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, 'gauge', () => new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(name, 'histogram', () => new Histogram(name, help, buckets));
+  }
+
+  snapshot() {
+    return [...this.metrics.values()].map(m => ({ name: m.name, help: m.help, type: m.type, samples: m.samples() }));
+  }
+
+  /** Prometheus text exposition format (version 0.0.4) */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.samples().map(formatSample));
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<M extends Metric>(name: string, type: MetricType, create: () => M): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      return existing as M;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
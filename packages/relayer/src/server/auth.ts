@@ -0,0 +1,91 @@
+import crypto from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { NextFunction, Request, Response } from 'express';
+import { REQUEST_SIGNATURE_HEADERS } from '@edgecharge/shared';
+import type { RateLimiter } from '../services/rateLimiter.js';
+import type { ProviderRegistration, RelayerStore } from '../services/store.js';
+import { authenticateRequest } from '../usecases/authenticateRequest.js';
+
+/** Set by the JSON body parser so signed requests can be checked against the exact bytes received */
+export type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer) {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/** The provider a request was authenticated as; only set behind `requireProvider` */
+export function authenticatedProvider(res: Response): ProviderRegistration {
+  return res.locals.provider as ProviderRegistration;
+}
+
+export function authenticatedVia(res: Response): 'apiKey' | 'signature' {
+  return res.locals.authenticatedVia;
+}
+
+/**
+ * Authenticate the calling provider and apply its rate limit. Revoked or
+ * unknown providers get 401; a provider over its limit gets 429 with
+ * Retry-After.
+ */
+export function requireProvider(
+  store: RelayerStore,
+  limiter: RateLimiter,
+  { rateLimitPerMinute, maxSkewSeconds }: { rateLimitPerMinute: number; maxSkewSeconds: number },
+) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    authenticateRequest(store, {
+      authorization: req.header('authorization'),
+      provider: req.header(REQUEST_SIGNATURE_HEADERS.provider),
+      timestamp: req.header(REQUEST_SIGNATURE_HEADERS.timestamp),
+      signature: req.header(REQUEST_SIGNATURE_HEADERS.signature),
+      method: req.method,
+      path: req.originalUrl,
+      body: (req as RawBodyRequest).rawBody ?? '',
+    }, { maxSkewSeconds }).then(result => {
+      if (!result.ok) {
+        return res.status(401).json({ error: { code: result.code, message: result.message } });
+      }
+
+      const limit = result.provider.rateLimitPerMinute ?? rateLimitPerMinute;
+      const taken = limiter.take(result.provider.address.toLowerCase(), limit);
+      if (!taken.allowed) {
+        res.setHeader('Retry-After', String(taken.retryAfterSeconds));
+        return res.status(429).json({
+          error: { code: 'RATE_LIMITED', message: `Limit of ${limit} requests per minute exceeded`, retryAfterSeconds: taken.retryAfterSeconds },
+        });
+      }
+
+      res.locals.provider = result.provider;
+      res.locals.authenticatedVia = result.via;
+      next();
+    }).catch(next);
+  };
+}
+
+/** Whether a request's bearer credential is one of `apiKeys`; never true for an empty list */
+export function apiKeyMatcher(apiKeys: string[]) {
+  const expected = apiKeys.map(key => crypto.createHash('sha256').update(key).digest());
+  return (req: Request) => {
+    const presented = req.header('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? '';
+    const actual = crypto.createHash('sha256').update(presented).digest();
+    return expected.some(key => crypto.timingSafeEqual(actual, key));
+  };
+}
+
+/**
+ * Guard routes with bearer credentials distinct from any provider key; any
+ * one of `apiKeys` is accepted.
+ */
+export function requireApiKey(apiKeys: string[], message: string) {
+  const matches = apiKeyMatcher(apiKeys);
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!matches(req)) {
+      return res.status(401).json({ error: { code: 'UNAUTHENTICATED', message } });
+    }
+    next();
+  };
+}
+
+export function requireAdmin(adminApiKey: string) {
+  return requireApiKey([adminApiKey], 'Admin credential required');
+}
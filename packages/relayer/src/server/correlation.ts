@@ -0,0 +1,32 @@
+import crypto from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { Logger } from '../lib/logger.js';
+import { logger } from '../services/logger.js';
+
+export const CORRELATION_HEADER = 'x-request-id';
+
+// Caller-supplied ids are kept only when they are short and log-safe
+const ACCEPTED_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Give every request a correlation id, taken from X-Request-Id when the
+ * caller sent a usable one, and echo it back. Leaves store it, so the id
+ * can be followed from ingestion to the batch and its anchor transaction.
+ */
+export function correlate(req: Request, res: Response, next: NextFunction) {
+  const requested = req.header(CORRELATION_HEADER);
+  const correlationId = requested && ACCEPTED_ID.test(requested) ? requested : crypto.randomUUID();
+  res.locals.correlationId = correlationId;
+  res.locals.log = logger.child({ correlationId });
+  res.setHeader(CORRELATION_HEADER, correlationId);
+  next();
+}
+
+export function correlationId(res: Response): string {
+  return res.locals.correlationId;
+}
+
+/** The request-scoped logger; only set behind `correlate` */
+export function requestLog(res: Response): Logger {
+  return res.locals.log as Logger;
+}
@@ -0,0 +1,97 @@
+import type { Request, Response } from 'express';
+import { RELAYER_EVENT_TYPES, type EventFeed, type EventFilter, type PublishedEvent, type RelayerEventType } from '../services/events.js';
+import type { ProviderRegistration } from '../services/store.js';
+import { requestLog } from './correlation.js';
+import { invalidQuery } from './routing.js';
+
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+/** Read `?provider=` and `?types=`, each a comma-separated list */
+export function parseEventFilter(query: Request['query']): { ok: true; filter: EventFilter } | { ok: false; message: string } {
+  const filter: EventFilter = {};
+  const { provider, types } = query;
+
+  if (provider !== undefined) {
+    const providers = typeof provider === 'string' ? provider.split(',').map(p => p.trim()) : [];
+    if (providers.length === 0 || !providers.every(p => ADDRESS.test(p))) {
+      return { ok: false, message: 'provider must be an address or a comma-separated list of addresses' };
+    }
+    filter.providers = providers.map(p => p.toLowerCase());
+  }
+  if (types !== undefined) {
+    const list = typeof types === 'string' ? types.split(',').map(t => t.trim()) : [];
+    if (list.length === 0 || !list.every(t => RELAYER_EVENT_TYPES.includes(t as RelayerEventType))) {
+      return { ok: false, message: `types must be a comma-separated list of ${RELAYER_EVENT_TYPES.join(', ')}` };
+    }
+    filter.types = list as RelayerEventType[];
+  }
+  return { ok: true, filter };
+}
+
+function formatEvent(event: PublishedEvent) {
+  const data = JSON.stringify(event, (_key, value: unknown) => (typeof value === 'bigint' ? value.toString() : value));
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`;
+}
+
+/**
+ * GET /events: a server-sent events stream of `feed`. Each event's SSE
+ * `event` field is its type and `data` is the event as JSON. A client that
+ * reconnects with Last-Event-ID is sent the events it missed, as far as the
+ * feed's history reaches. A comment line every `heartbeatMs` keeps proxies
+ * from closing an idle stream.
+ *
+ * A request authenticated as a provider only receives that provider's
+ * events; one without a provider is taken to be an operator and may follow
+ * anyone. A client that stops reading is disconnected once more than
+ * `maxBufferedBytes` are waiting to be sent to it, rather than buffering
+ * the feed in memory; it can reconnect with Last-Event-ID.
+ */
+export function eventStreamHandler(feed: EventFeed, { heartbeatMs = 15_000, maxBufferedBytes = 1024 * 1024 } = {}) {
+  return (req: Request, res: Response) => {
+    const parsed = parseEventFilter(req.query);
+    if (!parsed.ok) return invalidQuery(res, parsed.message);
+    const caller = res.locals.provider as ProviderRegistration | undefined;
+    if (caller) {
+      const own = caller.address.toLowerCase();
+      if (parsed.filter.providers?.some(p => p !== own)) {
+        return res.status(403).json({ error: { code: 'FORBIDDEN', message: 'Providers can only follow their own events' } });
+      }
+      parsed.filter.providers = [own];
+    }
+    const lastEventId = req.get('Last-Event-ID');
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    // write() returning false only means the socket is busy; the client is dropped once the backlog passes the cap
+    const write = (chunk: string) => {
+      if (res.destroyed || res.write(chunk) || res.writableLength <= maxBufferedBytes) return;
+      requestLog(res).warn({ provider: caller?.address, buffered: res.writableLength }, 'Event stream client is not reading; disconnecting');
+      res.destroy();
+    };
+    write(': connected\n\n');
+
+    const heartbeat = setInterval(() => write(': heartbeat\n\n'), heartbeatMs);
+    heartbeat.unref();
+
+    const unsubscribe = feed.subscribe(
+      {
+        filter: parsed.filter,
+        send: event => write(formatEvent(event)),
+        close: () => res.end(),
+      },
+      lastEventId && /^\d+$/.test(lastEventId) ? Number(lastEventId) : undefined,
+    );
+    // The response closes when the client disconnects or the feed ends it
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  };
+}
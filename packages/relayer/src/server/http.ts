@@ -1,29 +1,365 @@
-import express from 'express';
+import express, { type NextFunction, type Request, type Response } from 'express';
 import cors from 'cors';
 import { LeafSchema } from '../domain/leaf.js';
-import { addLeaf, listAnchors } from '../services/state.js';
+import { ProviderRegistrationSchema } from '../domain/provider.js';
+import type { EpochConfig } from '../lib/epochs.js';
+import { events } from '../services/events.js';
+import type { Lifecycle } from '../services/lifecycle.js';
+import { metrics, observeQueueDepth, recordLeafOutcome } from '../services/metrics.js';
+import { RateLimiter } from '../services/rateLimiter.js';
+import { toAnchorRecord, type RelayerStore } from '../services/store.js';
+import { ingestLeaf } from '../usecases/ingestLeaf.js';
+import { ingestLeafBatch, ingestLeafItem, type LeafItemResult } from '../usecases/ingestLeafBatch.js';
+import { buildDisputeEvidence, type AnchorReader } from '../usecases/buildDisputeEvidence.js';
+import { getAnchorRates } from '../usecases/getAnchorRates.js';
+import { getLeafProof } from '../usecases/getLeafProof.js';
+import { registerProvider, toProviderView } from '../usecases/registerProvider.js';
+import { apiKeyMatcher, authenticatedProvider, authenticatedVia, captureRawBody, requireAdmin, requireApiKey, requireProvider } from './auth.js';
+import { correlate, correlationId, requestLog } from './correlation.js';
+import { eventStreamHandler } from './eventStream.js';
+import { NdjsonLineSplitter, type NdjsonLine } from './ndjson.js';
+import { createOpsRouter } from './ops.js';
+import { invalidQuery, nextCursor, parseListQuery, route } from './routing.js';
 
-export function createServer() {
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/;
+
+export type ServerOptions = {
+  nonceRetentionSeconds?: number;
+  /** Set when STRAGGLER_POLICY=reject: leaves for an epoch that has closed are refused */
+  rejectClosedEpochs?: EpochConfig;
+  /** Enables the /admin routes; without it they are not mounted */
+  adminApiKey?: string;
+  /** Read-only credential for the /ops routes, which also accept the admin key; with neither set they are open */
+  opsApiKey?: string;
+  /** Requests per minute per provider, unless its registration overrides it */
+  rateLimitPerMinute?: number;
+  maxRequestBytes?: number;
+  /** Body cap for JSON arrays sent to /leaves/batch; NDJSON streams are capped per line by maxRequestBytes */
+  maxBatchRequestBytes?: number;
+  /** Body cap for NDJSON streams sent to /leaves/batch */
+  maxStreamRequestBytes?: number;
+  maxBatchLeaves?: number;
+  /** How far a signed request's timestamp may be from the relayer's clock */
+  requestMaxAgeSeconds?: number;
+  /** Allowed browser origins; unset allows any */
+  corsOrigins?: string[];
+  /** Names of the configured deployments; registrations naming any other are refused */
+  deployments?: string[];
+  /** Reads anchors from their deployment for the dispute evidence; without it every bundle reports the chain as unreadable */
+  readAnchor?: AnchorReader;
+  /** Drives the readiness probe and refuses leaves while shutting down; without it the server is always ready */
+  lifecycle?: Lifecycle;
+};
+
+export function createServer(store: RelayerStore, {
+  nonceRetentionSeconds = 7 * 24 * 60 * 60,
+  rejectClosedEpochs,
+  adminApiKey,
+  opsApiKey,
+  rateLimitPerMinute = 120,
+  maxRequestBytes = 64 * 1024,
+  maxBatchRequestBytes = 4 * 1024 * 1024,
+  maxStreamRequestBytes = 64 * 1024 * 1024,
+  maxBatchLeaves = 1000,
+  requestMaxAgeSeconds = 300,
+  corsOrigins,
+  deployments,
+  readAnchor = async () => { throw new Error('No chain to read anchors from'); },
+  lifecycle,
+}: ServerOptions = {}) {
   const app = express();
-  app.use(cors());
-  app.use(express.json());
+  const authenticate = requireProvider(store, new RateLimiter(), { rateLimitPerMinute, maxSkewSeconds: requestMaxAgeSeconds });
+
+  // Checked before the body is read, so a draining relayer does not parse leaves it will refuse
+  const acceptingLeaves = (_req: Request, res: Response, next: NextFunction) => {
+    if (!lifecycle || lifecycle.acceptingLeaves) return next();
+    res.set('Retry-After', '5').status(503).json({
+      error: { code: 'SHUTTING_DOWN', message: 'Relayer is shutting down; retry against another instance or after restart' },
+    });
+  };
+
+  app.use(cors({ origin: corsOrigins ?? '*', exposedHeaders: ['X-Request-Id'] }));
+  app.use(correlate);
+  // Usage totals are bigint; serialize them as decimal strings
+  app.set('json replacer', (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value));
+
+  // Registered ahead of the app-wide body parser so that it gets the larger batch limit
+  app.post('/leaves/batch', acceptingLeaves, express.json({ limit: maxBatchRequestBytes, verify: captureRawBody }), authenticate, route(async (req, res) => {
+    const provider = authenticatedProvider(res);
+    const options = { nonceRetentionSeconds, rejectClosedEpochs, provider, correlationId: correlationId(res) };
+
+    if (req.is('application/x-ndjson')) {
+      // The body is consumed while it is ingested, so it cannot be covered by a request signature
+      if (authenticatedVia(res) !== 'apiKey') {
+        return res.status(401).json({
+          error: { code: 'UNAUTHENTICATED', message: 'NDJSON submissions must authenticate with an API key' },
+        });
+      }
+      if (Number(req.get('content-length') ?? 0) > maxStreamRequestBytes) {
+        return res.status(413).json({
+          error: { code: 'PAYLOAD_TOO_LARGE', message: `NDJSON streams are limited to ${maxStreamRequestBytes} bytes` },
+        });
+      }
+      return streamLeaves(req, res, (index, raw) => ingestLeafItem(store, index, raw, options), {
+        maxLineBytes: maxRequestBytes,
+        maxTotalBytes: maxStreamRequestBytes,
+      });
+    }
+
+    if (!Array.isArray(req.body)) {
+      return res.status(400).json({
+        error: { code: 'INVALID_BATCH', message: 'Expected a JSON array of leaves or an application/x-ndjson stream' },
+      });
+    }
+    if (req.body.length > maxBatchLeaves) {
+      return res.status(413).json({
+        error: { code: 'BATCH_TOO_LARGE', message: `At most ${maxBatchLeaves} leaves per request; use NDJSON for larger backfills` },
+      });
+    }
+    const result = await ingestLeafBatch(store, req.body, options);
+    requestLog(res).info({ provider: provider.address, ...result.summary }, 'Leaf batch ingested');
+    res.json(result);
+  }));
+
+  app.use(express.json({ limit: maxRequestBytes, verify: captureRawBody }));
 
-  app.get('/health', (_req, res) => res.json({ ok: true }));
+  // Liveness: the process serves requests, including while it drains. /health is kept for existing probes
+  const live = (_req: Request, res: Response) => res.json({ ok: true, state: lifecycle?.state ?? 'ready' });
+  app.get('/health', live);
+  app.get('/health/live', live);
 
-  app.post('/leaves', (req, res) => {
+  // Readiness: send leaves here; false while starting up and from the moment shutdown begins
+  app.get('/health/ready', (_req, res) => {
+    const state = lifecycle?.state ?? 'ready';
+    res.status(state === 'ready' ? 200 : 503).json({ ok: state === 'ready', state });
+  });
+
+  app.get('/metrics', route(async (req, res) => {
+    await observeQueueDepth(store);
+    if (req.query.format === 'json') return res.json({ metrics: metrics.snapshot() });
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8').send(metrics.render());
+  }));
+
+  app.post('/leaves', acceptingLeaves, authenticate, route(async (req, res) => {
+    const log = requestLog(res);
     const parse = LeafSchema.safeParse(req.body);
     if (!parse.success) {
+      recordLeafOutcome('rejected', 'INVALID_LEAF');
+      events.publish({
+        type: 'leaf.rejected',
+        provider: authenticatedProvider(res).address,
+        code: 'INVALID_LEAF',
+        message: 'Leaf failed schema validation',
+        correlationId: correlationId(res),
+      });
+      log.warn({ code: 'INVALID_LEAF' }, 'Leaf rejected');
       return res.status(400).json({ error: parse.error.flatten() });
     }
-    addLeaf(parse.data);
+    const leaf = parse.data;
+    const result = await ingestLeaf(store, leaf, {
+      nonceRetentionSeconds,
+      rejectClosedEpochs,
+      provider: authenticatedProvider(res),
+      correlationId: correlationId(res),
+    });
+    const fields = { provider: leaf.provider, nodeId: leaf.nodeId, nonce: leaf.nonce, windowEnd: leaf.windowEnd };
+    if (result.status === 'rejected') {
+      log.warn({ ...fields, code: result.code }, 'Leaf rejected');
+      return res.status(result.httpStatus).json({
+        error: { code: result.code, message: result.message, ...result.details },
+      });
+    }
+    if (result.status === 'duplicate') {
+      log.info({ ...fields, leafId: result.leafId }, 'Duplicate leaf ignored');
+      return res.status(200).json({ status: 'duplicate' });
+    }
+    log.info({ ...fields, leafId: result.leaf.id }, 'Leaf queued');
     res.status(202).json({ status: 'queued' });
-  });
+  }));
+
+  app.get('/anchors', route(async (req, res) => {
+    const list = parseListQuery(req.query);
+    if (!list.ok) return invalidQuery(res, list.message);
+    const anchors = await store.listAnchors(list.query);
+    res.json({ anchors, nextCursor: nextCursor(anchors.map(a => a.batchId), list.query.limit) });
+  }));
 
-  app.get('/anchors', (_req, res) => {
-    res.json({ anchors: listAnchors() });
+  app.get('/anchors/:anchorId', route(async (req, res) => {
+    const { anchorId } = req.params;
+    if (!BYTES32.test(anchorId)) return invalidQuery(res, 'Expected a bytes32 anchorId');
+    const batch = await store.findBatchByAnchorId(anchorId as `0x${string}`);
+    if (batch?.status !== 'confirmed') {
+      return res.status(404).json({ error: { code: 'ANCHOR_NOT_FOUND', message: `No anchor ${anchorId} known to this relayer` } });
+    }
+    res.json(toAnchorRecord(batch));
+  }));
+
+  app.get('/anchors/:anchorId/proof', route(async (req, res) => {
+    const { anchorId } = req.params;
+    const nonce = typeof req.query.nonce === 'string' ? req.query.nonce : undefined;
+    const leafHash = typeof req.query.leafHash === 'string' ? req.query.leafHash : undefined;
+    if (!BYTES32.test(anchorId) || (leafHash !== undefined && !BYTES32.test(leafHash)) || (!nonce && !leafHash)) {
+      return invalidQuery(res, 'Expected a bytes32 anchorId and either ?nonce= or a bytes32 ?leafHash=');
+    }
+
+    const result = await getLeafProof(
+      store,
+      anchorId as `0x${string}`,
+      nonce ? { nonce } : { leafHash: leafHash as `0x${string}` },
+    );
+    if (!result.ok) {
+      const status = result.code === 'ROOT_MISMATCH' ? 500 : 404;
+      return res.status(status).json({ error: { code: result.code, message: result.message } });
+    }
+    res.json(result.proof);
+  }));
+
+  app.get('/anchors/:anchorId/rates', route(async (req, res) => {
+    const { anchorId } = req.params;
+    if (!BYTES32.test(anchorId)) return invalidQuery(res, 'Expected a bytes32 anchorId');
+    const result = await getAnchorRates(store, anchorId as `0x${string}`);
+    if (!result.ok) {
+      return res.status(result.code === 'ROOT_MISMATCH' ? 500 : 404).json({ error: { code: result.code, message: result.message } });
+    }
+    res.json(result.rates);
+  }));
+
+  app.get('/disputes', route(async (req, res) => {
+    const list = parseListQuery(req.query);
+    if (!list.ok) return invalidQuery(res, list.message);
+    const { open } = req.query;
+    if (open !== undefined && open !== 'true' && open !== 'false') return invalidQuery(res, 'open must be true or false');
+
+    const disputes = await store.listDisputes({ ...list.query, open: open === undefined ? undefined : open === 'true' });
+    res.json({ disputes, nextCursor: nextCursor(disputes.map(d => d.id), list.query.limit) });
+  }));
+
+  app.get('/disputes/:anchorId/evidence', route(async (req, res) => {
+    const { anchorId } = req.params;
+    if (!BYTES32.test(anchorId)) return invalidQuery(res, 'Expected a bytes32 anchorId');
+    const result = await buildDisputeEvidence(store, anchorId as `0x${string}`, readAnchor);
+    if (!result.ok) return res.status(404).json({ error: { code: result.code, message: result.message } });
+    res.json(result.evidence);
+  }));
+
+  const opsKeys = [opsApiKey, adminApiKey].filter((key): key is string => !!key);
+
+  // Operators follow every provider; anyone else must authenticate as a provider and is scoped to it
+  const isOperator = apiKeyMatcher(opsKeys);
+  app.get('/events', (req, res, next) => (isOperator(req) ? next() : authenticate(req, res, next)), eventStreamHandler(events));
+
+  app.use('/ops', ...(opsKeys.length ? [requireApiKey(opsKeys, 'Operator credential required')] : []), createOpsRouter(store));
+
+  if (adminApiKey) {
+    const admin = express.Router();
+    admin.use(requireAdmin(adminApiKey));
+
+    admin.get('/providers', route(async (_req, res) => {
+      res.json({ providers: (await store.listProviders()).map(toProviderView) });
+    }));
+
+    admin.post('/providers', route(async (req, res) => {
+      const parse = ProviderRegistrationSchema.safeParse(req.body);
+      if (!parse.success) {
+        return res.status(400).json({ error: parse.error.flatten() });
+      }
+      const { deployment } = parse.data;
+      if (deployment !== undefined && deployments && !deployments.includes(deployment)) {
+        return res.status(400).json({
+          error: { code: 'UNKNOWN_DEPLOYMENT', message: `No deployment "${deployment}"; configured: ${deployments.join(', ')}` },
+        });
+      }
+      res.status(201).json(await registerProvider(store, parse.data));
+    }));
+
+    admin.delete('/providers/:address', route(async (req, res) => {
+      if (!(await store.revokeProvider(req.params.address))) {
+        return res.status(404).json({
+          error: { code: 'PROVIDER_NOT_FOUND', message: `No active provider ${req.params.address}` },
+        });
+      }
+      res.json({ status: 'revoked' });
+    }));
+
+    app.use('/admin', admin);
+  }
+
+  // Body parser failures (oversized or malformed JSON) carry the status to answer with
+  app.use((err: Error & { status?: number; type?: string; limit?: number }, _req: Request, res: Response, next: NextFunction) => {
+    if (err.type === 'entity.too.large') {
+      return res.status(413).json({ error: { code: 'PAYLOAD_TOO_LARGE', message: `Request body exceeds ${err.limit ?? maxRequestBytes} bytes` } });
+    }
+    if (err.type === 'entity.parse.failed') {
+      return res.status(400).json({ error: { code: 'INVALID_JSON', message: err.message } });
+    }
+    next(err);
   });
 
   return app;
 }
 
+/**
+ * Ingest an NDJSON body one line at a time, answering with one NDJSON
+ * result per entry as it is processed and a final summary line. Blank lines
+ * are skipped and do not count towards `index`. The limits are enforced on
+ * the raw bytes, so neither a line without an end nor an endless body can
+ * fill memory; a body over `maxTotalBytes` stops ingestion with an in-band
+ * error after the lines before it.
+ */
+async function streamLeaves(
+  req: Request,
+  res: Response,
+  ingest: (index: number, raw: unknown) => Promise<LeafItemResult>,
+  limits: { maxLineBytes: number; maxTotalBytes: number },
+) {
+  res.status(200).type('application/x-ndjson');
+  const summary = { received: 0, accepted: 0, rejected: 0 };
+  const log = requestLog(res);
+  const write = (result: LeafItemResult) => {
+    summary.received++;
+    summary[result.status === 'rejected' ? 'rejected' : 'accepted']++;
+    res.write(`${JSON.stringify(result)}\n`);
+  };
+  // For lines that never reach ingestion; ingestLeafItem reports the rest
+  const rejectLine = (index: number, code: 'PAYLOAD_TOO_LARGE' | 'INVALID_JSON', message: string) => {
+    recordLeafOutcome('rejected', code);
+    events.publish({ type: 'leaf.rejected', provider: authenticatedProvider(res).address, code, message, correlationId: correlationId(res) });
+    write({ index, status: 'rejected', code, message });
+  };
 
+  const lines = new NdjsonLineSplitter(limits);
+  req.on('error', err => lines.destroy(err));
+  req.pipe(lines);
+  try {
+    for await (const item of lines as AsyncIterable<NdjsonLine>) {
+      if ('streamTooLarge' in item) {
+        // Stop reading; Node discards the rest of the body once the response has ended
+        req.unpipe(lines);
+        const message = `NDJSON streams are limited to ${limits.maxTotalBytes} bytes`;
+        log.warn({ maxBytes: limits.maxTotalBytes, ...summary }, 'NDJSON leaf stream over the size limit');
+        res.end(`${JSON.stringify({ error: { code: 'PAYLOAD_TOO_LARGE', message }, summary })}\n`);
+        return;
+      }
+      const index = summary.received;
+      if ('oversized' in item) {
+        rejectLine(index, 'PAYLOAD_TOO_LARGE', `Line exceeds ${limits.maxLineBytes} bytes`);
+        continue;
+      }
+      if (!item.line.trim()) continue;
+      let raw: unknown;
+      try {
+        raw = JSON.parse(item.line);
+      } catch (err) {
+        rejectLine(index, 'INVALID_JSON', err instanceof Error ? err.message : String(err));
+        continue;
+      }
+      write(await ingest(index, raw));
+    }
+    log.info(summary, 'Leaf stream ingested');
+    res.end(`${JSON.stringify({ summary })}\n`);
+  } catch (err) {
+    // Headers are already sent; report the failure in-band so the client knows where the stream stopped
+    log.error({ err, ...summary }, 'NDJSON leaf stream failed');
+    res.end(`${JSON.stringify({ error: { code: 'STREAM_FAILED', message: 'Ingestion stopped after an internal error' }, summary })}\n`);
+  }
+}
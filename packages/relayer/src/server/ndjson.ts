@@ -0,0 +1,81 @@
+import { Transform, type TransformCallback } from 'node:stream';
+
+/**
+ * One line of an NDJSON body; a marker for a line dropped for being over
+ * the line limit; or the last item, once the body went over the total limit.
+ */
+export type NdjsonLine = { line: string } | { oversized: true } | { streamTooLarge: true };
+
+/**
+ * Split a raw NDJSON body into lines while enforcing byte limits on the
+ * bytes themselves, so no limit depends on a line having ended. Bytes of a
+ * line over `maxLineBytes` are dropped as they arrive and the line comes out
+ * as `{ oversized: true }`. Once more than `maxTotalBytes` have been read, the
+ * lines that ended within the limit are followed by `{ streamTooLarge: true }`
+ * and the output ends; anything written after that is discarded. Blank lines
+ * are passed through.
+ */
+export class NdjsonLineSplitter extends Transform {
+  private parts: Buffer[] = [];
+  private lineBytes = 0;
+  private oversized = false;
+  private totalBytes = 0;
+  private stopped = false;
+
+  constructor(private limits: { maxLineBytes: number; maxTotalBytes: number }) {
+    super({ readableObjectMode: true });
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+    if (this.stopped) return callback();
+    const allowed = this.limits.maxTotalBytes - this.totalBytes;
+    this.totalBytes += chunk.length;
+    if (chunk.length <= allowed) {
+      this.split(chunk);
+      return callback();
+    }
+    this.split(chunk.subarray(0, allowed));
+    this.stopped = true;
+    this.push({ streamTooLarge: true });
+    this.push(null);
+    callback();
+  }
+
+  override _flush(callback: TransformCallback) {
+    if (!this.stopped && (this.lineBytes > 0 || this.oversized)) this.endLine();
+    callback();
+  }
+
+  private split(chunk: Buffer) {
+    let start = 0;
+    for (let end = chunk.indexOf(0x0a); end !== -1; end = chunk.indexOf(0x0a, start)) {
+      this.append(chunk.subarray(start, end));
+      this.endLine();
+      start = end + 1;
+    }
+    this.append(chunk.subarray(start));
+  }
+
+  private append(part: Buffer) {
+    if (this.oversized || part.length === 0) return;
+    this.lineBytes += part.length;
+    if (this.lineBytes > this.limits.maxLineBytes) {
+      this.oversized = true;
+      this.parts = [];
+      return;
+    }
+    this.parts.push(part);
+  }
+
+  private endLine() {
+    if (this.oversized) {
+      this.push({ oversized: true });
+    } else {
+      const line = Buffer.concat(this.parts).toString('utf8');
+      this.push({ line: line.endsWith('\r') ? line.slice(0, -1) : line });
+    }
+    this.parts = [];
+    this.lineBytes = 0;
+    this.oversized = false;
+  }
+}
@@ -0,0 +1,57 @@
+import express from 'express';
+import type { BatchStatus, RelayerStore } from '../services/store.js';
+import { getPendingLeaves } from '../usecases/getPendingLeaves.js';
+import { getProviderStats, listProviderStats } from '../usecases/getProviderStats.js';
+import { invalidQuery, nextCursor, parseListQuery, route } from './routing.js';
+
+const BATCH_STATUSES: BatchStatus[] = ['pending', 'confirmed', 'failed'];
+
+/**
+ * Read-only views of what the relayer is doing: the pending queue, batch
+ * history with transaction status, and per-provider activity. Mounted at
+ * /ops; the caller decides how it is guarded.
+ */
+export function createOpsRouter(store: RelayerStore) {
+  const ops = express.Router();
+
+  ops.get('/pending', route(async (_req, res) => {
+    res.json(await getPendingLeaves(store));
+  }));
+
+  ops.get('/batches', route(async (req, res) => {
+    const list = parseListQuery(req.query);
+    if (!list.ok) return invalidQuery(res, list.message);
+    const status = req.query.status;
+    if (status !== undefined && !BATCH_STATUSES.includes(status as BatchStatus)) {
+      return invalidQuery(res, `status must be one of ${BATCH_STATUSES.join(', ')}`);
+    }
+
+    const batches = await store.listBatchHistory({ ...list.query, status: status as BatchStatus | undefined });
+    res.json({ batches, nextCursor: nextCursor(batches.map(b => b.id), list.query.limit) });
+  }));
+
+  ops.get('/batches/:batchId', route(async (req, res) => {
+    const batchId = Number(req.params.batchId);
+    const batch = Number.isInteger(batchId) ? await store.getBatch(batchId) : undefined;
+    if (!batch) {
+      return res.status(404).json({ error: { code: 'BATCH_NOT_FOUND', message: `No batch ${req.params.batchId}` } });
+    }
+    res.json({ batch, leaves: await store.listBatchLeaves(batch.id) });
+  }));
+
+  ops.get('/providers', route(async (_req, res) => {
+    res.json({ providers: await listProviderStats(store) });
+  }));
+
+  ops.get('/providers/:address', route(async (req, res) => {
+    const stats = await getProviderStats(store, req.params.address);
+    if (!stats) {
+      return res.status(404).json({
+        error: { code: 'PROVIDER_NOT_FOUND', message: `No registration or leaves for ${req.params.address}` },
+      });
+    }
+    res.json(stats);
+  }));
+
+  return ops;
+}
@@ -0,0 +1,51 @@
+import type { NextFunction, Request, Response } from 'express';
+
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+// Express 4 does not forward rejected promises to the error handler on its own
+export function route(handler: (req: Request, res: Response) => Promise<unknown>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
+
+export type ListQuery = { limit: number; beforeId?: number; provider?: string };
+
+/**
+ * Read `?limit=`, `?cursor=` and `?provider=` from a listing request. The
+ * cursor is the `nextCursor` of the previous page.
+ */
+export function parseListQuery(
+  query: Request['query'],
+  { defaultLimit = 100, maxLimit = 500 } = {},
+): { ok: true; query: ListQuery } | { ok: false; message: string } {
+  const { limit, cursor, provider } = query;
+  const parsed: ListQuery = { limit: defaultLimit };
+
+  if (limit !== undefined) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > maxLimit) {
+      return { ok: false, message: `limit must be an integer between 1 and ${maxLimit}` };
+    }
+    parsed.limit = value;
+  }
+  if (cursor !== undefined) {
+    const value = Number(cursor);
+    if (!Number.isInteger(value) || value < 1) return { ok: false, message: 'cursor must be a value returned as nextCursor' };
+    parsed.beforeId = value;
+  }
+  if (provider !== undefined) {
+    if (typeof provider !== 'string' || !ADDRESS.test(provider)) return { ok: false, message: 'provider must be an address' };
+    parsed.provider = provider;
+  }
+  return { ok: true, query: parsed };
+}
+
+/** The cursor for the page after one that returned `ids`; absent once the listing is exhausted */
+export function nextCursor(ids: number[], limit: number): string | undefined {
+  return ids.length === limit ? String(ids[ids.length - 1]) : undefined;
+}
+
+export function invalidQuery(res: Response, message: string) {
+  return res.status(400).json({ error: { code: 'INVALID_QUERY', message } });
+}
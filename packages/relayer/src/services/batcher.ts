@@ -1,57 +1,458 @@
-import { loadEnv } from '../config/env.js';
-import { buildMerkleRoot, hashLeafCanonicalJson } from '../lib/merkle.js';
-import { drainLeavesForWindow, recordAnchor } from './state.js';
-import { submitAnchor } from '../usecases/submitAnchor.js';
+import { buildMerkleRoot, hashUsageLeaf, type MerkleTreeVersion } from '@edgecharge/shared';
+import { loadEnv, resolveBatchPolicyDefaults, resolveDryRun, resolveEpochConfig, type StragglerPolicy } from '../config/env.js';
+import { resolveBatchPolicy, type AppliedBatchPolicy, type ResolvedBatchPolicy } from '../domain/batchPolicy.js';
+import type { Leaf } from '../domain/leaf.js';
+import { usageAnchorsFunction } from '../contracts/edgeCharge.js';
+import { computeAnchorId } from '../lib/anchorId.js';
+import { epochCloseOf, epochEndOf, lastClosedEpochEnd, type EpochConfig } from '../lib/epochs.js';
+import type { Logger } from '../lib/logger.js';
+import type { BatchRecord, RelayerStore, StoredLeaf } from './store.js';
+import { dryRunAnchor, type DryRunOptions } from '../usecases/dryRunAnchor.js';
+import { submitAnchor, type AnchorTarget } from '../usecases/submitAnchor.js';
+import { getDeployment, type Deployment } from './deployments.js';
+import { events } from './events.js';
+import type { Worker } from './lifecycle.js';
+import { logger } from './logger.js';
+import { anchorGasUsed, anchorTxSeconds, batchSize, heldLeaves, leafWindowPaths, merkleBuildSeconds } from './metrics.js';
+import { errorType, isRevertError } from './txManager.js';
 
-export function startBatcher() {
+export type LeafGroup<L extends Leaf = Leaf> = {
+  provider: `0x${string}`;
+  rateId?: string;
+  leaves: L[];
+};
+
+/**
+ * Split drained leaves into one group per provider (and per rateId when
+ * `byRateId` is set). Each group becomes its own anchor, so usage is never
+ * credited to a provider that did not sign it.
+ */
+export function groupLeaves<L extends Leaf>(leaves: L[], { byRateId = false } = {}): LeafGroup<L>[] {
+  const groups = new Map<string, LeafGroup<L>>();
+  for (const leaf of leaves) {
+    const provider = leaf.provider.toLowerCase() as `0x${string}`;
+    const key = byRateId ? `${provider}:${leaf.rateId}` : provider;
+    let group = groups.get(key);
+    if (!group) {
+      group = { provider: leaf.provider as `0x${string}`, rateId: byRateId ? leaf.rateId : undefined, leaves: [] };
+      groups.set(key, group);
+    }
+    group.leaves.push(leaf);
+  }
+  return [...groups.values()];
+}
+
+/** A group to anchor for one epoch; `catchUp` groups hold only leaves that missed their epoch */
+export type EpochGroup = LeafGroup<StoredLeaf> & {
+  epochEnd: number;
+  catchUp: boolean;
+  /** Leaves that arrived after their own epoch closed and were rolled into this one */
+  rolledOver: number;
+};
+
+/**
+ * Decide which anchor each pending leaf goes into once `closedEpochEnd` has
+ * closed. Leaves that arrived before their epoch's grace period ended are
+ * anchored with that epoch, even if the relayer only gets to it later (e.g.
+ * after downtime). Stragglers, which arrived after their epoch closed,
+ * follow `policy`: `next_epoch` adds them to the epoch closing now,
+ * `catch_up` anchors them separately per epoch. Under `reject` they are
+ * refused at ingestion, so any found here only just missed the boundary and
+ * are anchored with their own epoch.
+ */
+export function planEpochGroups(
+  leaves: StoredLeaf[],
+  closedEpochEnd: number,
+  { policy, byRateId = false, ...epochs }: EpochConfig & { policy: StragglerPolicy; byRateId?: boolean },
+): EpochGroup[] {
+  const buckets = new Map<string, { epochEnd: number; catchUp: boolean; leaves: StoredLeaf[]; rolledOver: Set<number> }>();
+  for (const leaf of leaves) {
+    const ownEpoch = epochEndOf(leaf.windowEnd, epochs.epochSeconds);
+    const straggler = ownEpoch < closedEpochEnd && leaf.receivedAt / 1000 > epochCloseOf(leaf.windowEnd, epochs);
+    const rolled = straggler && policy === 'next_epoch';
+    const catchUp = straggler && policy === 'catch_up';
+    const epochEnd = rolled ? closedEpochEnd : ownEpoch;
+
+    const key = `${epochEnd}:${catchUp}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { epochEnd, catchUp, leaves: [], rolledOver: new Set() };
+      buckets.set(key, bucket);
+    }
+    bucket.leaves.push(leaf);
+    if (rolled) bucket.rolledOver.add(leaf.id);
+  }
+
+  return [...buckets.values()]
+    .sort((a, b) => a.epochEnd - b.epochEnd || Number(a.catchUp) - Number(b.catchUp))
+    .flatMap(({ epochEnd, catchUp, leaves, rolledOver }) =>
+      groupLeaves(leaves, { byRateId }).map(group => ({
+        ...group,
+        epochEnd,
+        catchUp,
+        rolledOver: group.leaves.filter(l => rolledOver.has(l.id)).length,
+      })),
+    );
+}
+
+export type LeafWindowPath = 'on_time' | 'rolled_over' | 'catch_up';
+
+/** The leaves of one anchor, as released by the provider's batch policy */
+export type PolicyBatch = LeafGroup<StoredLeaf> & {
+  /** The latest epoch among the leaves */
+  epochEnd: number;
+  /** Leaves per anchoring path, for relayer_leaf_window_path_total */
+  paths: Record<LeafWindowPath, number>;
+  policy: AppliedBatchPolicy;
+};
+
+/** Leaves of one (provider, rateId) kept pending because they are short of minUsage */
+export type HeldGroup = LeafGroup<StoredLeaf> & {
+  usage: bigint;
+  /** When the oldest of them was received, in ms */
+  oldestReceivedAt: number;
+  policy: ResolvedBatchPolicy;
+};
+
+/**
+ * Apply each provider's batch policy to the groups of one tick. The groups
+ * of a (provider, rateId) are taken in epoch order, and one short of
+ * minUsage is carried into the next. Whatever is still short after the
+ * last group is held, unless its oldest leaf was received maxWaitSeconds
+ * ago or more, in which case it is anchored anyway. Held leaves stay
+ * pending, so the next tick weighs them again with what arrived since.
+ * Every released group is split into anchors of at most maxLeaves leaves,
+ * in arrival order.
+ */
+export function applyBatchPolicy(
+  groups: EpochGroup[],
+  { policyOf, epochSeconds, nowSeconds }: {
+    policyOf: (provider: `0x${string}`) => ResolvedBatchPolicy;
+    epochSeconds: number;
+    nowSeconds: number;
+  },
+): { batches: PolicyBatch[]; held: HeldGroup[] } {
+  const batches: PolicyBatch[] = [];
+  const held: HeldGroup[] = [];
+  const byKey = new Map<string, EpochGroup[]>();
+  for (const group of groups) {
+    const key = `${group.provider.toLowerCase()}:${group.rateId ?? ''}`;
+    byKey.set(key, [...(byKey.get(key) ?? []), group]);
+  }
+
+  for (const keyGroups of byKey.values()) {
+    const { provider, rateId } = keyGroups[0];
+    const policy = policyOf(provider);
+    const paths = new Map<number, LeafWindowPath>();
+    const release = (leaves: StoredLeaf[], epochEnd: number, trigger: AppliedBatchPolicy['trigger']) => {
+      const ordered = [...leaves].sort((a, b) => a.id - b.id);
+      const size = policy.maxLeaves ?? ordered.length;
+      for (let i = 0; i < ordered.length; i += size) {
+        const chunk = ordered.slice(i, i + size);
+        const counts: Record<LeafWindowPath, number> = { on_time: 0, rolled_over: 0, catch_up: 0 };
+        for (const leaf of chunk) counts[paths.get(leaf.id)!]++;
+        batches.push({ provider, rateId, leaves: chunk, epochEnd, paths: counts, policy: { ...policy, trigger } });
+      }
+    };
+
+    let carried: StoredLeaf[] = [];
+    for (const group of keyGroups) {
+      for (const leaf of group.leaves) {
+        const rolled = !group.catchUp && epochEndOf(leaf.windowEnd, epochSeconds) < group.epochEnd;
+        paths.set(leaf.id, group.catchUp ? 'catch_up' : rolled ? 'rolled_over' : 'on_time');
+      }
+      const leaves = [...carried, ...group.leaves];
+      if (usageOf(leaves) >= BigInt(policy.minUsage)) {
+        release(leaves, group.epochEnd, 'ready');
+        carried = [];
+      } else {
+        carried = leaves;
+      }
+    }
+    if (carried.length === 0) continue;
+
+    const oldestReceivedAt = Math.min(...carried.map(l => l.receivedAt));
+    if (nowSeconds - oldestReceivedAt / 1000 >= policy.maxWaitSeconds) {
+      release(carried, keyGroups[keyGroups.length - 1].epochEnd, 'max_wait');
+    } else {
+      held.push({ provider, rateId, leaves: carried, usage: usageOf(carried), oldestReceivedAt, policy });
+    }
+  }
+  return { batches, held };
+}
+
+function usageOf(leaves: Leaf[]) {
+  return leaves.reduce((a, l) => a + BigInt(l.unitsConsumed), 0n);
+}
+
+/**
+ * Build the Merkle tree for a group in `treeVersion` format and persist it
+ * as a pending batch for the provider's deployment. From here on the batch survives restarts
+ * until it is confirmed or failed.
+ */
+async function createGroupBatch(
+  store: RelayerStore,
+  { provider, rateId, leaves, policy }: LeafGroup<StoredLeaf> & { policy?: AppliedBatchPolicy },
+  treeVersion: MerkleTreeVersion,
+) {
+  const deployment = (await store.getProvider(provider))?.deployment;
+  const windowStart = Math.min(...leaves.map(l => l.windowStart));
+  const windowEnd = Math.max(...leaves.map(l => l.windowEnd));
+  const totalUsage = usageOf(leaves);
+
+  const stopTimer = merkleBuildSeconds.startTimer();
+  const merkleRoot = buildMerkleRoot(leaves.map(l => hashUsageLeaf(l, treeVersion)), treeVersion);
+  stopTimer();
+
+  const batch = await store.createBatch(
+    { provider, rateId, deployment, windowStart, windowEnd, merkleRoot, treeVersion, totalUsage, policy },
+    leaves.map(l => l.id),
+  );
+  batchSize.observe({}, leaves.length);
+  events.publish({
+    type: 'batch.built',
+    batchId: batch.id,
+    provider,
+    rateId,
+    deployment,
+    windowStart,
+    windowEnd,
+    leafCount: leaves.length,
+    totalUsage,
+    merkleRoot,
+  });
+  return batch;
+}
+
+/**
+ * Logger for everything that happens to a batch. It carries the correlation
+ * ids of the requests that delivered its leaves, so a request id leads to
+ * the anchor transaction.
+ */
+function batchLog(batch: BatchRecord, leaves: StoredLeaf[]): Logger {
+  const correlationIds = [...new Set(leaves.flatMap(l => (l.correlationId ? [l.correlationId] : [])))];
+  return logger.child({ batchId: batch.id, deployment: batch.deployment, correlationIds });
+}
+
+/**
+ * Submit a batch and record the outcome. Transient failures put the batch
+ * back in the pending pool until it has used `maxAttempts` submissions;
+ * a revert is final because resending the same call cannot succeed. A
+ * batch that reverted keeps its leaves, parked for diagnosis, since the
+ * same leaves would revert again; one given up on after transient failures
+ * returns its leaves to the pending pool, to be batched again next epoch,
+ * but only once none of its transactions can still land (see
+ * canRequeueLeaves); until then it stays pending. With
+ * `dryRun` the anchor is simulated or journaled instead of sent, and the
+ * batch is confirmed without a transaction.
+ */
+async function submitBatch(store: RelayerStore, batch: BatchRecord, maxAttempts: number, log: Logger, dryRun?: DryRunOptions) {
+  const { provider, rateId, windowStart, windowEnd, merkleRoot, totalUsage } = batch;
+  const batchEvent = { batchId: batch.id, provider, deployment: batch.deployment };
+  const stopTimer = anchorTxSeconds.startTimer();
+  let target: Deployment | undefined;
+  try {
+    // A deployment removed from the configuration fails here and is retried like any other error
+    target = getDeployment(batch.deployment);
+    events.publish({ type: 'anchor.submitted', ...batchEvent, attempt: batch.attempts + 1 });
+    const payload = { provider, windowStart, windowEnd, merkleRoot, totalUsage };
+    const submission = dryRun ? await dryRunAnchor(payload, target, dryRun, log) : await submitAnchor(payload, target, log);
+    if (submission.status !== 'success') {
+      stopTimer({ outcome: 'reverted' });
+      if (submission.gasUsed !== undefined) anchorGasUsed.inc({ outcome: 'reverted' }, Number(submission.gasUsed));
+      const reason = `Anchor transaction ${submission.txHash} reverted`;
+      await store.markBatchFailed(batch.id, reason);
+      events.publish({ type: 'anchor.failed', ...batchEvent, error: reason, willRetry: false });
+      log.error({ tx: submission.txHash, provider, rateId }, 'Anchor transaction reverted');
+      return;
+    }
+    const { anchorId, txHash, blockNumber, gasUsed, alreadyAnchored, dryRun: dryRunMode } = submission;
+    stopTimer({ outcome: dryRunMode ? 'dry_run' : alreadyAnchored ? 'already_anchored' : 'success' });
+    // An anchor found on chain was paid for by an earlier submission
+    if (!alreadyAnchored && gasUsed !== undefined) anchorGasUsed.inc({ outcome: 'success' }, Number(gasUsed));
+    await store.markBatchConfirmed(batch.id, { anchorId, txHash, blockNumber, gasUsed, dryRun: dryRunMode });
+    events.publish({
+      type: 'anchor.confirmed',
+      ...batchEvent,
+      anchorId,
+      txHash,
+      blockNumber,
+      totalUsage,
+      alreadyAnchored: alreadyAnchored ?? false,
+      dryRun: dryRunMode,
+    });
+    log.info(
+      { anchorId, tx: txHash, blockNumber, gasUsed, provider, rateId, windowStart, windowEnd, totalUsage, merkleRoot, dryRun: dryRunMode },
+      dryRunMode ? 'Anchor dry run recorded' : alreadyAnchored ? 'Anchor already on chain' : 'Anchored usage',
+    );
+  } catch (err) {
+    stopTimer({ outcome: 'error' });
+    const message = err instanceof Error ? err.message : String(err);
+    const transient = !isRevertError(err);
+    // Leaves of a batch given up on stay out of new anchors while one of its transactions may still land
+    const keepPending = transient
+      && (batch.attempts + 1 < maxAttempts || (target !== undefined && !(await canRequeueLeaves(target, batch, log))));
+    if (keepPending) {
+      await store.markBatchRetry(batch.id, message);
+      events.publish({ type: 'anchor.failed', ...batchEvent, error: message, willRetry: true });
+      log.warn({ provider, rateId, attempt: batch.attempts + 1, reason: message }, 'Anchor submit failed, batch returned to pending');
+      return;
+    }
+    // Without its deployment nothing can be checked on chain, so the leaves are parked like a revert's
+    await store.markBatchFailed(batch.id, message, { requeueLeaves: transient && target !== undefined });
+    events.publish({ type: 'anchor.failed', ...batchEvent, error: message, willRetry: false });
+    log.error({ provider, rateId, leaves: batch.leafCount, err }, 'Anchor submit failed');
+  }
+}
+
+/**
+ * Whether the leaves of a batch given up on can go into a new anchor
+ * without their usage being anchored twice: the batch's own anchor is not
+ * on chain, and the relayer has no transaction in flight, such as a stuck
+ * one that could still be mined. False when the chain cannot be read.
+ */
+export async function canRequeueLeaves(
+  { address, txManager }: AnchorTarget,
+  batch: Pick<BatchRecord, 'provider' | 'windowStart' | 'windowEnd' | 'merkleRoot'>,
+  log: Logger = logger,
+): Promise<boolean> {
+  const { publicClient } = txManager;
+  const anchorId = computeAnchorId(batch.provider, batch.windowStart, batch.windowEnd, batch.merkleRoot);
+  try {
+    const [anchor, pendingNonce, minedNonce] = await Promise.all([
+      publicClient.readContract({ address, abi: [usageAnchorsFunction], functionName: 'usageAnchors', args: [anchorId] }),
+      publicClient.getTransactionCount({ address: txManager.address, blockTag: 'pending' }),
+      publicClient.getTransactionCount({ address: txManager.address, blockTag: 'latest' }),
+    ]);
+    const exists = anchor[6];
+    if (exists || pendingNonce > minedNonce) {
+      log.warn({ anchorId, anchored: exists, inFlight: pendingNonce - minedNonce }, 'Batch given up on may still be anchored');
+      return false;
+    }
+    return true;
+  } catch (err) {
+    log.warn({ anchorId, error: errorType(err) }, 'Could not check whether a batch given up on was anchored');
+    return false;
+  }
+}
+
+/**
+ * Submit batches that were built but never confirmed, e.g. because the
+ * process stopped while their transaction was in flight or an earlier
+ * submission failed.
+ */
+export async function resumePendingBatches(store: RelayerStore, maxAttempts: number, dryRun?: DryRunOptions) {
+  const pending = await store.listBatches({ status: 'pending' });
+  if (pending.length > 0) logger.info({ batches: pending.length }, 'Resuming unsubmitted batches');
+  for (const batch of pending) {
+    await submitBatch(store, batch, maxAttempts, batchLog(batch, await store.listBatchLeaves(batch.id)), dryRun);
+  }
+}
+
+/**
+ * Poll every BATCH_INTERVAL_MS and anchor each epoch once its grace period
+ * is over. The interval only sets how soon after closing an epoch is
+ * anchored; which leaves go together is decided by the epoch and the
+ * provider's batch policy (see applyBatchPolicy).
+ *
+ * Stopping the returned worker waits for the running tick and then runs a
+ * final one, so every closed epoch is anchored and its receipts awaited
+ * before the process exits. Leaves of epochs still open, and leaves held
+ * for a minimum usage, stay queued in the store for the next start.
+ */
+export function startBatcher(store: RelayerStore): Worker {
   const env = loadEnv();
   const intervalMs = env.BATCH_INTERVAL_MS;
+  const epochs = resolveEpochConfig(env);
+
+  const policyDefaults = resolveBatchPolicyDefaults(env);
+  const maxAttempts = env.ANCHOR_MAX_BATCH_ATTEMPTS;
+  const dryRun = resolveDryRun(env);
+  let running: Promise<void> | undefined;
 
-  setInterval(async () => {
+  const tick = async () => {
     const now = Math.floor(Date.now() / 1000);
-    const leaves = drainLeavesForWindow(now, Math.floor(intervalMs / 1000));
-    if (leaves.length === 0) return;
-
-    const provider = leaves[0].provider as `0x${string}`;
-    const windowStart = Math.min(...leaves.map(l => l.windowStart));
-    const windowEnd = Math.max(...leaves.map(l => l.windowEnd));
-    const totalUsage = leaves.reduce((a, l) => a + BigInt(l.unitsConsumed), 0n);
-
-    const leafHashes = leaves.map(l => hashLeafCanonicalJson({
-      provider: l.provider,
-      nodeId: l.nodeId,
-      windowStart: l.windowStart,
-      windowEnd: l.windowEnd,
-      unitsConsumed: l.unitsConsumed,
-      rateId: l.rateId,
-      nonce: l.nonce,
-    }));
-    const merkleRoot = buildMerkleRoot(leafHashes);
-
-    try {
-      const receipt = await submitAnchor({
-        provider,
-        windowStart,
-        windowEnd,
-        merkleRoot,
-        totalUsage,
-      });
-
-      const anchor = {
-        anchorId: undefined as any,
-        provider,
-        windowStart,
-        windowEnd,
-        merkleRoot,
-        totalUsage,
-        submittedAt: Date.now(),
-      };
-      recordAnchor(anchor);
-      console.log('Anchored usage:', { tx: receipt.transactionHash, provider, windowStart, windowEnd, totalUsage, merkleRoot });
-    } catch (err) {
-      console.error('Anchor submit failed:', err);
-    }
-  }, intervalMs).unref();
-}
+    await store.pruneSeenNonces(now - env.NONCE_RETENTION_SECONDS);
+    await resumePendingBatches(store, maxAttempts, dryRun);
+
+    const closedEpochEnd = lastClosedEpochEnd(now, epochs);
+    const leaves = await store.pendingLeavesEndingBy(closedEpochEnd);
+    if (leaves.length === 0) {
+      heldLeaves.set({}, 0);
+      return;
+    }
+
+    const groups = planEpochGroups(leaves, closedEpochEnd, {
+      ...epochs,
+      policy: env.STRAGGLER_POLICY,
+      byRateId: env.BATCH_GROUP_BY_RATE,
+    });
+    const policies = new Map<string, ResolvedBatchPolicy>();
+    for (const provider of new Set(groups.map(g => g.provider.toLowerCase()))) {
+      policies.set(provider, resolveBatchPolicy(policyDefaults, (await store.getProvider(provider))?.batchPolicy));
+    }
+    const { batches, held } = applyBatchPolicy(groups, {
+      policyOf: provider => policies.get(provider.toLowerCase())!,
+      epochSeconds: epochs.epochSeconds,
+      nowSeconds: now,
+    });
+    heldLeaves.set({}, held.reduce((n, group) => n + group.leaves.length, 0));
+    for (const group of held) {
+      logger.debug({
+        provider: group.provider,
+        rateId: group.rateId,
+        leaves: group.leaves.length,
+        usage: group.usage,
+        minUsage: group.policy.minUsage,
+        anchorBy: Math.floor(group.oldestReceivedAt / 1000) + group.policy.maxWaitSeconds,
+      }, 'Holding leaves below the minimum usage');
+    }
+
+    // Submit batches one at a time; a failed batch must not stop the others from anchoring.
+    for (const planned of batches) {
+      try {
+        const batch = await createGroupBatch(store, planned, env.MERKLE_TREE_VERSION);
+        const log = batchLog(batch, planned.leaves);
+        // Counted once the leaves are claimed, so a group that fails to batch is not counted twice
+        for (const [path, count] of Object.entries(planned.paths)) {
+          if (count > 0) leafWindowPaths.inc({ path }, count);
+        }
+        log.info({
+          provider: planned.provider,
+          rateId: planned.rateId,
+          epochEnd: planned.epochEnd,
+          leaves: planned.leaves.length,
+          paths: planned.paths,
+          policy: planned.policy,
+          merkleRoot: batch.merkleRoot,
+        }, 'Batch created');
+        await submitBatch(store, batch, maxAttempts, log, dryRun);
+      } catch (err) {
+        logger.error({ provider: planned.provider, rateId: planned.rateId, epochEnd: planned.epochEnd, leaves: planned.leaves.length, err }, 'Batch creation failed');
+      }
+    }
+  };
+
+  // A tick waits for its receipts, which may outlast the interval; never run two at once
+  const runTick = () => {
+    if (running) return running;
+    running = tick()
+      .catch(err => logger.error({ err }, 'Batcher tick failed'))
+      .finally(() => { running = undefined; });
+    return running;
+  };
 
+  runTick();
+  const timer = setInterval(runTick, intervalMs);
+  timer.unref();
 
+  return {
+    name: 'batcher',
+    async stop() {
+      clearInterval(timer);
+      await running;
+      logger.info('Running final batch before shutdown');
+      await runTick();
+    },
+  };
+}
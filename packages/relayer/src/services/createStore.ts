@@ -0,0 +1,8 @@
+import type { Env } from '../config/env.js';
+import { MemoryStore } from './memoryStore.js';
+import { SqliteStore } from './sqliteStore.js';
+import type { RelayerStore } from './store.js';
+
+export function createStore(env: Pick<Env, 'RELAYER_STORE' | 'RELAYER_DB_PATH'>): RelayerStore {
+  return env.RELAYER_STORE === 'memory' ? new MemoryStore() : new SqliteStore(env.RELAYER_DB_PATH);
+}
@@ -0,0 +1,28 @@
+import { resolveDeployments, type DeploymentConfig } from '../config/deployments.js';
+import { loadEnv } from '../config/env.js';
+import { getTransactionManager, type TransactionManager } from './txManager.js';
+
+/** A deployment ready to receive anchors */
+export type Deployment = DeploymentConfig & { txManager: TransactionManager };
+
+let deployments: Deployment[] | undefined;
+
+/** Every configured deployment, the default first; resolved from the environment on first use */
+export function getDeployments(): Deployment[] {
+  if (!deployments) {
+    deployments = resolveDeployments(loadEnv()).map(config => ({
+      ...config,
+      txManager: getTransactionManager(config.chain, config.rpcUrl),
+    }));
+  }
+  return deployments;
+}
+
+/** The named deployment, or the default one when `name` is unset */
+export function getDeployment(name?: string): Deployment {
+  const all = getDeployments();
+  if (name === undefined) return all[0];
+  const deployment = all.find(d => d.name === name);
+  if (!deployment) throw new Error(`Deployment "${name}" is not configured`);
+  return deployment;
+}
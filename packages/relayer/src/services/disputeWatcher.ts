@@ -0,0 +1,134 @@
+import type { PublicClient } from 'viem';
+import { loadEnv } from '../config/env.js';
+import { disputeOpenedEvent, disputeResolvedEvent } from '../contracts/edgeCharge.js';
+import { buildDisputeEvidence, readUsageAnchor, type AnchorReader } from '../usecases/buildDisputeEvidence.js';
+import { getDeployments } from './deployments.js';
+import type { Worker } from './lifecycle.js';
+import { logger } from './logger.js';
+import { disputesOpened } from './metrics.js';
+import type { RelayerStore } from './store.js';
+
+/** The contract a watcher follows, and the client it reads logs with */
+export type DisputeWatchTarget = {
+  /** Deployment name; also keys the watcher's block cursor */
+  name: string;
+  address: `0x${string}`;
+  publicClient: PublicClient;
+};
+
+export type DisputeScanOptions = {
+  /** Where a watcher without a cursor starts; the chain head when unset */
+  fromBlock?: bigint;
+  /** Blocks per getLogs request */
+  blockRange: number;
+};
+
+/**
+ * Read DisputeOpened and DisputeResolved logs from the block after the
+ * target's cursor up to the chain head, and record them. A newly opened
+ * dispute gets its evidence bundle built straight away, so a failed check
+ * is logged as soon as the dispute is seen. The cursor advances after each
+ * range, so a scan that fails part way resumes where it stopped; events
+ * already recorded are skipped. Returns the number of events read.
+ */
+export async function scanDisputes(store: RelayerStore, target: DisputeWatchTarget, { fromBlock, blockRange }: DisputeScanOptions): Promise<number> {
+  const cursorKey = `disputes:${target.name}`;
+  const head = await target.publicClient.getBlockNumber();
+  const cursor = await store.getChainCursor(cursorKey);
+  let from = cursor !== undefined ? cursor + 1n : (fromBlock ?? head);
+  let events = 0;
+
+  while (from <= head) {
+    const to = from + BigInt(blockRange) - 1n < head ? from + BigInt(blockRange) - 1n : head;
+    const logs = await target.publicClient.getLogs({
+      address: target.address,
+      events: [disputeOpenedEvent, disputeResolvedEvent],
+      fromBlock: from,
+      toBlock: to,
+      strict: true,
+    });
+    for (const log of logs) {
+      if (log.eventName === 'DisputeOpened') {
+        await onDisputeOpened(store, readUsageAnchor(target), {
+          deployment: target.name,
+          anchorId: log.args.anchorId,
+          disputant: log.args.disputant,
+          reason: log.args.reason,
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+          blockNumber: log.blockNumber,
+        });
+      } else {
+        const resolved = await store.markDisputeResolved(target.name, log.args.anchorId, log.args.resolvedInFavorOfProvider);
+        logger.info({
+          deployment: target.name,
+          anchorId: log.args.anchorId,
+          resolvedInFavorOfProvider: log.args.resolvedInFavorOfProvider,
+          recorded: resolved !== undefined,
+        }, 'Dispute resolved');
+      }
+      events++;
+    }
+    await store.setChainCursor(cursorKey, to);
+    from = to + 1n;
+  }
+  return events;
+}
+
+async function onDisputeOpened(store: RelayerStore, readAnchor: AnchorReader, event: Parameters<RelayerStore['recordDispute']>[0]) {
+  const { dispute, created } = await store.recordDispute(event);
+  if (!created) return;
+  const log = logger.child({ deployment: dispute.deployment, anchorId: dispute.anchorId, disputeId: dispute.id });
+
+  const result = await buildDisputeEvidence(store, dispute.anchorId, readAnchor);
+  if (!result.ok) {
+    disputesOpened.inc({ evidence: 'missing' });
+    log.warn({ disputant: dispute.disputant, reason: dispute.reason }, 'Dispute opened on an anchor this relayer has no record of');
+    return;
+  }
+  const { consistent, checks } = result.evidence;
+  disputesOpened.inc({ evidence: consistent ? 'consistent' : 'inconsistent' });
+  (consistent ? log.warn : log.error)({ disputant: dispute.disputant, reason: dispute.reason, consistent, checks }, 'Dispute opened');
+}
+
+/**
+ * Poll every deployment for disputes every DISPUTE_POLL_INTERVAL_MS. The
+ * evidence itself is served by GET /disputes/:anchorId/evidence. Stopping
+ * the returned worker lets running scans finish; their cursors are saved,
+ * so the next start continues from there.
+ */
+export function startDisputeWatcher(store: RelayerStore): Worker {
+  const env = loadEnv();
+  const options = { fromBlock: env.DISPUTE_FROM_BLOCK, blockRange: env.DISPUTE_LOG_BLOCK_RANGE };
+  const timers: NodeJS.Timeout[] = [];
+  const scans = new Set<Promise<void>>();
+
+  for (const deployment of getDeployments()) {
+    const target = { name: deployment.name, address: deployment.address, publicClient: deployment.txManager.publicClient };
+    let running = false;
+    const runScan = () => {
+      if (running) return;
+      running = true;
+      const scan: Promise<void> = scanDisputes(store, target, options)
+        .then(() => undefined, err => logger.error({ deployment: deployment.name, err }, 'Dispute scan failed'))
+        .finally(() => {
+          running = false;
+          scans.delete(scan);
+        });
+      scans.add(scan);
+    };
+
+    runScan();
+    const timer = setInterval(runScan, env.DISPUTE_POLL_INTERVAL_MS);
+    timer.unref();
+    timers.push(timer);
+  }
+
+  return {
+    name: 'disputeWatcher',
+    async stop() {
+      for (const timer of timers) clearInterval(timer);
+      await Promise.all(scans);
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import { eventSubscribers } from './metrics.js';
+
+/** What happened to leaves and anchors, as published on GET /events */
+export type RelayerEvent =
+  | {
+      type: 'leaf.accepted';
+      provider: `0x${string}`;
+      nodeId: string;
+      nonce: string;
+      windowStart: number;
+      windowEnd: number;
+      unitsConsumed: number;
+      rateId: string;
+      correlationId?: string;
+    }
+  | {
+      type: 'leaf.rejected';
+      /** The leaf's provider, or the authenticated caller when the leaf could not be read */
+      provider?: `0x${string}`;
+      nonce?: string;
+      code: string;
+      message: string;
+      correlationId?: string;
+    }
+  | {
+      type: 'batch.built';
+      batchId: number;
+      provider: `0x${string}`;
+      rateId?: string;
+      deployment?: string;
+      windowStart: number;
+      windowEnd: number;
+      leafCount: number;
+      totalUsage: bigint;
+      merkleRoot: `0x${string}`;
+    }
+  | {
+      type: 'anchor.submitted';
+      batchId: number;
+      provider: `0x${string}`;
+      deployment?: string;
+      /** 1 for the first submission of the batch */
+      attempt: number;
+    }
+  | {
+      type: 'anchor.confirmed';
+      batchId: number;
+      provider: `0x${string}`;
+      deployment?: string;
+      anchorId: `0x${string}`;
+      txHash?: `0x${string}`;
+      blockNumber?: bigint;
+      totalUsage: bigint;
+      alreadyAnchored: boolean;
+      /** Set when DRY_RUN built the anchor instead of sending it */
+      dryRun?: 'simulate' | 'journal';
+    }
+  | {
+      type: 'anchor.failed';
+      batchId: number;
+      provider: `0x${string}`;
+      deployment?: string;
+      error: string;
+      /** The batch went back to the pending pool and will be submitted again */
+      willRetry: boolean;
+    };
+
+export type RelayerEventType = RelayerEvent['type'];
+
+export const RELAYER_EVENT_TYPES: readonly RelayerEventType[] = [
+  'leaf.accepted',
+  'leaf.rejected',
+  'batch.built',
+  'anchor.submitted',
+  'anchor.confirmed',
+  'anchor.failed',
+];
+
+/** An event as delivered: `id` increases by one per event and is the SSE event id */
+export type PublishedEvent = RelayerEvent & { id: number; at: number };
+
+export type EventFilter = {
+  /** Lowercase provider addresses; events without a provider only reach unfiltered subscribers */
+  providers?: string[];
+  types?: RelayerEventType[];
+};
+
+export type EventSubscriber = {
+  filter: EventFilter;
+  send(event: PublishedEvent): void;
+  /** The feed is closing for shutdown; the subscriber should end its connection */
+  close(): void;
+};
+
+export function matchesFilter(event: PublishedEvent, { providers, types }: EventFilter): boolean {
+  if (types && !types.includes(event.type)) return false;
+  if (providers && (!event.provider || !providers.includes(event.provider.toLowerCase()))) return false;
+  return true;
+}
+
+/**
+ * In-process fan-out of relayer events to live subscribers. The most recent
+ * `historySize` events are kept, so a client that reconnects with
+ * Last-Event-ID gets what it missed; anything older is gone. Events are not
+ * persisted and ids restart with the process.
+ */
+export class EventFeed {
+  private nextId = 1;
+  private history: PublishedEvent[] = [];
+  private subscribers = new Set<EventSubscriber>();
+
+  constructor(private historySize = 1000) {}
+
+  publish(event: RelayerEvent): PublishedEvent {
+    const published: PublishedEvent = { ...event, id: this.nextId++, at: Date.now() };
+    this.history.push(published);
+    if (this.history.length > this.historySize) this.history.shift();
+    for (const subscriber of this.subscribers) {
+      if (matchesFilter(published, subscriber.filter)) subscriber.send(published);
+    }
+    return published;
+  }
+
+  /** Deliver events after `afterId` still in history, then every new one; returns the unsubscribe function */
+  subscribe(subscriber: EventSubscriber, afterId?: number): () => void {
+    if (afterId !== undefined) {
+      for (const event of this.history) {
+        if (event.id > afterId && matchesFilter(event, subscriber.filter)) subscriber.send(event);
+      }
+    }
+    this.subscribers.add(subscriber);
+    eventSubscribers.set({}, this.subscribers.size);
+    return () => {
+      this.subscribers.delete(subscriber);
+      eventSubscribers.set({}, this.subscribers.size);
+    };
+  }
+
+  /** Tell every subscriber to disconnect */
+  close() {
+    for (const subscriber of [...this.subscribers]) subscriber.close();
+    this.subscribers.clear();
+    eventSubscribers.set({}, 0);
+  }
+}
+
+/** The relayer's process-wide feed, served at GET /events */
+export const events = new EventFeed();
@@ -0,0 +1,100 @@
+import { logger } from './logger.js';
+
+/**
+ * - starting: workers are being started; not ready for traffic
+ * - ready: accepting leaves
+ * - draining: shutting down; leaves are refused while workers finish
+ * - stopped: every worker has stopped or the deadline passed
+ */
+export type LifecycleState = 'starting' | 'ready' | 'draining' | 'stopped';
+
+/** A part of the relayer that has work to finish before the process exits */
+export type Worker = {
+  name: string;
+  /** Resolves once the worker has finished; called at most once */
+  stop(): Promise<void>;
+};
+
+export type ShutdownResult = {
+  /** Every worker stopped, without error, before the deadline */
+  clean: boolean;
+  /** Workers still running when the deadline passed */
+  timedOut: string[];
+  failed: string[];
+};
+
+/**
+ * Tracks whether the relayer is serving and stops its workers in order on
+ * shutdown. Workers stop one after another in registration order, so a
+ * later worker (e.g. the store) can rely on the earlier ones being done.
+ * All of them share one deadline; a worker still running when it passes
+ * is abandoned and the rest are stopped anyway.
+ */
+export class Lifecycle {
+  private current: LifecycleState = 'starting';
+  private workers: Worker[] = [];
+  private shutdownResult?: Promise<ShutdownResult>;
+
+  get state(): LifecycleState {
+    return this.current;
+  }
+
+  /** Leaves are only taken while ready */
+  get acceptingLeaves(): boolean {
+    return this.current === 'ready';
+  }
+
+  register(worker: Worker) {
+    this.workers.push(worker);
+  }
+
+  markReady() {
+    if (this.current === 'starting') this.current = 'ready';
+  }
+
+  /** Start draining and stop every worker within `timeoutMs`; calling it again returns the first shutdown */
+  shutdown(reason: string, timeoutMs: number): Promise<ShutdownResult> {
+    this.shutdownResult ??= this.drain(reason, timeoutMs);
+    return this.shutdownResult;
+  }
+
+  private async drain(reason: string, timeoutMs: number): Promise<ShutdownResult> {
+    this.current = 'draining';
+    const deadline = Date.now() + timeoutMs;
+    const timedOut: string[] = [];
+    const failed: string[] = [];
+    logger.info({ reason, timeoutMs, workers: this.workers.map(w => w.name) }, 'Shutting down');
+
+    for (const worker of this.workers) {
+      const remainingMs = Math.max(0, deadline - Date.now());
+      const outcome = await stopWithin(worker, remainingMs);
+      if (outcome === 'timeout') {
+        timedOut.push(worker.name);
+        logger.error({ worker: worker.name, timeoutMs }, 'Worker did not stop before the shutdown deadline');
+      } else if (outcome instanceof Error) {
+        failed.push(worker.name);
+        logger.error({ worker: worker.name, err: outcome }, 'Worker failed while stopping');
+      }
+    }
+
+    this.current = 'stopped';
+    const clean = timedOut.length === 0 && failed.length === 0;
+    logger.info({ clean, timedOut, failed }, 'Shutdown complete');
+    return { clean, timedOut, failed };
+  }
+}
+
+async function stopWithin(worker: Worker, ms: number): Promise<'stopped' | 'timeout' | Error> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), ms);
+  });
+  try {
+    return await Promise.race([
+      worker.stop().then(() => 'stopped' as const, (err: unknown) => (err instanceof Error ? err : new Error(String(err)))),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
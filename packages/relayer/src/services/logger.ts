@@ -0,0 +1,4 @@
+import { createLogger } from '../lib/logger.js';
+
+/** The relayer's process-wide logger; the entry point sets its level from LOG_LEVEL */
+export const logger = createLogger().child({ name: 'relayer' });
@@ -0,0 +1,321 @@
+import { leafContentHash, type Leaf } from '../domain/leaf.js';
+import {
+  type AddLeafResult,
+  type AnchorConfirmation,
+  type AnchorQuery,
+  type AnchorRecord,
+  type BatchQuery,
+  type BatchRecord,
+  type BatchStatus,
+  type DisputeQuery,
+  type DisputeRecord,
+  type NewBatch,
+  type NewDispute,
+  type PageQuery,
+  type PendingNodeSummary,
+  type ProviderActivity,
+  type ProviderRegistration,
+  type RelayerStore,
+  type SeenNonce,
+  type StoredLeaf,
+  toAnchorRecord,
+} from './store.js';
+
+/**
+ * Non-durable store. Everything is lost on restart; intended for tests
+ * and throwaway local runs.
+ */
+export class MemoryStore implements RelayerStore {
+  private leaves: StoredLeaf[] = [];
+  private batches: BatchRecord[] = [];
+  private seenNonces = new Map<string, SeenNonce>();
+  private providers = new Map<string, ProviderRegistration>();
+  private disputes: DisputeRecord[] = [];
+  private chainCursors = new Map<string, bigint>();
+  private nextLeafId = 1;
+  private nextBatchId = 1;
+  private nextDisputeId = 1;
+
+  async addLeaf(leaf: Leaf, correlationId?: string): Promise<AddLeafResult> {
+    const key = nonceKey(leaf.provider, leaf.nonce);
+    const seen = this.seenNonces.get(key);
+    if (seen) return { status: 'nonce_seen', seen: { ...seen } };
+
+    const stored: StoredLeaf = { ...leaf, id: this.nextLeafId++, receivedAt: Date.now(), correlationId };
+    this.leaves.push(stored);
+    this.seenNonces.set(key, {
+      provider: leaf.provider.toLowerCase(),
+      nonce: leaf.nonce,
+      contentHash: leafContentHash(leaf),
+      windowEnd: leaf.windowEnd,
+      leafId: stored.id,
+    });
+    return { status: 'added', leaf: { ...stored } };
+  }
+
+  async findSeenNonce(provider: string, nonce: string): Promise<SeenNonce | undefined> {
+    const seen = this.seenNonces.get(nonceKey(provider, nonce));
+    return seen && { ...seen };
+  }
+
+  async pruneSeenNonces(windowEnd: number): Promise<number> {
+    let pruned = 0;
+    for (const [key, seen] of this.seenNonces) {
+      if (seen.windowEnd < windowEnd) {
+        this.seenNonces.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  async findBatchedOverlap(leaf: Pick<Leaf, 'provider' | 'nodeId' | 'windowStart' | 'windowEnd'>): Promise<StoredLeaf | undefined> {
+    const liveBatches = new Set(this.batches.filter(b => b.status !== 'failed').map(b => b.id));
+    const overlap = this.leaves.find(l =>
+      l.batchId !== undefined
+      && liveBatches.has(l.batchId)
+      && l.provider.toLowerCase() === leaf.provider.toLowerCase()
+      && l.nodeId === leaf.nodeId
+      && l.windowStart < leaf.windowEnd
+      && leaf.windowStart < l.windowEnd,
+    );
+    return overlap && { ...overlap };
+  }
+
+  async pendingLeavesEndingBy(windowEnd: number): Promise<StoredLeaf[]> {
+    return this.leaves
+      .filter(l => l.batchId === undefined && l.windowEnd <= windowEnd)
+      .map(l => ({ ...l }));
+  }
+
+  async createBatch(batch: NewBatch, leafIds: number[]): Promise<BatchRecord> {
+    const claimed = this.leaves.filter(l => leafIds.includes(l.id));
+    if (claimed.length !== leafIds.length || claimed.some(l => l.batchId !== undefined)) {
+      throw new Error('Cannot batch leaves that are unknown or already batched');
+    }
+    const record: BatchRecord = {
+      ...batch,
+      id: this.nextBatchId++,
+      status: 'pending',
+      leafCount: claimed.length,
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+    for (const leaf of claimed) leaf.batchId = record.id;
+    this.batches.push(record);
+    return { ...record };
+  }
+
+  async markBatchConfirmed(batchId: number, confirmation: AnchorConfirmation): Promise<void> {
+    const batch = this.requireBatch(batchId);
+    Object.assign(batch, confirmation);
+    batch.status = 'confirmed';
+    batch.submittedAt = Date.now();
+    batch.error = undefined;
+  }
+
+  async markBatchRetry(batchId: number, error: string): Promise<void> {
+    const batch = this.requireBatch(batchId);
+    batch.attempts++;
+    batch.error = error;
+  }
+
+  async markBatchFailed(batchId: number, error: string, options?: { requeueLeaves?: boolean }): Promise<void> {
+    const batch = this.requireBatch(batchId);
+    batch.status = 'failed';
+    batch.error = error;
+    if (!options?.requeueLeaves) return;
+    for (const leaf of this.leaves) {
+      if (leaf.batchId === batchId) leaf.batchId = undefined;
+    }
+  }
+
+  async getBatch(batchId: number): Promise<BatchRecord | undefined> {
+    const batch = this.batches.find(b => b.id === batchId);
+    return batch && { ...batch };
+  }
+
+  async findBatchByAnchorId(anchorId: `0x${string}`): Promise<BatchRecord | undefined> {
+    const batch = this.batches.find(b => b.anchorId?.toLowerCase() === anchorId.toLowerCase());
+    return batch && { ...batch };
+  }
+
+  async listBatches(filter: { status?: BatchStatus } = {}): Promise<BatchRecord[]> {
+    return this.batches
+      .filter(b => !filter.status || b.status === filter.status)
+      .map(b => ({ ...b }));
+  }
+
+  async listBatchHistory(query: BatchQuery = {}): Promise<BatchRecord[]> {
+    return page(
+      this.batches.filter(b => (!query.status || b.status === query.status) && sameProvider(b.provider, query.provider)),
+      query,
+    ).map(b => ({ ...b }));
+  }
+
+  async listBatchLeaves(batchId: number): Promise<StoredLeaf[]> {
+    return this.leaves.filter(l => l.batchId === batchId).map(l => ({ ...l }));
+  }
+
+  async listAnchors(query: AnchorQuery = {}): Promise<AnchorRecord[]> {
+    return page(
+      this.batches.filter(b => b.status === 'confirmed' && sameProvider(b.provider, query.provider)),
+      query,
+    ).map(toAnchorRecord);
+  }
+
+  async summarizePendingLeaves(): Promise<PendingNodeSummary[]> {
+    const summaries = new Map<string, PendingNodeSummary>();
+    for (const leaf of this.leaves) {
+      if (leaf.batchId !== undefined) continue;
+      const provider = leaf.provider.toLowerCase();
+      const key = `${provider}:${leaf.nodeId}`;
+      const summary = summaries.get(key);
+      if (!summary) {
+        summaries.set(key, {
+          provider,
+          nodeId: leaf.nodeId,
+          leaves: 1,
+          units: BigInt(leaf.unitsConsumed),
+          oldestWindowEnd: leaf.windowEnd,
+          newestWindowEnd: leaf.windowEnd,
+          lastReceivedAt: leaf.receivedAt,
+        });
+        continue;
+      }
+      summary.leaves++;
+      summary.units += BigInt(leaf.unitsConsumed);
+      summary.oldestWindowEnd = Math.min(summary.oldestWindowEnd, leaf.windowEnd);
+      summary.newestWindowEnd = Math.max(summary.newestWindowEnd, leaf.windowEnd);
+      summary.lastReceivedAt = Math.max(summary.lastReceivedAt, leaf.receivedAt);
+    }
+    return [...summaries.values()].sort((a, b) =>
+      a.provider.localeCompare(b.provider) || a.nodeId.localeCompare(b.nodeId));
+  }
+
+  async providerActivity(now: number, provider?: string): Promise<ProviderActivity[]> {
+    const activity = new Map<string, ProviderActivity>();
+    const entry = (address: string) => {
+      const key = address.toLowerCase();
+      let found = activity.get(key);
+      if (!found) {
+        found = { provider: key, leavesLastHour: 0, leavesLastDay: 0, pendingLeaves: 0, anchors: 0, unitsAnchored: 0n };
+        activity.set(key, found);
+      }
+      return found;
+    };
+
+    // Leaves are kept in arrival order, so the last one seen wins lastSeen
+    for (const leaf of this.leaves) {
+      if (!sameProvider(leaf.provider, provider)) continue;
+      const found = entry(leaf.provider);
+      found.lastSeen = { nodeId: leaf.nodeId, receivedAt: leaf.receivedAt };
+      if (leaf.receivedAt >= now - HOUR_MS) found.leavesLastHour++;
+      if (leaf.receivedAt >= now - 24 * HOUR_MS) found.leavesLastDay++;
+      if (leaf.batchId === undefined) found.pendingLeaves++;
+    }
+    for (const batch of this.batches) {
+      if (batch.status !== 'confirmed' || !sameProvider(batch.provider, provider)) continue;
+      const found = entry(batch.provider);
+      found.anchors++;
+      found.unitsAnchored += batch.totalUsage;
+      found.lastAnchoredAt = Math.max(found.lastAnchoredAt ?? 0, batch.submittedAt ?? 0) || undefined;
+    }
+    return [...activity.values()].sort((a, b) => a.provider.localeCompare(b.provider));
+  }
+
+  async saveProvider(registration: ProviderRegistration): Promise<void> {
+    this.providers.set(registration.address.toLowerCase(), copyProvider({ ...registration, revokedAt: undefined }));
+  }
+
+  async getProvider(address: string): Promise<ProviderRegistration | undefined> {
+    const provider = this.providers.get(address.toLowerCase());
+    return provider && copyProvider(provider);
+  }
+
+  async findProviderByApiKeyHash(apiKeyHash: `0x${string}`): Promise<ProviderRegistration | undefined> {
+    const provider = [...this.providers.values()].find(p => p.apiKeyHash?.toLowerCase() === apiKeyHash.toLowerCase());
+    return provider && copyProvider(provider);
+  }
+
+  async listProviders(): Promise<ProviderRegistration[]> {
+    return [...this.providers.values()].map(copyProvider);
+  }
+
+  async revokeProvider(address: string): Promise<boolean> {
+    const provider = this.providers.get(address.toLowerCase());
+    if (!provider || provider.revokedAt !== undefined) return false;
+    provider.revokedAt = Date.now();
+    return true;
+  }
+
+  async recordDispute(dispute: NewDispute): Promise<{ dispute: DisputeRecord; created: boolean }> {
+    const existing = this.disputes.find(d => d.txHash.toLowerCase() === dispute.txHash.toLowerCase() && d.logIndex === dispute.logIndex);
+    if (existing) return { dispute: { ...existing }, created: false };
+    const record: DisputeRecord = { ...dispute, id: this.nextDisputeId++, openedAt: Date.now() };
+    this.disputes.push(record);
+    return { dispute: { ...record }, created: true };
+  }
+
+  async markDisputeResolved(deployment: string, anchorId: `0x${string}`, resolvedInFavorOfProvider: boolean): Promise<DisputeRecord | undefined> {
+    const open = this.disputes
+      .filter(d => d.deployment === deployment && d.anchorId.toLowerCase() === anchorId.toLowerCase() && d.resolvedAt === undefined)
+      .pop();
+    if (!open) return undefined;
+    open.resolvedAt = Date.now();
+    open.resolvedInFavorOfProvider = resolvedInFavorOfProvider;
+    return { ...open };
+  }
+
+  async listDisputes(query: DisputeQuery = {}): Promise<DisputeRecord[]> {
+    return page(
+      this.disputes.filter(d =>
+        (query.anchorId === undefined || d.anchorId.toLowerCase() === query.anchorId.toLowerCase())
+        && (query.open === undefined || query.open === (d.resolvedAt === undefined))),
+      query,
+    ).map(d => ({ ...d }));
+  }
+
+  async getChainCursor(key: string): Promise<bigint | undefined> {
+    return this.chainCursors.get(key);
+  }
+
+  async setChainCursor(key: string, block: bigint): Promise<void> {
+    this.chainCursors.set(key, block);
+  }
+
+  async close(): Promise<void> {}
+
+  private requireBatch(batchId: number): BatchRecord {
+    const batch = this.batches.find(b => b.id === batchId);
+    if (!batch) throw new Error(`Unknown batch ${batchId}`);
+    return batch;
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Newest first, matching SqliteStore's ORDER BY id DESC */
+function page<T extends { id: number }>(records: T[], { limit = 100, beforeId }: PageQuery): T[] {
+  return records
+    .filter(r => beforeId === undefined || r.id < beforeId)
+    .reverse()
+    .slice(0, limit);
+}
+
+function sameProvider(address: string, filter?: string) {
+  return filter === undefined || address.toLowerCase() === filter.toLowerCase();
+}
+
+function copyProvider(provider: ProviderRegistration): ProviderRegistration {
+  return {
+    ...provider,
+    signers: [...provider.signers],
+    nodes: [...provider.nodes],
+    batchPolicy: provider.batchPolicy && { ...provider.batchPolicy },
+  };
+}
+
+function nonceKey(provider: string, nonce: string) {
+  return `${provider.toLowerCase()}:${nonce}`;
+}
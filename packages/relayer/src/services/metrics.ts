@@ -0,0 +1,70 @@
+import { MetricsRegistry } from '../lib/metrics.js';
+import type { RelayerStore } from './store.js';
+
+/** The relayer's process-wide metrics, served at GET /metrics */
+export const metrics = new MetricsRegistry();
+
+/**
+ * How each leaf reached (or failed to reach) an anchor: `on_time` in its own
+ * epoch, `rolled_over` into a later epoch, `catch_up` in a separate anchor
+ * for an epoch that had already closed, or `rejected` at ingestion.
+ */
+export const leafWindowPaths = metrics.counter(
+  'relayer_leaf_window_path_total',
+  'Leaves by anchoring path: on_time, rolled_over, catch_up or rejected',
+);
+
+export const leavesReceived = metrics.counter('relayer_leaves_received_total', 'Leaves submitted, single or in bulk');
+
+export const leavesAccepted = metrics.counter('relayer_leaves_accepted_total', 'Leaves accepted, by status: queued or duplicate');
+
+export const leavesRejected = metrics.counter('relayer_leaves_rejected_total', 'Leaves refused, by reason (the error code)');
+
+export const batchSize = metrics.histogram(
+  'relayer_batch_size_leaves',
+  'Leaves per anchored batch',
+  [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000],
+);
+
+export const merkleBuildSeconds = metrics.histogram(
+  'relayer_merkle_build_seconds',
+  'Time to hash a batch and build its Merkle tree',
+  [0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5],
+);
+
+export const anchorTxSeconds = metrics.histogram(
+  'relayer_anchor_tx_seconds',
+  'Time from submitting an anchor to its receipt, by outcome: success, reverted, already_anchored, dry_run or error',
+  [0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300, 600],
+);
+
+export const anchorGasUsed = metrics.counter('relayer_anchor_gas_used_total', 'Gas used by anchor transactions');
+
+export const rpcErrors = metrics.counter('relayer_rpc_errors_total', 'Failed RPC calls, by error type');
+
+export const disputesOpened = metrics.counter(
+  'relayer_disputes_opened_total',
+  'Disputes seen on chain, by evidence: consistent, inconsistent or missing (anchor unknown to this relayer)',
+);
+
+export const pendingLeaves = metrics.gauge('relayer_pending_leaves', 'Leaves waiting to be claimed by a batch');
+
+export const pendingBatches = metrics.gauge('relayer_pending_batches', 'Batches built but not yet confirmed or failed');
+
+export const heldLeaves = metrics.gauge('relayer_held_leaves', 'Leaves of closed epochs held back by a minimum usage');
+
+export const eventSubscribers = metrics.gauge('relayer_event_subscribers', 'Clients connected to GET /events');
+
+/** Count one submitted leaf by its outcome; `status` is the ingestion result, `reason` the rejection code */
+export function recordLeafOutcome(status: 'queued' | 'duplicate' | 'rejected', reason?: string) {
+  leavesReceived.inc();
+  if (status === 'rejected') leavesRejected.inc({ reason: reason ?? 'unknown' });
+  else leavesAccepted.inc({ status });
+}
+
+/** Queue depth is read from the store when metrics are scraped rather than tracked on every change */
+export async function observeQueueDepth(store: RelayerStore) {
+  const summary = await store.summarizePendingLeaves();
+  pendingLeaves.set({}, summary.reduce((sum, node) => sum + node.leaves, 0));
+  pendingBatches.set({}, (await store.listBatches({ status: 'pending' })).length);
+}
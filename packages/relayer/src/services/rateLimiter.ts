@@ -0,0 +1,25 @@
+type Bucket = { tokens: number; updatedAt: number };
+
+/**
+ * Token bucket per key: each key may burst up to its per-minute limit and
+ * refills continuously at that rate. State is in memory, so limits reset on
+ * restart and are per process.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  /** Take one token; when none is left, report how long until the next one */
+  take(key: string, perMinute: number, now = Date.now()): { allowed: true } | { allowed: false; retryAfterSeconds: number } {
+    const refillPerMs = perMinute / 60_000;
+    const bucket = this.buckets.get(key) ?? { tokens: perMinute, updatedAt: now };
+    bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true };
+  }
+}
@@ -0,0 +1,654 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { MerkleTreeVersion } from '@edgecharge/shared';
+import { leafContentHash, type Leaf } from '../domain/leaf.js';
+import {
+  type AddLeafResult,
+  type AnchorConfirmation,
+  type AnchorQuery,
+  type AnchorRecord,
+  type BatchQuery,
+  type BatchRecord,
+  type BatchStatus,
+  type DisputeQuery,
+  type DisputeRecord,
+  type NewBatch,
+  type NewDispute,
+  type PendingNodeSummary,
+  type ProviderActivity,
+  type ProviderRegistration,
+  type RelayerStore,
+  type SeenNonce,
+  type StoredLeaf,
+  toAnchorRecord,
+} from './store.js';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS batches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  provider TEXT NOT NULL,
+  rate_id TEXT,
+  deployment TEXT,
+  window_start INTEGER NOT NULL,
+  window_end INTEGER NOT NULL,
+  merkle_root TEXT NOT NULL,
+  tree_version INTEGER NOT NULL DEFAULT 1,
+  total_usage TEXT NOT NULL,
+  policy TEXT,
+  status TEXT NOT NULL,
+  leaf_count INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  tx_hash TEXT,
+  anchor_id TEXT,
+  block_number TEXT,
+  gas_used TEXT,
+  dry_run TEXT,
+  submitted_at INTEGER,
+  error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS leaves (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  provider TEXT NOT NULL,
+  node_id TEXT NOT NULL,
+  window_start INTEGER NOT NULL,
+  window_end INTEGER NOT NULL,
+  units_consumed INTEGER NOT NULL,
+  rate_id TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  provider_sig TEXT NOT NULL,
+  received_at INTEGER NOT NULL,
+  correlation_id TEXT,
+  batch_id INTEGER REFERENCES batches(id)
+);
+
+CREATE TABLE IF NOT EXISTS seen_nonces (
+  provider TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  window_end INTEGER NOT NULL,
+  leaf_id INTEGER NOT NULL,
+  PRIMARY KEY (provider, nonce)
+);
+
+CREATE TABLE IF NOT EXISTS providers (
+  address TEXT PRIMARY KEY,
+  api_key_hash TEXT UNIQUE,
+  signers TEXT NOT NULL,
+  nodes TEXT NOT NULL,
+  rate_limit_per_minute INTEGER,
+  deployment TEXT,
+  batch_policy TEXT,
+  created_at INTEGER NOT NULL,
+  revoked_at INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS disputes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  deployment TEXT NOT NULL,
+  anchor_id TEXT NOT NULL,
+  disputant TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_number TEXT NOT NULL,
+  opened_at INTEGER NOT NULL,
+  resolved_at INTEGER,
+  resolved_in_favor_of_provider INTEGER,
+  UNIQUE (tx_hash, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS chain_cursors (
+  key TEXT PRIMARY KEY,
+  block TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS leaves_pending ON leaves (window_end) WHERE batch_id IS NULL;
+CREATE INDEX IF NOT EXISTS leaves_batch ON leaves (batch_id);
+CREATE INDEX IF NOT EXISTS batches_status ON batches (status);
+CREATE INDEX IF NOT EXISTS batches_anchor ON batches (anchor_id);
+-- Providers are matched case-insensitively, so the index is on the lowercased address
+CREATE INDEX IF NOT EXISTS leaves_provider_node ON leaves (lower(provider), node_id);
+CREATE INDEX IF NOT EXISTS leaves_received ON leaves (received_at);
+CREATE INDEX IF NOT EXISTS seen_nonces_window ON seen_nonces (window_end);
+CREATE INDEX IF NOT EXISTS disputes_anchor ON disputes (anchor_id);
+`;
+
+type LeafRow = {
+  id: number;
+  provider: string;
+  node_id: string;
+  window_start: number;
+  window_end: number;
+  units_consumed: number;
+  rate_id: string;
+  nonce: string;
+  provider_sig: string;
+  received_at: number;
+  correlation_id: string | null;
+  batch_id: number | null;
+};
+
+type BatchRow = {
+  id: number;
+  provider: string;
+  rate_id: string | null;
+  deployment: string | null;
+  window_start: number;
+  window_end: number;
+  merkle_root: string;
+  tree_version: number;
+  total_usage: string;
+  policy: string | null;
+  status: BatchStatus;
+  leaf_count: number;
+  created_at: number;
+  attempts: number;
+  tx_hash: string | null;
+  anchor_id: string | null;
+  block_number: string | null;
+  gas_used: string | null;
+  dry_run: string | null;
+  submitted_at: number | null;
+  error: string | null;
+};
+
+type SeenNonceRow = {
+  provider: string;
+  nonce: string;
+  content_hash: string;
+  window_end: number;
+  leaf_id: number;
+};
+
+type ProviderRow = {
+  address: string;
+  api_key_hash: string | null;
+  signers: string;
+  nodes: string;
+  rate_limit_per_minute: number | null;
+  deployment: string | null;
+  batch_policy: string | null;
+  created_at: number;
+  revoked_at: number | null;
+};
+
+type DisputeRow = {
+  id: number;
+  deployment: string;
+  anchor_id: string;
+  disputant: string;
+  reason: string;
+  tx_hash: string;
+  log_index: number;
+  block_number: string;
+  opened_at: number;
+  resolved_at: number | null;
+  resolved_in_favor_of_provider: number | null;
+};
+
+function toDispute(row: DisputeRow): DisputeRecord {
+  return {
+    id: row.id,
+    deployment: row.deployment,
+    anchorId: row.anchor_id as `0x${string}`,
+    disputant: row.disputant as `0x${string}`,
+    reason: row.reason,
+    txHash: row.tx_hash as `0x${string}`,
+    logIndex: row.log_index,
+    blockNumber: BigInt(row.block_number),
+    openedAt: row.opened_at,
+    resolvedAt: row.resolved_at ?? undefined,
+    resolvedInFavorOfProvider: row.resolved_in_favor_of_provider === null ? undefined : row.resolved_in_favor_of_provider === 1,
+  };
+}
+
+function toProvider(row: ProviderRow): ProviderRegistration {
+  return {
+    address: row.address as `0x${string}`,
+    apiKeyHash: (row.api_key_hash ?? undefined) as `0x${string}` | undefined,
+    signers: JSON.parse(row.signers),
+    nodes: JSON.parse(row.nodes),
+    rateLimitPerMinute: row.rate_limit_per_minute ?? undefined,
+    deployment: row.deployment ?? undefined,
+    batchPolicy: row.batch_policy === null ? undefined : JSON.parse(row.batch_policy),
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at ?? undefined,
+  };
+}
+
+function toSeenNonce(row: SeenNonceRow): SeenNonce {
+  return {
+    provider: row.provider,
+    nonce: row.nonce,
+    contentHash: row.content_hash as `0x${string}`,
+    windowEnd: row.window_end,
+    leafId: row.leaf_id,
+  };
+}
+
+function toLeaf(row: LeafRow): StoredLeaf {
+  return {
+    id: row.id,
+    provider: row.provider,
+    nodeId: row.node_id,
+    windowStart: row.window_start,
+    windowEnd: row.window_end,
+    unitsConsumed: row.units_consumed,
+    rateId: row.rate_id,
+    nonce: row.nonce,
+    providerSig: row.provider_sig,
+    receivedAt: row.received_at,
+    batchId: row.batch_id ?? undefined,
+    correlationId: row.correlation_id ?? undefined,
+  };
+}
+
+function toBatch(row: BatchRow): BatchRecord {
+  return {
+    id: row.id,
+    provider: row.provider as `0x${string}`,
+    rateId: row.rate_id ?? undefined,
+    deployment: row.deployment ?? undefined,
+    windowStart: row.window_start,
+    windowEnd: row.window_end,
+    merkleRoot: row.merkle_root as `0x${string}`,
+    treeVersion: row.tree_version as MerkleTreeVersion,
+    totalUsage: BigInt(row.total_usage),
+    policy: row.policy === null ? undefined : JSON.parse(row.policy),
+    status: row.status,
+    leafCount: row.leaf_count,
+    createdAt: row.created_at,
+    attempts: row.attempts,
+    txHash: (row.tx_hash ?? undefined) as `0x${string}` | undefined,
+    anchorId: (row.anchor_id ?? undefined) as `0x${string}` | undefined,
+    blockNumber: row.block_number === null ? undefined : BigInt(row.block_number),
+    gasUsed: row.gas_used === null ? undefined : BigInt(row.gas_used),
+    dryRun: (row.dry_run ?? undefined) as BatchRecord['dryRun'],
+    submittedAt: row.submitted_at ?? undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+/**
+ * Durable store backed by an embedded SQLite file. Pass ':memory:' for an
+ * ephemeral database with the same behaviour.
+ */
+export class SqliteStore implements RelayerStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  async addLeaf(leaf: Leaf, correlationId?: string): Promise<AddLeafResult> {
+    const findSeen = this.db.prepare('SELECT * FROM seen_nonces WHERE provider = ? AND nonce = ?');
+    const insertLeaf = this.db.prepare(`
+      INSERT INTO leaves (provider, node_id, window_start, window_end, units_consumed, rate_id, nonce, provider_sig, received_at, correlation_id)
+      VALUES (@provider, @nodeId, @windowStart, @windowEnd, @unitsConsumed, @rateId, @nonce, @providerSig, @receivedAt, @correlationId)
+      RETURNING *
+    `);
+    const insertSeen = this.db.prepare(`
+      INSERT INTO seen_nonces (provider, nonce, content_hash, window_end, leaf_id) VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const add = this.db.transaction((): AddLeafResult => {
+      const provider = leaf.provider.toLowerCase();
+      const seen = findSeen.get(provider, leaf.nonce) as SeenNonceRow | undefined;
+      if (seen) return { status: 'nonce_seen', seen: toSeenNonce(seen) };
+
+      const row = insertLeaf.get({ ...leaf, receivedAt: Date.now(), correlationId: correlationId ?? null }) as LeafRow;
+      insertSeen.run(provider, leaf.nonce, leafContentHash(leaf), leaf.windowEnd, row.id);
+      return { status: 'added', leaf: toLeaf(row) };
+    });
+
+    return add();
+  }
+
+  async findSeenNonce(provider: string, nonce: string): Promise<SeenNonce | undefined> {
+    const row = this.db.prepare('SELECT * FROM seen_nonces WHERE provider = ? AND nonce = ?')
+      .get(provider.toLowerCase(), nonce) as SeenNonceRow | undefined;
+    return row && toSeenNonce(row);
+  }
+
+  async pruneSeenNonces(windowEnd: number): Promise<number> {
+    return this.db.prepare('DELETE FROM seen_nonces WHERE window_end < ?').run(windowEnd).changes;
+  }
+
+  async findBatchedOverlap(leaf: Pick<Leaf, 'provider' | 'nodeId' | 'windowStart' | 'windowEnd'>): Promise<StoredLeaf | undefined> {
+    const row = this.db.prepare(`
+      SELECT leaves.* FROM leaves
+      JOIN batches ON batches.id = leaves.batch_id
+      WHERE batches.status != 'failed'
+        AND lower(leaves.provider) = ? AND leaves.node_id = ?
+        AND leaves.window_start < ? AND ? < leaves.window_end
+      LIMIT 1
+    `).get(leaf.provider.toLowerCase(), leaf.nodeId, leaf.windowEnd, leaf.windowStart) as LeafRow | undefined;
+    return row && toLeaf(row);
+  }
+
+  async pendingLeavesEndingBy(windowEnd: number): Promise<StoredLeaf[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM leaves
+      WHERE batch_id IS NULL AND window_end <= ?
+      ORDER BY id
+    `).all(windowEnd) as LeafRow[];
+    return rows.map(toLeaf);
+  }
+
+  async createBatch(batch: NewBatch, leafIds: number[]): Promise<BatchRecord> {
+    const insertBatch = this.db.prepare(`
+      INSERT INTO batches (provider, rate_id, deployment, window_start, window_end, merkle_root, tree_version, total_usage, policy, status, leaf_count, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+      RETURNING *
+    `);
+    const claimLeaf = this.db.prepare('UPDATE leaves SET batch_id = ? WHERE id = ? AND batch_id IS NULL');
+
+    const create = this.db.transaction(() => {
+      const row = insertBatch.get(
+        batch.provider,
+        batch.rateId ?? null,
+        batch.deployment ?? null,
+        batch.windowStart,
+        batch.windowEnd,
+        batch.merkleRoot,
+        batch.treeVersion,
+        batch.totalUsage.toString(),
+        batch.policy ? JSON.stringify(batch.policy) : null,
+        leafIds.length,
+        Date.now(),
+      ) as BatchRow;
+      for (const leafId of leafIds) {
+        if (claimLeaf.run(row.id, leafId).changes !== 1) {
+          throw new Error('Cannot batch leaves that are unknown or already batched');
+        }
+      }
+      return row;
+    });
+
+    return toBatch(create());
+  }
+
+  async markBatchConfirmed(batchId: number, confirmation: AnchorConfirmation): Promise<void> {
+    this.updateBatch(
+      `UPDATE batches
+       SET status = 'confirmed', tx_hash = ?, anchor_id = ?, block_number = ?, gas_used = ?, dry_run = ?, submitted_at = ?, error = NULL
+       WHERE id = ?`,
+      confirmation.txHash ?? null,
+      confirmation.anchorId.toLowerCase(),
+      confirmation.blockNumber?.toString() ?? null,
+      confirmation.gasUsed?.toString() ?? null,
+      confirmation.dryRun ?? null,
+      Date.now(),
+      batchId,
+    );
+  }
+
+  async markBatchRetry(batchId: number, error: string): Promise<void> {
+    this.updateBatch(`UPDATE batches SET attempts = attempts + 1, error = ? WHERE id = ?`, error, batchId);
+  }
+
+  async markBatchFailed(batchId: number, error: string, options?: { requeueLeaves?: boolean }): Promise<void> {
+    const requeueLeaves = this.db.prepare('UPDATE leaves SET batch_id = NULL WHERE batch_id = ?');
+    this.db.transaction(() => {
+      this.updateBatch(`UPDATE batches SET status = 'failed', error = ? WHERE id = ?`, error, batchId);
+      if (options?.requeueLeaves) requeueLeaves.run(batchId);
+    })();
+  }
+
+  async getBatch(batchId: number): Promise<BatchRecord | undefined> {
+    const row = this.db.prepare('SELECT * FROM batches WHERE id = ?').get(batchId) as BatchRow | undefined;
+    return row && toBatch(row);
+  }
+
+  async findBatchByAnchorId(anchorId: `0x${string}`): Promise<BatchRecord | undefined> {
+    const row = this.db.prepare('SELECT * FROM batches WHERE anchor_id = ?').get(anchorId.toLowerCase()) as BatchRow | undefined;
+    return row && toBatch(row);
+  }
+
+  async listBatches(filter: { status?: BatchStatus } = {}): Promise<BatchRecord[]> {
+    const rows = filter.status
+      ? this.db.prepare('SELECT * FROM batches WHERE status = ? ORDER BY id').all(filter.status)
+      : this.db.prepare('SELECT * FROM batches ORDER BY id').all();
+    return (rows as BatchRow[]).map(toBatch);
+  }
+
+  async listBatchHistory(query: BatchQuery = {}): Promise<BatchRecord[]> {
+    return this.pageOfBatches(query.status ?? null, query).map(toBatch);
+  }
+
+  async listBatchLeaves(batchId: number): Promise<StoredLeaf[]> {
+    const rows = this.db.prepare('SELECT * FROM leaves WHERE batch_id = ? ORDER BY id').all(batchId) as LeafRow[];
+    return rows.map(toLeaf);
+  }
+
+  async listAnchors(query: AnchorQuery = {}): Promise<AnchorRecord[]> {
+    return this.pageOfBatches('confirmed', query).map(toBatch).map(toAnchorRecord);
+  }
+
+  async summarizePendingLeaves(): Promise<PendingNodeSummary[]> {
+    const rows = this.db.prepare(`
+      SELECT lower(provider) AS provider, node_id, COUNT(*) AS leaves, SUM(units_consumed) AS units,
+        MIN(window_end) AS oldest_window_end, MAX(window_end) AS newest_window_end, MAX(received_at) AS last_received_at
+      FROM leaves
+      WHERE batch_id IS NULL
+      GROUP BY lower(provider), node_id
+      ORDER BY lower(provider), node_id
+    `).all() as Array<{
+      provider: string;
+      node_id: string;
+      leaves: number;
+      units: number;
+      oldest_window_end: number;
+      newest_window_end: number;
+      last_received_at: number;
+    }>;
+    return rows.map(row => ({
+      provider: row.provider,
+      nodeId: row.node_id,
+      leaves: row.leaves,
+      units: BigInt(row.units),
+      oldestWindowEnd: row.oldest_window_end,
+      newestWindowEnd: row.newest_window_end,
+      lastReceivedAt: row.last_received_at,
+    }));
+  }
+
+  async providerActivity(now: number, provider?: string): Promise<ProviderActivity[]> {
+    const hourMs = 60 * 60 * 1000;
+    const params = { provider: provider?.toLowerCase() ?? null, hour: now - hourMs, day: now - 24 * hourMs };
+    const leafRows = this.db.prepare(`
+      SELECT lower(provider) AS provider,
+        SUM(received_at >= @hour) AS leaves_last_hour,
+        SUM(received_at >= @day) AS leaves_last_day,
+        SUM(batch_id IS NULL) AS pending_leaves,
+        MAX(id) AS last_leaf_id
+      FROM leaves
+      WHERE @provider IS NULL OR lower(provider) = @provider
+      GROUP BY lower(provider)
+    `).all(params) as Array<{ provider: string; leaves_last_hour: number; leaves_last_day: number; pending_leaves: number; last_leaf_id: number }>;
+    // Totals are decimal text, so they are summed as bigint here rather than in SQL
+    const anchorRows = this.db.prepare(`
+      SELECT lower(provider) AS provider, total_usage, submitted_at
+      FROM batches
+      WHERE status = 'confirmed' AND (@provider IS NULL OR lower(provider) = @provider)
+    `).all(params) as Array<{ provider: string; total_usage: string; submitted_at: number | null }>;
+    const lastLeaf = this.db.prepare('SELECT node_id, received_at FROM leaves WHERE id = ?');
+
+    const activity = new Map<string, ProviderActivity>();
+    const entry = (key: string) => {
+      let found = activity.get(key);
+      if (!found) {
+        found = { provider: key, leavesLastHour: 0, leavesLastDay: 0, pendingLeaves: 0, anchors: 0, unitsAnchored: 0n };
+        activity.set(key, found);
+      }
+      return found;
+    };
+    for (const row of leafRows) {
+      const found = entry(row.provider);
+      const last = lastLeaf.get(row.last_leaf_id) as { node_id: string; received_at: number };
+      found.lastSeen = { nodeId: last.node_id, receivedAt: last.received_at };
+      found.leavesLastHour = row.leaves_last_hour;
+      found.leavesLastDay = row.leaves_last_day;
+      found.pendingLeaves = row.pending_leaves;
+    }
+    for (const row of anchorRows) {
+      const found = entry(row.provider);
+      found.anchors++;
+      found.unitsAnchored += BigInt(row.total_usage);
+      found.lastAnchoredAt = Math.max(found.lastAnchoredAt ?? 0, row.submitted_at ?? 0) || undefined;
+    }
+    return [...activity.values()].sort((a, b) => a.provider.localeCompare(b.provider));
+  }
+
+  async saveProvider(registration: ProviderRegistration): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO providers (address, api_key_hash, signers, nodes, rate_limit_per_minute, deployment, batch_policy, created_at, revoked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL)
+    `).run(
+      registration.address,
+      registration.apiKeyHash?.toLowerCase() ?? null,
+      JSON.stringify(registration.signers),
+      JSON.stringify(registration.nodes),
+      registration.rateLimitPerMinute ?? null,
+      registration.deployment ?? null,
+      registration.batchPolicy ? JSON.stringify(registration.batchPolicy) : null,
+      registration.createdAt,
+    );
+  }
+
+  async getProvider(address: string): Promise<ProviderRegistration | undefined> {
+    const row = this.db.prepare('SELECT * FROM providers WHERE lower(address) = ?').get(address.toLowerCase()) as ProviderRow | undefined;
+    return row && toProvider(row);
+  }
+
+  async findProviderByApiKeyHash(apiKeyHash: `0x${string}`): Promise<ProviderRegistration | undefined> {
+    const row = this.db.prepare('SELECT * FROM providers WHERE api_key_hash = ?').get(apiKeyHash.toLowerCase()) as ProviderRow | undefined;
+    return row && toProvider(row);
+  }
+
+  async listProviders(): Promise<ProviderRegistration[]> {
+    const rows = this.db.prepare('SELECT * FROM providers ORDER BY created_at').all() as ProviderRow[];
+    return rows.map(toProvider);
+  }
+
+  async revokeProvider(address: string): Promise<boolean> {
+    const { changes } = this.db.prepare('UPDATE providers SET revoked_at = ? WHERE lower(address) = ? AND revoked_at IS NULL')
+      .run(Date.now(), address.toLowerCase());
+    return changes === 1;
+  }
+
+  async recordDispute(dispute: NewDispute): Promise<{ dispute: DisputeRecord; created: boolean }> {
+    const inserted = this.db.prepare(`
+      INSERT INTO disputes (deployment, anchor_id, disputant, reason, tx_hash, log_index, block_number, opened_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (tx_hash, log_index) DO NOTHING
+      RETURNING *
+    `).get(
+      dispute.deployment,
+      dispute.anchorId.toLowerCase(),
+      dispute.disputant,
+      dispute.reason,
+      dispute.txHash.toLowerCase(),
+      dispute.logIndex,
+      dispute.blockNumber.toString(),
+      Date.now(),
+    ) as DisputeRow | undefined;
+    if (inserted) return { dispute: toDispute(inserted), created: true };
+    const existing = this.db.prepare('SELECT * FROM disputes WHERE tx_hash = ? AND log_index = ?')
+      .get(dispute.txHash.toLowerCase(), dispute.logIndex) as DisputeRow;
+    return { dispute: toDispute(existing), created: false };
+  }
+
+  async markDisputeResolved(deployment: string, anchorId: `0x${string}`, resolvedInFavorOfProvider: boolean): Promise<DisputeRecord | undefined> {
+    const row = this.db.prepare(`
+      UPDATE disputes SET resolved_at = ?, resolved_in_favor_of_provider = ?
+      WHERE id = (
+        SELECT MAX(id) FROM disputes WHERE deployment = ? AND anchor_id = ? AND resolved_at IS NULL
+      )
+      RETURNING *
+    `).get(Date.now(), resolvedInFavorOfProvider ? 1 : 0, deployment, anchorId.toLowerCase()) as DisputeRow | undefined;
+    return row && toDispute(row);
+  }
+
+  async listDisputes({ anchorId, open, limit = 100, beforeId }: DisputeQuery = {}): Promise<DisputeRecord[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM disputes
+      WHERE (@anchorId IS NULL OR anchor_id = @anchorId)
+        AND (@open IS NULL OR (resolved_at IS NULL) = @open)
+        AND (@beforeId IS NULL OR id < @beforeId)
+      ORDER BY id DESC
+      LIMIT @limit
+    `).all({
+      anchorId: anchorId?.toLowerCase() ?? null,
+      open: open === undefined ? null : Number(open),
+      beforeId: beforeId ?? null,
+      limit,
+    }) as DisputeRow[];
+    return rows.map(toDispute);
+  }
+
+  async getChainCursor(key: string): Promise<bigint | undefined> {
+    const row = this.db.prepare('SELECT block FROM chain_cursors WHERE key = ?').get(key) as { block: string } | undefined;
+    return row && BigInt(row.block);
+  }
+
+  async setChainCursor(key: string, block: bigint): Promise<void> {
+    this.db.prepare('INSERT OR REPLACE INTO chain_cursors (key, block) VALUES (?, ?)').run(key, block.toString());
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  /** Add columns introduced after a database file was first created */
+  private migrate() {
+    const columnsOf = (table: string) => new Set(
+      (this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name),
+    );
+
+    const batchColumns = columnsOf('batches');
+    for (const column of ['block_number', 'gas_used', 'deployment', 'policy', 'dry_run']) {
+      if (!batchColumns.has(column)) this.db.exec(`ALTER TABLE batches ADD COLUMN ${column} TEXT`);
+    }
+    if (!batchColumns.has('attempts')) {
+      this.db.exec('ALTER TABLE batches ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0');
+    }
+    // Batches from before tree versions were all built with version 1
+    if (!batchColumns.has('tree_version')) {
+      this.db.exec('ALTER TABLE batches ADD COLUMN tree_version INTEGER NOT NULL DEFAULT 1');
+    }
+    if (!columnsOf('leaves').has('correlation_id')) this.db.exec('ALTER TABLE leaves ADD COLUMN correlation_id TEXT');
+    // Replaced by leaves_provider_node, which lookups by lowercased provider can use
+    this.db.exec('DROP INDEX IF EXISTS leaves_node');
+    const providerColumns = columnsOf('providers');
+    for (const column of ['deployment', 'batch_policy']) {
+      if (!providerColumns.has(column)) this.db.exec(`ALTER TABLE providers ADD COLUMN ${column} TEXT`);
+    }
+  }
+
+  private pageOfBatches(status: BatchStatus | null, { provider, limit = 100, beforeId }: BatchQuery): BatchRow[] {
+    return this.db.prepare(`
+      SELECT * FROM batches
+      WHERE (@status IS NULL OR status = @status)
+        AND (@provider IS NULL OR lower(provider) = @provider)
+        AND (@beforeId IS NULL OR id < @beforeId)
+      ORDER BY id DESC
+      LIMIT @limit
+    `).all({ status, provider: provider?.toLowerCase() ?? null, beforeId: beforeId ?? null, limit }) as BatchRow[];
+  }
+
+  private updateBatch(sql: string, ...params: unknown[]) {
+    const { changes } = this.db.prepare(sql).run(...params);
+    if (changes !== 1) throw new Error(`Unknown batch ${params[params.length - 1]}`);
+  }
+}
@@ -0,0 +1,238 @@
+import type { MerkleTreeVersion } from '@edgecharge/shared';
+import type { AppliedBatchPolicy, BatchPolicy } from '../domain/batchPolicy.js';
+import type { Leaf } from '../domain/leaf.js';
+
+export type StoredLeaf = Leaf & {
+  id: number;
+  receivedAt: number;
+  batchId?: number;
+  /** Request id of the submission that delivered the leaf, carried into batch and transaction logs */
+  correlationId?: string;
+};
+
+/** A (provider, nonce) pair the relayer has accepted, kept for the retention horizon */
+export type SeenNonce = {
+  provider: string;
+  nonce: string;
+  contentHash: `0x${string}`;
+  windowEnd: number;
+  leafId: number;
+};
+
+export type AddLeafResult =
+  | { status: 'added'; leaf: StoredLeaf }
+  | { status: 'nonce_seen'; seen: SeenNonce };
+
+export type BatchStatus = 'pending' | 'confirmed' | 'failed';
+
+export type NewBatch = {
+  provider: `0x${string}`;
+  rateId?: string;
+  /** Name of the EdgeCharge deployment the batch is anchored to; unset means the default one */
+  deployment?: string;
+  windowStart: number;
+  windowEnd: number;
+  merkleRoot: `0x${string}`;
+  /** Tree format the root was built with; proofs are rebuilt with the same one */
+  treeVersion: MerkleTreeVersion;
+  totalUsage: bigint;
+  /** The batch policy the leaves were released under; unset for batches from before policies */
+  policy?: AppliedBatchPolicy;
+};
+
+/**
+ * What the chain told us about a mined anchor transaction. Only the anchorId
+ * is certain when the anchor was found to exist already.
+ */
+export type AnchorConfirmation = {
+  anchorId: `0x${string}`;
+  txHash?: `0x${string}`;
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+  /** Set when DRY_RUN built the anchor without sending it; such anchors have no transaction */
+  dryRun?: 'simulate' | 'journal';
+};
+
+export type BatchRecord = NewBatch & Partial<AnchorConfirmation> & {
+  id: number;
+  status: BatchStatus;
+  leafCount: number;
+  createdAt: number;
+  /** Submissions that failed and put the batch back in the pending pool */
+  attempts: number;
+  submittedAt?: number;
+  error?: string;
+};
+
+export type AnchorRecord = Partial<AnchorConfirmation> & {
+  batchId: number;
+  deployment?: string;
+  provider: `0x${string}`;
+  /** The one rate every leaf of the anchor is billed at; unset for anchors that mix rates */
+  rateId?: string;
+  windowStart: number;
+  windowEnd: number;
+  merkleRoot: `0x${string}`;
+  treeVersion: MerkleTreeVersion;
+  totalUsage: bigint;
+  policy?: AppliedBatchPolicy;
+  submittedAt?: number;
+};
+
+/** Newest first; `beforeId` is the cursor of the previous page (the last id it returned) */
+export type PageQuery = {
+  limit?: number;
+  beforeId?: number;
+};
+
+export type AnchorQuery = PageQuery & { provider?: string };
+
+export type BatchQuery = PageQuery & { provider?: string; status?: BatchStatus };
+
+/** Unbatched leaves of one provider node */
+export type PendingNodeSummary = {
+  /** Lowercase */
+  provider: string;
+  nodeId: string;
+  leaves: number;
+  units: bigint;
+  oldestWindowEnd: number;
+  newestWindowEnd: number;
+  lastReceivedAt: number;
+};
+
+/** What the relayer has seen of one provider, from its own records */
+export type ProviderActivity = {
+  /** Lowercase */
+  provider: string;
+  /** Node and time of the most recently received leaf */
+  lastSeen?: { nodeId: string; receivedAt: number };
+  leavesLastHour: number;
+  leavesLastDay: number;
+  /** Leaves not yet claimed by a batch */
+  pendingLeaves: number;
+  anchors: number;
+  unitsAnchored: bigint;
+  lastAnchoredAt?: number;
+};
+
+/** A DisputeOpened event seen on a deployment, with its outcome once DisputeResolved is seen */
+export type DisputeRecord = {
+  id: number;
+  deployment: string;
+  anchorId: `0x${string}`;
+  disputant: `0x${string}`;
+  reason: string;
+  txHash: `0x${string}`;
+  logIndex: number;
+  blockNumber: bigint;
+  /** When the relayer recorded the event */
+  openedAt: number;
+  resolvedAt?: number;
+  resolvedInFavorOfProvider?: boolean;
+};
+
+export type NewDispute = Omit<DisputeRecord, 'id' | 'openedAt' | 'resolvedAt' | 'resolvedInFavorOfProvider'>;
+
+export type DisputeQuery = PageQuery & { anchorId?: `0x${string}`; open?: boolean };
+
+/**
+ * A provider allowed to submit leaves. Requests authenticate either with an
+ * API key (only its SHA-256 is kept) or with a signature from one of
+ * `signers`; `nodes` restricts which nodeIds it may report, empty meaning any.
+ */
+export type ProviderRegistration = {
+  address: `0x${string}`;
+  apiKeyHash?: `0x${string}`;
+  signers: `0x${string}`[];
+  nodes: string[];
+  /** Overrides the relayer-wide per-provider request rate */
+  rateLimitPerMinute?: number;
+  /** The deployment the provider's usage is anchored to; unset means the default one */
+  deployment?: string;
+  /** Overrides fields of the relayer-wide batch policy for this provider's anchors */
+  batchPolicy?: BatchPolicy;
+  createdAt: number;
+  revokedAt?: number;
+};
+
+/**
+ * Persistence for everything the relayer must not lose across restarts:
+ * queued leaves, the batches built from them (with leaf membership) and
+ * the on-chain status of each batch.
+ *
+ * Leaves stay pending until `createBatch` claims them, so a crash between
+ * reading and batching never drops usage.
+ */
+export interface RelayerStore {
+  /** Store a leaf unless its (provider, nonce) was already seen; the check and insert are atomic */
+  addLeaf(leaf: Leaf, correlationId?: string): Promise<AddLeafResult>;
+  findSeenNonce(provider: string, nonce: string): Promise<SeenNonce | undefined>;
+  /** Forget nonces of leaves whose window ended before `windowEnd` */
+  pruneSeenNonces(windowEnd: number): Promise<number>;
+  /** A leaf of the same provider and node, in a batch that was not failed, whose window overlaps */
+  findBatchedOverlap(leaf: Pick<Leaf, 'provider' | 'nodeId' | 'windowStart' | 'windowEnd'>): Promise<StoredLeaf | undefined>;
+  /** Unbatched leaves whose windowEnd is at or before `windowEnd`, however old */
+  pendingLeavesEndingBy(windowEnd: number): Promise<StoredLeaf[]>;
+  /** Atomically create a batch and assign the given pending leaves to it */
+  createBatch(batch: NewBatch, leafIds: number[]): Promise<BatchRecord>;
+  markBatchConfirmed(batchId: number, confirmation: AnchorConfirmation): Promise<void>;
+  /** Record a failed submission and keep the batch pending so it is submitted again */
+  markBatchRetry(batchId: number, error: string): Promise<void>;
+  /**
+   * Give up on a batch. Its leaves stay in it, parked for diagnosis, unless
+   * `requeueLeaves` atomically returns them to the pending pool to be batched again
+   */
+  markBatchFailed(batchId: number, error: string, options?: { requeueLeaves?: boolean }): Promise<void>;
+  getBatch(batchId: number): Promise<BatchRecord | undefined>;
+  findBatchByAnchorId(anchorId: `0x${string}`): Promise<BatchRecord | undefined>;
+  /** Every batch, oldest first; for the batcher's own bookkeeping */
+  listBatches(filter?: { status?: BatchStatus }): Promise<BatchRecord[]>;
+  /** One page of batches, newest first */
+  listBatchHistory(query?: BatchQuery): Promise<BatchRecord[]>;
+  listBatchLeaves(batchId: number): Promise<StoredLeaf[]>;
+  /** One page of confirmed batches, newest first */
+  listAnchors(query?: AnchorQuery): Promise<AnchorRecord[]>;
+  /** Unbatched leaves counted per provider and node */
+  summarizePendingLeaves(): Promise<PendingNodeSummary[]>;
+  /** Activity of every provider that has sent a leaf, or of just `provider`; windows end at `now` (ms) */
+  providerActivity(now: number, provider?: string): Promise<ProviderActivity[]>;
+  /** Insert or replace a provider's registration, reinstating it if it was revoked */
+  saveProvider(registration: ProviderRegistration): Promise<void>;
+  getProvider(address: string): Promise<ProviderRegistration | undefined>;
+  findProviderByApiKeyHash(apiKeyHash: `0x${string}`): Promise<ProviderRegistration | undefined>;
+  listProviders(): Promise<ProviderRegistration[]>;
+  /** Returns false when the provider is unknown or already revoked */
+  revokeProvider(address: string): Promise<boolean>;
+  /** Record a dispute unless its event (txHash, logIndex) was already recorded */
+  recordDispute(dispute: NewDispute): Promise<{ dispute: DisputeRecord; created: boolean }>;
+  /** Resolve the open dispute on an anchor; undefined when there is none */
+  markDisputeResolved(deployment: string, anchorId: `0x${string}`, resolvedInFavorOfProvider: boolean): Promise<DisputeRecord | undefined>;
+  /** One page of disputes, newest first */
+  listDisputes(query?: DisputeQuery): Promise<DisputeRecord[]>;
+  /** The last block a chain watcher has processed, by watcher key */
+  getChainCursor(key: string): Promise<bigint | undefined>;
+  setChainCursor(key: string, block: bigint): Promise<void>;
+  close(): Promise<void>;
+}
+
+export function toAnchorRecord(batch: BatchRecord): AnchorRecord {
+  return {
+    batchId: batch.id,
+    deployment: batch.deployment,
+    anchorId: batch.anchorId,
+    provider: batch.provider,
+    rateId: batch.rateId,
+    windowStart: batch.windowStart,
+    windowEnd: batch.windowEnd,
+    merkleRoot: batch.merkleRoot,
+    treeVersion: batch.treeVersion,
+    totalUsage: batch.totalUsage,
+    policy: batch.policy,
+    txHash: batch.txHash,
+    blockNumber: batch.blockNumber,
+    gasUsed: batch.gasUsed,
+    dryRun: batch.dryRun,
+    submittedAt: batch.submittedAt,
+  };
+}
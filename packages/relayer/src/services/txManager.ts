@@ -0,0 +1,220 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  NonceTooHighError,
+  NonceTooLowError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  zeroAddress,
+  type Account,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type Transport,
+  type WalletClient,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { loadEnv } from '../config/env.js';
+import type { Logger } from '../lib/logger.js';
+import { logger } from './logger.js';
+import { rpcErrors } from './metrics.js';
+
+export type TransactionManagerOptions = {
+  /** Attempts per transaction when the RPC fails before it is broadcast */
+  maxAttempts: number;
+  /** First retry delay; doubles on each further attempt */
+  retryBaseDelayMs: number;
+  /** How long to wait for a receipt before replacing the transaction */
+  stuckAfterMs: number;
+  /** Fee increase per replacement; nodes require at least 10% */
+  feeBumpPercent: number;
+  maxFeeBumps: number;
+};
+
+export type TransactionRequest = {
+  to: `0x${string}`;
+  data: Hex;
+};
+
+type Fees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint; gasPrice?: undefined }
+  | { gasPrice: bigint; maxFeePerGas?: undefined; maxPriorityFeePerGas?: undefined };
+
+export class StuckTransactionError extends Error {
+  constructor(readonly nonce: number, readonly hashes: Hex[]) {
+    super(`Transaction with nonce ${nonce} not mined after ${hashes.length} fee bump(s)`);
+    this.name = 'StuckTransactionError';
+  }
+}
+
+/** The call itself reverts; resending cannot help */
+export function isRevertError(err: unknown): boolean {
+  return err instanceof BaseError
+    && !!err.walk(e => e instanceof ExecutionRevertedError || e instanceof ContractFunctionRevertedError);
+}
+
+/** The innermost error's name, e.g. HttpRequestError or TimeoutError, for labelling failures */
+export function errorType(err: unknown): string {
+  if (err instanceof BaseError) return (err.walk() as Error).name;
+  return err instanceof Error ? err.name : 'unknown';
+}
+
+function isNonceError(err: unknown): boolean {
+  return err instanceof BaseError
+    && !!err.walk(e => e instanceof NonceTooLowError || e instanceof NonceTooHighError);
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function bumpFees(fees: Fees, percent: number): Fees {
+  const bump = (value: bigint) => (value * BigInt(100 + percent) + 99n) / 100n;
+  return fees.gasPrice !== undefined
+    ? { gasPrice: bump(fees.gasPrice) }
+    : { maxFeePerGas: bump(fees.maxFeePerGas), maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas) };
+}
+
+/**
+ * Relayer-wide sender for the relayer account. Transactions go out one at a
+ * time from a locally tracked nonce; a transaction that is not mined within
+ * `stuckAfterMs` is replaced at the same nonce with bumped fees, and RPC
+ * failures before broadcast are retried with exponential backoff.
+ */
+export class TransactionManager {
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextNonce?: number;
+
+  constructor(
+    readonly publicClient: PublicClient,
+    private walletClient: WalletClient<Transport, Chain, Account>,
+    private options: TransactionManagerOptions,
+  ) {}
+
+  get address(): `0x${string}` {
+    return this.walletClient.account.address;
+  }
+
+  /** Queue `tx`; pass a child logger to tie the transaction's log lines to what it carries */
+  send(tx: TransactionRequest, log: Logger = logger): Promise<TransactionReceipt> {
+    const run = this.queue.then(() => this.sendWithRetries(tx, log));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async sendWithRetries(tx: TransactionRequest, log: Logger): Promise<TransactionReceipt> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendAndConfirm(tx, log);
+      } catch (err) {
+        if (isRevertError(err) || err instanceof StuckTransactionError) throw err;
+        rpcErrors.inc({ error: errorType(err) });
+        if (isNonceError(err)) this.nextNonce = undefined;
+        if (attempt >= this.options.maxAttempts) throw err;
+        const delay = this.options.retryBaseDelayMs * 2 ** (attempt - 1);
+        log.warn({ attempt, delayMs: delay, error: errorType(err), reason: err instanceof Error ? err.message : String(err) }, 'Transaction attempt failed, retrying');
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async sendAndConfirm(tx: TransactionRequest, log: Logger): Promise<TransactionReceipt> {
+    const account = this.walletClient.account;
+    // Estimation surfaces reverts before anything is broadcast
+    const gas = await this.publicClient.estimateGas({ account, to: tx.to, data: tx.data });
+    const nonce = this.nextNonce ?? await this.publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+    let fees = await this.currentFees();
+
+    const hashes: Hex[] = [];
+    for (let bump = 0; ; bump++) {
+      try {
+        hashes.push(await this.walletClient.sendTransaction({ account, chain: this.walletClient.chain, to: tx.to, data: tx.data, gas, nonce, ...fees }));
+        this.nextNonce = nonce + 1;
+        log.info({ tx: hashes[hashes.length - 1], nonce, replacement: bump }, 'Transaction broadcast');
+      } catch (err) {
+        // A replacement is refused once an earlier broadcast was mined
+        const mined = await this.findReceipt(hashes);
+        if (mined) return mined;
+        throw err;
+      }
+
+      const receipt = await this.waitForAny(hashes);
+      if (receipt) return receipt;
+      if (bump >= this.options.maxFeeBumps) {
+        // The stuck transaction may yet be dropped from the mempool, so the next send reads the nonce from the chain
+        this.nextNonce = undefined;
+        throw new StuckTransactionError(nonce, hashes);
+      }
+      fees = bumpFees(fees, this.options.feeBumpPercent);
+      log.warn({ tx: hashes[hashes.length - 1], nonce, stuckAfterMs: this.options.stuckAfterMs }, 'Transaction not mined, replacing with bumped fees');
+    }
+  }
+
+  private async currentFees(): Promise<Fees> {
+    try {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await this.publicClient.estimateFeesPerGas();
+      return { maxFeePerGas, maxPriorityFeePerGas };
+    } catch {
+      // Chains without EIP-1559 blocks only take a legacy gas price
+      return { gasPrice: await this.publicClient.getGasPrice() };
+    }
+  }
+
+  /** Wait on the latest broadcast, then check whether an earlier one won the nonce */
+  private async waitForAny(hashes: Hex[]): Promise<TransactionReceipt | undefined> {
+    try {
+      return await this.publicClient.waitForTransactionReceipt({
+        hash: hashes[hashes.length - 1],
+        timeout: this.options.stuckAfterMs,
+      });
+    } catch {
+      return this.findReceipt(hashes);
+    }
+  }
+
+  private async findReceipt(hashes: Hex[]): Promise<TransactionReceipt | undefined> {
+    for (const hash of hashes) {
+      try {
+        return await this.publicClient.getTransactionReceipt({ hash });
+      } catch {
+        // not mined (or not known to this node)
+      }
+    }
+    return undefined;
+  }
+}
+
+const managers = new Map<number, TransactionManager>();
+
+/**
+ * The process-wide manager for RELAYER_PRIVATE_KEY on `chain`, so every
+ * sender on a chain shares one nonce sequence. Deployments on the same
+ * chain share a manager; the first one's RPC URL is used.
+ */
+export function getTransactionManager(chain: Chain, rpcUrl: string): TransactionManager {
+  let manager = managers.get(chain.id);
+  if (!manager) {
+    const env = loadEnv();
+    // Without a key (only allowed in a dry run) the manager can read and simulate but not sign
+    const account = env.RELAYER_PRIVATE_KEY
+      ? privateKeyToAccount(env.RELAYER_PRIVATE_KEY as `0x${string}`)
+      : ((env.RELAYER_ADDRESS ?? zeroAddress) as `0x${string}`);
+    const transport = http(rpcUrl);
+    manager = new TransactionManager(
+      createPublicClient({ chain, transport }),
+      createWalletClient({ account, chain, transport }),
+      {
+        maxAttempts: env.TX_MAX_ATTEMPTS,
+        retryBaseDelayMs: env.TX_RETRY_BASE_DELAY_MS,
+        stuckAfterMs: env.TX_STUCK_AFTER_MS,
+        feeBumpPercent: env.TX_FEE_BUMP_PERCENT,
+        maxFeeBumps: env.TX_MAX_FEE_BUMPS,
+      },
+    );
+    managers.set(chain.id, manager);
+  }
+  return manager;
+}
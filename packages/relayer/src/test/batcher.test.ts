@@ -0,0 +1,258 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Leaf } from '../domain/leaf.js';
+import { epochEndOf, lastClosedEpochEnd } from '../lib/epochs.js';
+import { resolveBatchPolicy } from '../domain/batchPolicy.js';
+import { applyBatchPolicy, canRequeueLeaves, groupLeaves, planEpochGroups, resumePendingBatches } from '../services/batcher.js';
+import { MemoryStore } from '../services/memoryStore.js';
+import type { StoredLeaf } from '../services/store.js';
+import type { TransactionManager } from '../services/txManager.js';
+
+const providerA = '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb';
+const providerB = '0x00000000000000000000000000000000000000B0';
+
+function leaf(provider: string, rateId: string, nonce: string): Leaf {
+  return {
+    provider,
+    nodeId: 'test-node-001',
+    windowStart: 1690000000,
+    windowEnd: 1690000060,
+    unitsConsumed: 100,
+    rateId,
+    nonce,
+    providerSig: '0x00',
+  };
+}
+
+describe('groupLeaves', () => {
+  it('should put each provider in its own group', () => {
+    const groups = groupLeaves([
+      leaf(providerA, 'rate-1', '0x01'),
+      leaf(providerB, 'rate-1', '0x02'),
+      leaf(providerA, 'rate-2', '0x03'),
+    ]);
+
+    assert.equal(groups.length, 2);
+    assert.equal(groups[0].provider, providerA);
+    assert.deepEqual(groups[0].leaves.map(l => l.nonce), ['0x01', '0x03']);
+    assert.equal(groups[1].provider, providerB);
+    assert.deepEqual(groups[1].leaves.map(l => l.nonce), ['0x02']);
+  });
+
+  it('should treat provider addresses case-insensitively', () => {
+    const groups = groupLeaves([
+      leaf(providerA, 'rate-1', '0x01'),
+      leaf(providerA.toLowerCase(), 'rate-1', '0x02'),
+    ]);
+
+    assert.equal(groups.length, 1);
+    assert.equal(groups[0].leaves.length, 2);
+  });
+
+  it('should split a provider by rateId when requested', () => {
+    const groups = groupLeaves([
+      leaf(providerA, 'rate-1', '0x01'),
+      leaf(providerA, 'rate-2', '0x02'),
+      leaf(providerA, 'rate-1', '0x03'),
+    ], { byRateId: true });
+
+    assert.equal(groups.length, 2);
+    assert.deepEqual(groups.map(g => g.rateId), ['rate-1', 'rate-2']);
+    assert.deepEqual(groups[0].leaves.map(l => l.nonce), ['0x01', '0x03']);
+  });
+});
+
+describe('epochs', () => {
+  const epochs = { epochSeconds: 300, graceSeconds: 30 };
+
+  it('should align epochs to the wall clock', () => {
+    assert.equal(epochEndOf(1690000001, 300), 1690000200);
+    assert.equal(epochEndOf(1690000200, 300), 1690000200);
+  });
+
+  it('should only close an epoch once its grace period is over', () => {
+    assert.equal(lastClosedEpochEnd(1690000229, epochs), 1689999900);
+    assert.equal(lastClosedEpochEnd(1690000230, epochs), 1690000200);
+  });
+});
+
+describe('planEpochGroups', () => {
+  const epochs = { epochSeconds: 300, graceSeconds: 30 };
+  // Epochs end at 1689999900, 1690000200 and 1690000500; the latter is closing
+  const closing = 1690000500;
+
+  function stored(id: number, windowEnd: number, receivedAtSeconds: number): StoredLeaf {
+    return { ...leaf(providerA, 'rate-1', `0x${id}`), id, windowStart: windowEnd - 60, windowEnd, receivedAt: receivedAtSeconds * 1000 };
+  }
+
+  const onTime = stored(1, 1690000450, 1690000460);
+  const graced = stored(2, 1690000190, 1690000220);
+  const straggler = stored(3, 1690000190, 1690000400);
+  const leaves = [onTime, graced, straggler];
+
+  it('should anchor on-time leaves with their own epoch, even an older one', () => {
+    const groups = planEpochGroups([onTime, graced], closing, { ...epochs, policy: 'catch_up' });
+
+    assert.deepEqual(groups.map(g => [g.epochEnd, g.catchUp, g.leaves.map(l => l.id)]), [
+      [1690000200, false, [2]],
+      [1690000500, false, [1]],
+    ]);
+  });
+
+  it('should give stragglers a separate catch-up anchor', () => {
+    const groups = planEpochGroups(leaves, closing, { ...epochs, policy: 'catch_up' });
+
+    assert.deepEqual(groups.map(g => [g.epochEnd, g.catchUp, g.leaves.map(l => l.id)]), [
+      [1690000200, false, [2]],
+      [1690000200, true, [3]],
+      [1690000500, false, [1]],
+    ]);
+  });
+
+  it('should roll stragglers into the closing epoch', () => {
+    const groups = planEpochGroups(leaves, closing, { ...epochs, policy: 'next_epoch' });
+
+    assert.deepEqual(groups.map(g => [g.epochEnd, g.leaves.map(l => l.id), g.rolledOver]), [
+      [1690000200, [2], 0],
+      [1690000500, [1, 3], 1],
+    ]);
+  });
+
+  it('should not treat leaves of the closing epoch as stragglers', () => {
+    const justLate = stored(4, 1690000450, 1690000540);
+    const groups = planEpochGroups([justLate], closing, { ...epochs, policy: 'catch_up' });
+
+    assert.deepEqual(groups.map(g => [g.epochEnd, g.catchUp]), [[1690000500, false]]);
+  });
+});
+
+describe('applyBatchPolicy', () => {
+  const epochs = { epochSeconds: 300, graceSeconds: 30 };
+  const closing = 1690000500;
+  const defaults = { minUsage: 0, maxWaitSeconds: 3600 };
+
+  function stored(id: number, windowEnd: number, unitsConsumed = 100, provider = providerA): StoredLeaf {
+    return { ...leaf(provider, 'rate-1', `0x${id}`), id, windowStart: windowEnd - 60, windowEnd, unitsConsumed, receivedAt: (windowEnd + 10) * 1000 };
+  }
+
+  function plan(leaves: StoredLeaf[], policyOf: Parameters<typeof applyBatchPolicy>[1]['policyOf'], nowSeconds = closing + 30) {
+    const groups = planEpochGroups(leaves, closing, { ...epochs, policy: 'next_epoch', byRateId: true });
+    return applyBatchPolicy(groups, { policyOf, epochSeconds: epochs.epochSeconds, nowSeconds });
+  }
+
+  it('should anchor each epoch group as it is without thresholds', () => {
+    const { batches, held } = plan([stored(1, 1690000190), stored(2, 1690000450)], () => resolveBatchPolicy(defaults));
+
+    assert.deepEqual(batches.map(b => [b.epochEnd, b.leaves.map(l => l.id), b.policy.trigger]), [
+      [1690000200, [1], 'ready'],
+      [1690000500, [2], 'ready'],
+    ]);
+    assert.deepEqual(held, []);
+  });
+
+  it('should split groups over maxLeaves in arrival order and count paths per anchor', () => {
+    const leaves = [stored(3, 1690000450), stored(1, 1690000450), stored(2, 1690000450)];
+    const { batches } = plan(leaves, () => resolveBatchPolicy({ ...defaults, maxLeaves: 2 }));
+
+    assert.deepEqual(batches.map(b => b.leaves.map(l => l.id)), [[1, 2], [3]]);
+    assert.deepEqual(batches.map(b => b.paths.on_time), [2, 1]);
+    assert.equal(batches[0].policy.maxLeaves, 2);
+  });
+
+  it('should carry groups below minUsage into the next epoch and hold what is still short', () => {
+    const policy = resolveBatchPolicy(defaults, { minUsage: 250 });
+    const carried = plan([stored(1, 1690000190), stored(2, 1690000450, 200)], () => policy);
+    assert.deepEqual(carried.batches.map(b => [b.epochEnd, b.leaves.map(l => l.id), b.policy.source]), [[1690000500, [1, 2], 'provider']]);
+
+    const short = plan([stored(1, 1690000190), stored(2, 1690000450)], () => policy);
+    assert.deepEqual(short.batches, []);
+    assert.deepEqual(short.held.map(h => [h.leaves.map(l => l.id), h.usage]), [[[1, 2], 200n]]);
+  });
+
+  it('should anchor held leaves once the oldest has waited maxWaitSeconds', () => {
+    const policy = resolveBatchPolicy(defaults, { minUsage: 1000, maxWaitSeconds: 600 });
+    const leaves = [stored(1, 1690000190), stored(2, 1690000450)];
+
+    assert.equal(plan(leaves, () => policy, 1690000190 + 10 + 599).batches.length, 0);
+    const { batches } = plan(leaves, () => policy, 1690000190 + 10 + 600);
+    assert.deepEqual(batches.map(b => [b.leaves.map(l => l.id), b.policy.trigger]), [[[1, 2], 'max_wait']]);
+  });
+
+  it('should apply each provider its own policy', () => {
+    const leaves = [stored(1, 1690000450, 100), stored(2, 1690000450, 100, providerB)];
+    const { batches, held } = plan(leaves, provider =>
+      resolveBatchPolicy(defaults, provider.toLowerCase() === providerB.toLowerCase() ? { minUsage: 500 } : undefined));
+
+    assert.deepEqual(batches.map(b => [b.provider, b.policy.source]), [[providerA, 'default']]);
+    assert.deepEqual(held.map(h => h.provider), [providerB]);
+  });
+});
+
+describe('resumePendingBatches', () => {
+  it('should park the leaves of a batch whose deployment is gone', async () => {
+    const store = new MemoryStore();
+    const added = await store.addLeaf(leaf(providerA, 'rate-1', '0x01'));
+    assert.equal(added.status, 'added');
+    const stored = (added as Extract<typeof added, { status: 'added' }>).leaf;
+    // An unconfigured deployment fails the submission before anything is sent, and leaves nothing to check on chain
+    const batch = await store.createBatch(
+      {
+        provider: providerA,
+        deployment: 'not-configured',
+        windowStart: 1690000000,
+        windowEnd: 1690000060,
+        merkleRoot: `0x${'ab'.repeat(32)}`,
+        treeVersion: 2,
+        totalUsage: 100n,
+      },
+      [stored.id],
+    );
+
+    await resumePendingBatches(store, 1);
+
+    assert.equal((await store.getBatch(batch.id))?.status, 'failed');
+    assert.deepEqual((await store.listBatchLeaves(batch.id)).map(l => l.nonce), ['0x01']);
+    assert.deepEqual(await store.pendingLeavesEndingBy(1690000060), []);
+    await store.close();
+  });
+});
+
+describe('canRequeueLeaves', () => {
+  const batch = {
+    provider: providerA,
+    windowStart: 1690000000,
+    windowEnd: 1690000060,
+    merkleRoot: `0x${'ab'.repeat(32)}`,
+  } as const;
+
+  function target({ anchored = false, pendingNonce = 7, minedNonce = 7, rpcDown = false } = {}) {
+    const txManager = {
+      address: '0x00000000000000000000000000000000000000A0',
+      publicClient: {
+        readContract: async () => {
+          if (rpcDown) throw new Error('rpc down');
+          return [providerA, 0n, 0n, batch.merkleRoot, 0n, false, anchored];
+        },
+        getTransactionCount: async ({ blockTag }: { blockTag: 'pending' | 'latest' }) =>
+          blockTag === 'pending' ? pendingNonce : minedNonce,
+      },
+    };
+    return { address: '0x6715671733872Ce246A260F0497400430c4dEeD4', txManager: txManager as unknown as TransactionManager } as const;
+  }
+
+  it('should allow requeueing once nothing of the batch can land', async () => {
+    assert.equal(await canRequeueLeaves(target(), batch), true);
+  });
+
+  it('should refuse while a transaction of the relayer is still in flight', async () => {
+    assert.equal(await canRequeueLeaves(target({ pendingNonce: 8 }), batch), false);
+  });
+
+  it('should refuse once the batch was anchored after all', async () => {
+    assert.equal(await canRequeueLeaves(target({ anchored: true }), batch), false);
+  });
+
+  it('should refuse when the chain cannot be read', async () => {
+    assert.equal(await canRequeueLeaves(target({ rpcDown: true }), batch), false);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { resolveChain, u2uNebulasTestnet } from '../config/chain.js';
+import { resolveDeployments } from '../config/deployments.js';
+
+const ignitionAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const explicitAddress = '0x6715671733872Ce246A260F0497400430c4dEeD4';
+
+describe('resolveChain', () => {
+  it('should default to the U2U Nebulas testnet', () => {
+    assert.equal(resolveChain({}).id, u2uNebulasTestnet.id);
+    assert.equal(resolveChain({ chainId: 2484 }), u2uNebulasTestnet);
+  });
+
+  it('should find viem chains by name or id', () => {
+    assert.equal(resolveChain({ chain: 'Hardhat' }).id, 31337);
+    assert.equal(resolveChain({ chain: 'sepolia', chainId: 11155111 }).id, 11155111);
+    assert.equal(resolveChain({ chainId: 31337 }).id, 31337);
+  });
+
+  it('should reject an unknown name or a mismatched id', () => {
+    assert.throws(() => resolveChain({ chain: 'nowhere' }), /Unknown chain/);
+    assert.throws(() => resolveChain({ chain: 'hardhat', chainId: 2484 }), /has id 31337/);
+  });
+
+  it('should build a custom chain from an unknown id and its RPC URL', () => {
+    const chain = resolveChain({ chainId: 987654321, rpcUrl: 'http://10.0.0.5:8545' });
+    assert.equal(chain.id, 987654321);
+    assert.deepEqual(chain.rpcUrls.default.http, ['http://10.0.0.5:8545']);
+    assert.throws(() => resolveChain({ chainId: 987654321 }), /set an RPC URL/);
+  });
+});
+
+describe('resolveDeployments', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relayer-ignition-'));
+    fs.mkdirSync(path.join(dir, 'chain-31337'));
+    fs.writeFileSync(
+      path.join(dir, 'chain-31337', 'deployed_addresses.json'),
+      JSON.stringify({ 'EdgeChargeModule#EdgeCharge': ignitionAddress }),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should describe a single default deployment from the chain settings', () => {
+    const [deployment, ...rest] = resolveDeployments({ CHAIN: 'hardhat', IGNITION_DEPLOYMENTS_DIR: dir });
+    assert.equal(rest.length, 0);
+    assert.equal(deployment.name, 'default');
+    assert.equal(deployment.chain.id, 31337);
+    assert.equal(deployment.address, ignitionAddress);
+    assert.equal(deployment.rpcUrl, 'http://127.0.0.1:8545');
+  });
+
+  it('should prefer RPC_URL and EDGECHARGE_ADDRESS, and accept the legacy U2U_RPC_URL', () => {
+    const [deployment] = resolveDeployments({
+      CHAIN_ID: 2484,
+      U2U_RPC_URL: 'https://u2u.example',
+      EDGECHARGE_ADDRESS: explicitAddress,
+      IGNITION_DEPLOYMENTS_DIR: dir,
+    });
+    assert.equal(deployment.rpcUrl, 'https://u2u.example');
+    assert.equal(deployment.address, explicitAddress);
+
+    const [overridden] = resolveDeployments({
+      RPC_URL: 'https://rpc.example',
+      U2U_RPC_URL: 'https://u2u.example',
+      EDGECHARGE_ADDRESS: explicitAddress,
+    });
+    assert.equal(overridden.rpcUrl, 'https://rpc.example');
+  });
+
+  it('should list EDGECHARGE_DEPLOYMENTS in order, ignoring the single-chain settings', () => {
+    const deployments = resolveDeployments({
+      CHAIN: 'sepolia',
+      IGNITION_DEPLOYMENTS_DIR: dir,
+      EDGECHARGE_DEPLOYMENTS: [
+        { name: 'local', chain: 'hardhat' },
+        { name: 'u2u', chainId: 2484, address: explicitAddress },
+      ],
+    });
+    assert.deepEqual(deployments.map(d => [d.name, d.chain.id, d.address]), [
+      ['local', 31337, ignitionAddress],
+      ['u2u', 2484, explicitAddress],
+    ]);
+  });
+
+  it('should reject duplicate names and deployments without an address', () => {
+    assert.throws(() => resolveDeployments({
+      IGNITION_DEPLOYMENTS_DIR: dir,
+      EDGECHARGE_DEPLOYMENTS: [{ name: 'local', chain: 'hardhat' }, { name: 'local', chain: 'anvil' }],
+    }), /listed twice/);
+    assert.throws(() => resolveDeployments({ CHAIN: 'sepolia', IGNITION_DEPLOYMENTS_DIR: dir }), /not found/);
+  });
+});
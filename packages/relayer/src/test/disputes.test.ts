@@ -0,0 +1,197 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount } from 'viem/accounts';
+import { buildMerkleRoot, createCanonicalJson, hashUsageLeaf, verifyMerkleProof } from '@edgecharge/shared';
+import { scanDisputes } from '../services/disputeWatcher.js';
+import { MemoryStore } from '../services/memoryStore.js';
+import type { StoredLeaf } from '../services/store.js';
+import { buildDisputeEvidence, type AnchorReader } from '../usecases/buildDisputeEvidence.js';
+
+const providerAccount = privateKeyToAccount('0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef');
+const otherAccount = privateKeyToAccount('0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890');
+const contract = '0x6715671733872Ce246A260F0497400430c4dEeD4';
+const disputant = '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb';
+const anchorId = `0x${'11'.repeat(32)}` as const;
+
+function unsignedLeaf(nonce: string, unitsConsumed = 1000) {
+  return {
+    provider: providerAccount.address,
+    nodeId: 'test-node-001',
+    windowStart: 1690000000,
+    windowEnd: 1690000060,
+    unitsConsumed,
+    rateId: 'rate-test-1',
+    nonce,
+  };
+}
+
+/** Store signed leaves and anchor them as one confirmed batch; returns the anchored root */
+async function anchor(store: MemoryStore, leaves: Array<ReturnType<typeof unsignedLeaf> & { providerSig: string }>, totalUsage: bigint) {
+  const stored: StoredLeaf[] = [];
+  for (const leaf of leaves) {
+    const result = await store.addLeaf(leaf);
+    if (result.status === 'added') stored.push(result.leaf);
+  }
+  const merkleRoot = buildMerkleRoot(stored.map(l => hashUsageLeaf(l)));
+  const batch = await store.createBatch({
+    provider: providerAccount.address,
+    windowStart: 1690000000,
+    windowEnd: 1690000060,
+    merkleRoot,
+    treeVersion: 2,
+    totalUsage,
+  }, stored.map(l => l.id));
+  await store.markBatchConfirmed(batch.id, { anchorId });
+  return merkleRoot;
+}
+
+/** A chain holding just this anchor */
+function chainWith(merkleRoot: `0x${string}`, totalUsage: bigint): AnchorReader {
+  return async id => (id === anchorId ? { merkleRoot, totalUsage } : undefined);
+}
+
+async function signed(account: typeof providerAccount, nonce: string, unitsConsumed?: number) {
+  const leaf = unsignedLeaf(nonce, unitsConsumed);
+  return { ...leaf, providerSig: await account.signMessage({ message: { raw: createCanonicalJson(leaf) as `0x${string}` } }) };
+}
+
+describe('buildDisputeEvidence', () => {
+  it('should bundle every leaf with a valid signature and proof when the anchor adds up', async () => {
+    const store = new MemoryStore();
+    const root = await anchor(store, [await signed(providerAccount, '0x01'), await signed(providerAccount, '0x02', 500)], 1500n);
+
+    const result = await buildDisputeEvidence(store, anchorId, chainWith(root, 1500n));
+    assert.ok(result.ok);
+    const { evidence } = result;
+    assert.equal(evidence.consistent, true);
+    assert.equal(evidence.checks.onChain, 'found');
+    assert.equal(evidence.checks.unitsSum, 1500n);
+    assert.equal(evidence.leaves.length, 2);
+    for (const entry of evidence.leaves) {
+      assert.deepEqual(entry.signature, { valid: true, signer: providerAccount.address });
+      assert.ok(verifyMerkleProof(entry.leafHash, entry.proof, evidence.anchor.merkleRoot));
+    }
+  });
+
+  it('should report units that do not sum to totalUsage and signatures from someone else', async () => {
+    const store = new MemoryStore();
+    const root = await anchor(store, [await signed(providerAccount, '0x01'), await signed(otherAccount, '0x02')], 5000n);
+
+    const result = await buildDisputeEvidence(store, anchorId, chainWith(root, 5000n));
+    assert.ok(result.ok);
+    const { checks, consistent, leaves } = result.evidence;
+    assert.equal(consistent, false);
+    assert.equal(checks.unitsMatchTotal, false);
+    assert.equal(checks.totalUsage, 5000n);
+    assert.equal(checks.signaturesValid, false);
+    assert.equal(checks.rootMatches, true);
+    assert.deepEqual(leaves.map(l => l.signature.valid), [true, false]);
+  });
+
+  it('should check the total and root anchored on chain rather than the stored ones', async () => {
+    const store = new MemoryStore();
+    const root = await anchor(store, [await signed(providerAccount, '0x01'), await signed(providerAccount, '0x02', 500)], 1500n);
+
+    const inflated = await buildDisputeEvidence(store, anchorId, chainWith(root, 2000n));
+    assert.ok(inflated.ok);
+    assert.equal(inflated.evidence.consistent, false);
+    assert.equal(inflated.evidence.checks.unitsMatchTotal, false);
+    assert.equal(inflated.evidence.checks.totalUsage, 2000n);
+
+    const otherRoot = await buildDisputeEvidence(store, anchorId, chainWith(`0x${'22'.repeat(32)}`, 1500n));
+    assert.ok(otherRoot.ok);
+    assert.equal(otherRoot.evidence.consistent, false);
+    assert.equal(otherRoot.evidence.checks.rootMatches, false);
+    assert.equal(otherRoot.evidence.checks.proofsValid, false);
+  });
+
+  it('should fail the bundle when the anchor is not on chain or the chain cannot be read', async () => {
+    const store = new MemoryStore();
+    await anchor(store, [await signed(providerAccount, '0x01')], 1000n);
+
+    const missing = await buildDisputeEvidence(store, anchorId, async () => undefined);
+    assert.ok(missing.ok);
+    assert.equal(missing.evidence.checks.onChain, 'missing');
+    assert.equal(missing.evidence.consistent, false);
+
+    const unreadable = await buildDisputeEvidence(store, anchorId, async () => { throw new Error('rpc down'); });
+    assert.ok(unreadable.ok);
+    assert.equal(unreadable.evidence.checks.onChain, 'unreadable');
+    assert.equal(unreadable.evidence.checks.totalUsage, undefined);
+    assert.equal(unreadable.evidence.checks.rootMatches, false);
+    assert.equal(unreadable.evidence.consistent, false);
+  });
+
+  it('should not find anchors the relayer did not submit', async () => {
+    const result = await buildDisputeEvidence(new MemoryStore(), anchorId, async () => undefined);
+    assert.deepEqual(result.ok ? undefined : result.code, 'ANCHOR_NOT_FOUND');
+  });
+});
+
+describe('scanDisputes', () => {
+  type FakeLog = { eventName: string; args: Record<string, unknown>; transactionHash: string; logIndex: number; blockNumber: bigint };
+  let store: MemoryStore;
+  let head: bigint;
+  let logs: FakeLog[];
+  let ranges: Array<[bigint, bigint]>;
+
+  const publicClient = {
+    getBlockNumber: async () => head,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      ranges.push([fromBlock, toBlock]);
+      return logs.filter(l => l.blockNumber >= fromBlock && l.blockNumber <= toBlock);
+    },
+  };
+  const target = { name: 'default', address: contract, publicClient: publicClient as any } as const;
+
+  function opened(blockNumber: bigint, logIndex = 0): FakeLog {
+    return {
+      eventName: 'DisputeOpened',
+      args: { anchorId, disputant, reason: 'usage looks inflated' },
+      transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+      logIndex,
+      blockNumber,
+    };
+  }
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    head = 120n;
+    logs = [];
+    ranges = [];
+  });
+
+  it('should start at the configured block and page through the range', async () => {
+    logs = [opened(105n)];
+
+    assert.equal(await scanDisputes(store, target, { fromBlock: 100n, blockRange: 10 }), 1);
+    assert.deepEqual(ranges, [[100n, 109n], [110n, 119n], [120n, 120n]]);
+    assert.equal(await store.getChainCursor('disputes:default'), 120n);
+
+    const [dispute] = await store.listDisputes({ anchorId });
+    assert.equal(dispute.reason, 'usage looks inflated');
+    assert.equal(dispute.deployment, 'default');
+    assert.equal(dispute.resolvedAt, undefined);
+  });
+
+  it('should continue from its cursor and record each event once', async () => {
+    logs = [opened(105n)];
+    await scanDisputes(store, target, { fromBlock: 100n, blockRange: 100 });
+
+    head = 130n;
+    logs.push({ ...opened(125n), eventName: 'DisputeResolved', args: { anchorId, resolvedInFavorOfProvider: true } });
+    ranges = [];
+    assert.equal(await scanDisputes(store, target, { fromBlock: 100n, blockRange: 100 }), 1);
+    assert.deepEqual(ranges, [[121n, 130n]]);
+
+    const disputes = await store.listDisputes();
+    assert.equal(disputes.length, 1);
+    assert.equal(disputes[0].resolvedInFavorOfProvider, true);
+    assert.deepEqual(await store.listDisputes({ open: true }), []);
+  });
+
+  it('should start at the chain head without a configured block', async () => {
+    await scanDisputes(store, target, { blockRange: 100 });
+    assert.deepEqual(ranges, [[120n, 120n]]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { eventStreamHandler } from '../server/eventStream.js';
+import { EventFeed, type PublishedEvent } from '../services/events.js';
+
+const provider = '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb';
+const otherProvider = '0x6715671733872Ce246A260F0497400430c4dEeD4';
+
+function submitted(feed: EventFeed, address: `0x${string}`, batchId: number) {
+  return feed.publish({ type: 'anchor.submitted', batchId, provider: address, attempt: 1 });
+}
+
+describe('EventFeed', () => {
+  it('should deliver only events matching the provider and type filter', () => {
+    const feed = new EventFeed();
+    const received: PublishedEvent[] = [];
+    feed.subscribe({ filter: { providers: [provider.toLowerCase()], types: ['anchor.submitted'] }, send: e => received.push(e), close() {} });
+
+    submitted(feed, provider, 1);
+    submitted(feed, otherProvider, 2);
+    feed.publish({ type: 'anchor.failed', batchId: 1, provider, error: 'nonce too low', willRetry: true });
+    feed.publish({ type: 'leaf.rejected', code: 'INVALID_JSON', message: 'Unexpected token' });
+
+    assert.deepEqual(received.map(e => [e.type, e.id]), [['anchor.submitted', 1]]);
+  });
+
+  it('should only send events without a provider to unfiltered subscribers', () => {
+    const feed = new EventFeed();
+    const all: PublishedEvent[] = [];
+    feed.subscribe({ filter: {}, send: e => all.push(e), close() {} });
+
+    feed.publish({ type: 'leaf.rejected', code: 'INVALID_JSON', message: 'Unexpected token' });
+    assert.equal(all.length, 1);
+  });
+
+  it('should replay history after Last-Event-ID, as far as it reaches', () => {
+    const feed = new EventFeed(3);
+    for (let batchId = 1; batchId <= 5; batchId++) submitted(feed, provider, batchId);
+
+    const replayed: PublishedEvent[] = [];
+    feed.subscribe({ filter: {}, send: e => replayed.push(e), close() {} }, 1);
+    submitted(feed, provider, 6);
+
+    assert.deepEqual(replayed.map(e => e.id), [3, 4, 5, 6]);
+  });
+
+  it('should stop delivering after unsubscribe and close the rest on close', () => {
+    const feed = new EventFeed();
+    const received: number[] = [];
+    let closed = 0;
+    const unsubscribe = feed.subscribe({ filter: {}, send: e => received.push(e.id), close: () => closed++ });
+    feed.subscribe({ filter: {}, send() {}, close: () => closed++ });
+
+    submitted(feed, provider, 1);
+    unsubscribe();
+    submitted(feed, provider, 2);
+    feed.close();
+
+    assert.deepEqual(received, [1]);
+    assert.equal(closed, 1);
+  });
+});
+
+describe('eventStreamHandler', () => {
+  it('should disconnect a client that stops reading once its backlog passes the cap', () => {
+    const feed = new EventFeed();
+    const written: string[] = [];
+    let onClose = () => {};
+    // The socket never drains, so everything written stays buffered
+    const res = {
+      locals: { log: { warn() {} } },
+      destroyed: false,
+      get writableLength() { return written.join('').length; },
+      status() { return this; },
+      set() { return this; },
+      flushHeaders() {},
+      write(chunk: string) { written.push(chunk); return false; },
+      destroy() { this.destroyed = true; onClose(); },
+      on(_event: string, listener: () => void) { onClose = listener; },
+      end() {},
+    };
+    const req = { query: {}, get: () => undefined };
+
+    eventStreamHandler(feed, { maxBufferedBytes: 300 })(req as unknown as Request, res as unknown as Response);
+    submitted(feed, provider, 1);
+    assert.equal(res.destroyed, false);
+
+    for (let batchId = 2; batchId <= 5; batchId++) submitted(feed, provider, batchId);
+    assert.equal(res.destroyed, true);
+    const sent = written.length;
+    submitted(feed, provider, 6);
+    assert.equal(written.length, sent);
+  });
+});
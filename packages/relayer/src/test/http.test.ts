@@ -0,0 +1,871 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  REQUEST_SIGNATURE_HEADERS,
+  buildMerkleRoot,
+  createCanonicalJson,
+  createRequestSigningMessage,
+  hashUsageLeaf,
+  verifyMerkleProof,
+} from '@edgecharge/shared';
+import { createServer } from '../server/http.js';
+import { Lifecycle } from '../services/lifecycle.js';
+import { MemoryStore } from '../services/memoryStore.js';
+import { registerProvider } from '../usecases/registerProvider.js';
+
+const providerAccount = privateKeyToAccount('0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef');
+const otherAccount = privateKeyToAccount('0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890');
+
+const windowEnd = Math.floor(Date.now() / 1000);
+
+const unsignedLeaf = {
+  provider: providerAccount.address,
+  nodeId: 'test-node-001',
+  windowStart: windowEnd - 60,
+  windowEnd,
+  unitsConsumed: 1000,
+  rateId: 'rate-test-1',
+  nonce: '0x1234567890abcdef1234567890abcdef',
+};
+
+async function sign(account: typeof providerAccount, leaf: typeof unsignedLeaf) {
+  return account.signMessage({ message: { raw: createCanonicalJson(leaf) as `0x${string}` } });
+}
+
+async function listen(app: ReturnType<typeof createServer>) {
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+describe('POST /leaves', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+
+  before(async () => {
+    const store = new MemoryStore();
+    apiKey = (await registerProvider(store, { address: providerAccount.address, issueApiKey: true, nodes: [] })).apiKey!;
+    ({ server, baseUrl } = await listen(createServer(store)));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  async function postLeaf(body: unknown) {
+    const response = await fetch(`${baseUrl}/leaves`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('should queue leaves signed by their provider', async () => {
+    const providerSig = await sign(providerAccount, unsignedLeaf);
+    const { status, body } = await postLeaf({ ...unsignedLeaf, providerSig });
+
+    assert.equal(status, 202);
+    assert.equal(body.status, 'queued');
+  });
+
+  it('should answer an identical resubmission with 200 without queueing it twice', async () => {
+    const providerSig = await sign(providerAccount, unsignedLeaf);
+    const { status, body } = await postLeaf({ ...unsignedLeaf, providerSig });
+
+    assert.equal(status, 200);
+    assert.equal(body.status, 'duplicate');
+  });
+
+  it('should reject a reused nonce with different content with 409', async () => {
+    const changed = { ...unsignedLeaf, unitsConsumed: 5 };
+    const providerSig = await sign(providerAccount, changed);
+    const { status, body } = await postLeaf({ ...changed, providerSig });
+
+    assert.equal(status, 409);
+    assert.equal(body.error.code, 'NONCE_REUSED');
+  });
+
+  it('should reject leaves signed by another key with 401', async () => {
+    const providerSig = await sign(otherAccount, unsignedLeaf);
+    const { status, body } = await postLeaf({ ...unsignedLeaf, providerSig });
+
+    assert.equal(status, 401);
+    assert.equal(body.error.code, 'SIGNER_MISMATCH');
+    assert.equal(body.error.recoveredSigner, otherAccount.address);
+  });
+
+  it('should reject leaves whose content was changed after signing', async () => {
+    const providerSig = await sign(providerAccount, unsignedLeaf);
+    const { status, body } = await postLeaf({ ...unsignedLeaf, unitsConsumed: 2000, providerSig });
+
+    assert.equal(status, 401);
+    assert.equal(body.error.code, 'SIGNER_MISMATCH');
+  });
+
+  it('should reject malformed signatures with 422', async () => {
+    const { status, body } = await postLeaf({ ...unsignedLeaf, providerSig: '0x1234' });
+
+    assert.equal(status, 422);
+    assert.equal(body.error.code, 'INVALID_SIGNATURE');
+  });
+
+  it('should reject leaves that fail schema validation with 400', async () => {
+    const { status } = await postLeaf({ ...unsignedLeaf, provider: 'not-an-address' });
+
+    assert.equal(status, 400);
+  });
+
+  it('should reject leaves the contract could not anchor with 400', async () => {
+    assert.equal((await postLeaf({ ...unsignedLeaf, unitsConsumed: 0 })).status, 400);
+    assert.equal((await postLeaf({ ...unsignedLeaf, windowStart: unsignedLeaf.windowEnd })).status, 400);
+  });
+});
+
+describe('GET /anchors/:anchorId/proof', () => {
+  const anchorId = `0x${'11'.repeat(32)}` as const;
+  let server: Server;
+  let baseUrl: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    store = new MemoryStore();
+    const stored = [];
+    for (const nonce of ['0x01', '0x02', '0x03']) {
+      const unsigned = { ...unsignedLeaf, nonce };
+      const result = await store.addLeaf({ ...unsigned, providerSig: await sign(providerAccount, unsigned) });
+      if (result.status === 'added') stored.push(result.leaf);
+    }
+    const batch = await store.createBatch({
+      provider: providerAccount.address,
+      windowStart: unsignedLeaf.windowStart,
+      windowEnd: unsignedLeaf.windowEnd,
+      merkleRoot: buildMerkleRoot(stored.map(l => hashUsageLeaf(l))),
+      treeVersion: 2,
+      totalUsage: 3000n,
+    }, stored.map(l => l.id));
+    await store.markBatchConfirmed(batch.id, { anchorId, txHash: `0x${'22'.repeat(32)}`, blockNumber: 1n, gasUsed: 21000n });
+
+    ({ server, baseUrl } = await listen(createServer(store)));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('should return a proof that verifies against the anchored root', async () => {
+    const response = await fetch(`${baseUrl}/anchors/${anchorId}/proof?nonce=0x02`);
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.leaf.nonce, '0x02');
+    assert.equal(body.treeVersion, 2);
+    assert.equal(body.leafHash, hashUsageLeaf(body.leaf));
+    assert.ok(verifyMerkleProof(body.leafHash, body.proof, body.merkleRoot));
+  });
+
+  it('should look leaves up by hash', async () => {
+    const leafHash = hashUsageLeaf({ ...unsignedLeaf, nonce: '0x03' });
+    const response = await fetch(`${baseUrl}/anchors/${anchorId}/proof?leafHash=${leafHash}`);
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.leaf.nonce, '0x03');
+  });
+
+  it('should 404 for unknown anchors and leaves', async () => {
+    const unknownAnchor = await fetch(`${baseUrl}/anchors/0x${'33'.repeat(32)}/proof?nonce=0x01`);
+    assert.equal(unknownAnchor.status, 404);
+    assert.equal((await unknownAnchor.json()).error.code, 'ANCHOR_NOT_FOUND');
+
+    const unknownLeaf = await fetch(`${baseUrl}/anchors/${anchorId}/proof?nonce=0x99`);
+    assert.equal(unknownLeaf.status, 404);
+    assert.equal((await unknownLeaf.json()).error.code, 'LEAF_NOT_FOUND');
+  });
+
+  it('should require a leaf selector', async () => {
+    const response = await fetch(`${baseUrl}/anchors/${anchorId}/proof`);
+    assert.equal(response.status, 400);
+  });
+});
+
+describe('GET /anchors/:anchorId/rates', () => {
+  const anchorId = `0x${'44'.repeat(32)}` as const;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    // Built with BATCH_GROUP_BY_RATE=false, so one anchor holds two rates
+    const store = new MemoryStore();
+    const stored = [];
+    for (const [nonce, rateId, unitsConsumed] of [['0x01', 'rate-b', 700], ['0x02', 'rate-a', 200], ['0x03', 'rate-b', 100]] as const) {
+      const unsigned = { ...unsignedLeaf, nonce, rateId, unitsConsumed };
+      const result = await store.addLeaf({ ...unsigned, providerSig: await sign(providerAccount, unsigned) });
+      if (result.status === 'added') stored.push(result.leaf);
+    }
+    const batch = await store.createBatch({
+      provider: providerAccount.address,
+      windowStart: unsignedLeaf.windowStart,
+      windowEnd: unsignedLeaf.windowEnd,
+      merkleRoot: buildMerkleRoot(stored.map(l => hashUsageLeaf(l))),
+      treeVersion: 2,
+      totalUsage: 1000n,
+    }, stored.map(l => l.id));
+    await store.markBatchConfirmed(batch.id, { anchorId });
+
+    ({ server, baseUrl } = await listen(createServer(store)));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('should total units per rateId with leaves that rebuild the root', async () => {
+    const response = await fetch(`${baseUrl}/anchors/${anchorId}/rates`);
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(body.rates, [
+      { rateId: 'rate-a', unitsConsumed: '200', leafCount: 1 },
+      { rateId: 'rate-b', unitsConsumed: '800', leafCount: 2 },
+    ]);
+    assert.equal(body.totalUsage, '1000');
+    assert.equal(buildMerkleRoot(body.leaves.map((l: typeof unsignedLeaf) => hashUsageLeaf(l)), body.treeVersion), body.merkleRoot);
+  });
+
+  it('should 404 for anchors the relayer did not submit', async () => {
+    const response = await fetch(`${baseUrl}/anchors/0x${'33'.repeat(32)}/rates`);
+    assert.equal(response.status, 404);
+    assert.equal((await response.json()).error.code, 'ANCHOR_NOT_FOUND');
+  });
+});
+
+describe('Dispute evidence', () => {
+  const anchorId = `0x${'11'.repeat(32)}` as const;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const store = new MemoryStore();
+    const unsigned = { ...unsignedLeaf, nonce: '0x01' };
+    const result = await store.addLeaf({ ...unsigned, providerSig: await sign(providerAccount, unsigned) });
+    assert.equal(result.status, 'added');
+    const leaf = (result as Extract<typeof result, { status: 'added' }>).leaf;
+    const batch = await store.createBatch({
+      provider: providerAccount.address,
+      windowStart: unsignedLeaf.windowStart,
+      windowEnd: unsignedLeaf.windowEnd,
+      merkleRoot: hashUsageLeaf(leaf),
+      treeVersion: 2,
+      totalUsage: 1000n,
+    }, [leaf.id]);
+    await store.markBatchConfirmed(batch.id, { anchorId });
+    await store.recordDispute({
+      deployment: 'default',
+      anchorId,
+      disputant: otherAccount.address,
+      reason: 'never used',
+      txHash: `0x${'44'.repeat(32)}`,
+      logIndex: 0,
+      blockNumber: 5n,
+    });
+
+    const readAnchor = async (id: `0x${string}`) => (id === anchorId ? { merkleRoot: batch.merkleRoot, totalUsage: 1000n } : undefined);
+    ({ server, baseUrl } = await listen(createServer(store, { readAnchor })));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('should serve the evidence bundle with bigints as strings', async () => {
+    const response = await fetch(`${baseUrl}/disputes/${anchorId}/evidence`);
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.consistent, true);
+    assert.equal(body.checks.unitsSum, '1000');
+    assert.equal(body.checks.totalUsage, '1000');
+    assert.equal(body.checks.onChain, 'found');
+    assert.equal(body.leaves[0].signature.valid, true);
+    assert.equal(body.disputes[0].reason, 'never used');
+  });
+
+  it('should list open disputes', async () => {
+    const open = await (await fetch(`${baseUrl}/disputes?open=true`)).json();
+    assert.equal(open.disputes.length, 1);
+    const resolved = await (await fetch(`${baseUrl}/disputes?open=false`)).json();
+    assert.deepEqual(resolved.disputes, []);
+    assert.equal((await fetch(`${baseUrl}/disputes?open=maybe`)).status, 400);
+  });
+
+  it('should 404 for unknown anchors and 400 for malformed ones', async () => {
+    const unknown = await fetch(`${baseUrl}/disputes/0x${'33'.repeat(32)}/evidence`);
+    assert.equal(unknown.status, 404);
+    assert.equal((await unknown.json()).error.code, 'ANCHOR_NOT_FOUND');
+    assert.equal((await fetch(`${baseUrl}/disputes/0x1234/evidence`)).status, 400);
+  });
+});
+
+describe('Anchor lookup and operational API', () => {
+  const opsApiKey = 'ops-key-0123456789';
+  const anchorIds = [`0x${'44'.repeat(32)}`, `0x${'55'.repeat(32)}`] as const;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const store = new MemoryStore();
+    await registerProvider(store, { address: otherAccount.address, issueApiKey: true, nodes: [] });
+    for (const [i, anchorId] of anchorIds.entries()) {
+      const result = await store.addLeaf({ ...unsignedLeaf, nonce: `0xa${i}`, providerSig: '0x00' });
+      assert.equal(result.status, 'added');
+      const leafId = (result as Extract<typeof result, { status: 'added' }>).leaf.id;
+      const batch = await store.createBatch({
+        provider: providerAccount.address,
+        windowStart: unsignedLeaf.windowStart,
+        windowEnd: unsignedLeaf.windowEnd,
+        merkleRoot: `0x${'66'.repeat(32)}`,
+        treeVersion: 2,
+        totalUsage: 1000n,
+      }, [leafId]);
+      await store.markBatchConfirmed(batch.id, { anchorId, txHash: `0x${'77'.repeat(32)}` });
+    }
+    await store.addLeaf({ ...unsignedLeaf, nonce: '0xb0', providerSig: '0x00' });
+    await store.addLeaf({ ...unsignedLeaf, nonce: '0xb1', nodeId: 'test-node-002', unitsConsumed: 5, providerSig: '0x00' });
+
+    ({ server, baseUrl } = await listen(createServer(store, { opsApiKey })));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  async function getOps(path: string) {
+    const response = await fetch(`${baseUrl}/ops${path}`, { headers: { Authorization: `Bearer ${opsApiKey}` } });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('should page anchors with a cursor and filter them by provider', async () => {
+    const first = await (await fetch(`${baseUrl}/anchors?limit=1`)).json();
+    assert.deepEqual(first.anchors.map((a: { anchorId: string }) => a.anchorId), [anchorIds[1]]);
+    assert.ok(first.nextCursor);
+
+    const second = await (await fetch(`${baseUrl}/anchors?limit=1&cursor=${first.nextCursor}`)).json();
+    assert.deepEqual(second.anchors.map((a: { anchorId: string }) => a.anchorId), [anchorIds[0]]);
+
+    const other = await (await fetch(`${baseUrl}/anchors?provider=${otherAccount.address}`)).json();
+    assert.deepEqual(other.anchors, []);
+    assert.equal((await fetch(`${baseUrl}/anchors?limit=0`)).status, 400);
+  });
+
+  it('should look an anchor up by id', async () => {
+    const response = await fetch(`${baseUrl}/anchors/${anchorIds[0]}`);
+    const body = await response.json();
+    assert.equal(response.status, 200);
+    assert.equal(body.totalUsage, '1000');
+    assert.equal((await fetch(`${baseUrl}/anchors/0x${'33'.repeat(32)}`)).status, 404);
+  });
+
+  it('should require the operator credential', async () => {
+    assert.equal((await fetch(`${baseUrl}/ops/pending`)).status, 401);
+  });
+
+  it('should group pending leaves by provider and node', async () => {
+    const { status, body } = await getOps('/pending');
+    assert.equal(status, 200);
+    assert.equal(body.leaves, 2);
+    assert.equal(body.units, '1005');
+    assert.equal(body.providers[0].provider, providerAccount.address);
+    assert.deepEqual(body.providers[0].nodes.map((n: { nodeId: string }) => n.nodeId), ['test-node-001', 'test-node-002']);
+  });
+
+  it('should list batch history with its transaction status', async () => {
+    const { body } = await getOps('/batches?status=confirmed');
+    assert.equal(body.batches.length, 2);
+    assert.equal(body.batches[0].txHash, `0x${'77'.repeat(32)}`);
+
+    const detail = await getOps(`/batches/${body.batches[0].id}`);
+    assert.equal(detail.body.leaves.length, 1);
+    assert.equal((await getOps('/batches/999')).status, 404);
+    assert.equal((await getOps('/batches?status=stuck')).status, 400);
+  });
+
+  it('should report provider stats, including registered providers with no traffic', async () => {
+    const { body } = await getOps(`/providers/${providerAccount.address}`);
+    assert.equal(body.lastSeen.nodeId, 'test-node-002');
+    assert.equal(body.leavesLastHour, 4);
+    assert.equal(body.unitsAnchored, '2000');
+    assert.equal(body.anchors, 2);
+    assert.equal(body.registered, false);
+
+    const all = await getOps('/providers');
+    const quiet = all.body.providers.find((p: { provider: string }) => p.provider === otherAccount.address);
+    assert.equal(quiet.registered, true);
+    assert.equal(quiet.leavesLastHour, 0);
+    assert.equal((await getOps('/providers/0x0000000000000000000000000000000000000009')).status, 404);
+  });
+});
+
+describe('Metrics and request correlation', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+  let store: MemoryStore;
+
+  before(async () => {
+    store = new MemoryStore();
+    apiKey = (await registerProvider(store, { address: providerAccount.address, issueApiKey: true, nodes: [] })).apiKey!;
+    ({ server, baseUrl } = await listen(createServer(store)));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('should store the request id with the leaf and echo it back', async () => {
+    const response = await fetch(`${baseUrl}/leaves`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}`, 'X-Request-Id': 'req-abc-123' },
+      body: JSON.stringify({ ...unsignedLeaf, providerSig: await sign(providerAccount, unsignedLeaf) }),
+    });
+
+    assert.equal(response.status, 202);
+    assert.equal(response.headers.get('x-request-id'), 'req-abc-123');
+    const [leaf] = await store.pendingLeavesEndingBy(unsignedLeaf.windowEnd);
+    assert.equal(leaf.correlationId, 'req-abc-123');
+  });
+
+  it('should replace unusable request ids with a generated one', async () => {
+    const response = await fetch(`${baseUrl}/health`, { headers: { 'X-Request-Id': 'not a valid id' } });
+    assert.match(response.headers.get('x-request-id') ?? '', /^[0-9a-f-]{36}$/);
+  });
+
+  it('should serve Prometheus text, or JSON on request', async () => {
+    const response = await fetch(`${baseUrl}/metrics`);
+    const text = await response.text();
+
+    assert.equal(response.headers.get('content-type')?.startsWith('text/plain'), true);
+    assert.match(text, /^# TYPE relayer_leaves_received_total counter$/m);
+    assert.match(text, /^relayer_leaves_accepted_total\{status="queued"\} \d+$/m);
+    assert.match(text, /^relayer_pending_leaves 1$/m);
+
+    const json = await (await fetch(`${baseUrl}/metrics?format=json`)).json();
+    assert.ok(json.metrics.some((m: { name: string }) => m.name === 'relayer_batch_size_leaves'));
+  });
+});
+
+describe('Health probes', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+  let lifecycle: Lifecycle;
+
+  before(async () => {
+    const store = new MemoryStore();
+    apiKey = (await registerProvider(store, { address: providerAccount.address, issueApiKey: true, nodes: [] })).apiKey!;
+    lifecycle = new Lifecycle();
+    ({ server, baseUrl } = await listen(createServer(store, { lifecycle })));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('should be live but not ready while starting', async () => {
+    assert.equal((await fetch(`${baseUrl}/health/live`)).status, 200);
+    const ready = await fetch(`${baseUrl}/health/ready`);
+    assert.equal(ready.status, 503);
+    assert.deepEqual(await ready.json(), { ok: false, state: 'starting' });
+  });
+
+  it('should stop being ready and refuse leaves once shutdown begins', async () => {
+    lifecycle.markReady();
+    assert.equal((await fetch(`${baseUrl}/health/ready`)).status, 200);
+
+    let release!: () => void;
+    lifecycle.register({ name: 'batcher', stop: () => new Promise<void>(resolve => { release = resolve; }) });
+    const shutdown = lifecycle.shutdown('SIGTERM', 1000);
+
+    const ready = await fetch(`${baseUrl}/health/ready`);
+    assert.equal(ready.status, 503);
+    assert.deepEqual(await ready.json(), { ok: false, state: 'draining' });
+    assert.deepEqual(await (await fetch(`${baseUrl}/health`)).json(), { ok: true, state: 'draining' });
+
+    for (const path of ['/leaves', '/leaves/batch']) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({ ...unsignedLeaf, providerSig: await sign(providerAccount, unsignedLeaf) }),
+      });
+      assert.equal(response.status, 503);
+      assert.equal(response.headers.get('retry-after'), '5');
+      assert.equal((await response.json()).error.code, 'SHUTTING_DOWN');
+    }
+
+    release();
+    await shutdown;
+  });
+});
+
+describe('Provider authentication', () => {
+  const adminApiKey = 'test-admin-key-0123456789';
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+
+  before(async () => {
+    const store = new MemoryStore();
+    apiKey = (await registerProvider(store, {
+      address: providerAccount.address,
+      issueApiKey: true,
+      nodes: ['test-node-001'],
+      rateLimitPerMinute: 5,
+    })).apiKey!;
+    ({ server, baseUrl } = await listen(createServer(store, { adminApiKey, maxRequestBytes: 1024 })));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  async function signedLeaf(overrides: Partial<typeof unsignedLeaf> = {}) {
+    const unsigned = { ...unsignedLeaf, nonce: `0x${Math.random().toString(16).slice(2)}`, ...overrides };
+    return { ...unsigned, providerSig: await sign(providerAccount, unsigned) };
+  }
+
+  async function post(path: string, body: unknown, headers: Record<string, string>) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    return { status: response.status, headers: response.headers, body: await response.json() };
+  }
+
+  async function signedHeaders(account: typeof providerAccount, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+    const message = createRequestSigningMessage({ method: 'POST', path: '/leaves', timestamp, body });
+    return {
+      [REQUEST_SIGNATURE_HEADERS.provider]: providerAccount.address,
+      [REQUEST_SIGNATURE_HEADERS.timestamp]: String(timestamp),
+      [REQUEST_SIGNATURE_HEADERS.signature]: await account.signMessage({ message }),
+    };
+  }
+
+  it('should refuse leaves without credentials', async () => {
+    const { status, body } = await post('/leaves', await signedLeaf(), {});
+    assert.equal(status, 401);
+    assert.equal(body.error.code, 'UNAUTHENTICATED');
+  });
+
+  it('should refuse unknown API keys', async () => {
+    const { status, body } = await post('/leaves', await signedLeaf(), { Authorization: 'Bearer ec_wrong' });
+    assert.equal(status, 401);
+    assert.equal(body.error.code, 'INVALID_CREDENTIALS');
+  });
+
+  it('should accept requests signed by an allowed signer', async () => {
+    const payload = JSON.stringify(await signedLeaf());
+    const { status } = await post('/leaves', payload, await signedHeaders(providerAccount, payload));
+    assert.equal(status, 202);
+  });
+
+  it('should refuse requests signed by anyone else or with a stale timestamp', async () => {
+    const payload = JSON.stringify(await signedLeaf());
+    const forged = await post('/leaves', payload, await signedHeaders(otherAccount, payload));
+    assert.equal(forged.status, 401);
+
+    const stale = await post('/leaves', payload, await signedHeaders(providerAccount, payload, Math.floor(Date.now() / 1000) - 3600));
+    assert.equal(stale.status, 401);
+  });
+
+  it('should refuse leaves for another provider or an unregistered node with 403', async () => {
+    const other = { ...unsignedLeaf, provider: otherAccount.address, nonce: '0x77' };
+    const foreign = await post('/leaves', { ...other, providerSig: await sign(otherAccount, other) }, { Authorization: `Bearer ${apiKey}` });
+    assert.equal(foreign.status, 403);
+    assert.equal(foreign.body.error.code, 'PROVIDER_MISMATCH');
+
+    const node = await post('/leaves', await signedLeaf({ nodeId: 'unknown-node' }), { Authorization: `Bearer ${apiKey}` });
+    assert.equal(node.status, 403);
+    assert.equal(node.body.error.code, 'NODE_NOT_ALLOWED');
+  });
+
+  it('should cap request bodies', async () => {
+    const { status, body } = await post('/leaves', { padding: 'x'.repeat(2048) }, { Authorization: `Bearer ${apiKey}` });
+    assert.equal(status, 413);
+    assert.equal(body.error.code, 'PAYLOAD_TOO_LARGE');
+  });
+
+  it('should rate limit each provider', async () => {
+    let last;
+    for (let i = 0; i < 6; i++) {
+      last = await post('/leaves', await signedLeaf(), { Authorization: `Bearer ${apiKey}` });
+    }
+    assert.equal(last!.status, 429);
+    assert.equal(last!.body.error.code, 'RATE_LIMITED');
+    assert.ok(Number(last!.headers.get('retry-after')) > 0);
+  });
+
+  it('should register and revoke providers through the admin API', async () => {
+    const admin = { Authorization: `Bearer ${adminApiKey}` };
+    const denied = await post('/admin/providers', { address: otherAccount.address }, { Authorization: `Bearer ${apiKey}` });
+    assert.equal(denied.status, 401);
+
+    const registered = await post('/admin/providers', { address: otherAccount.address }, admin);
+    assert.equal(registered.status, 201);
+    assert.match(registered.body.apiKey, /^ec_[0-9a-f]{64}$/);
+    assert.equal(registered.body.provider.hasApiKey, true);
+    assert.equal(registered.body.provider.apiKeyHash, undefined);
+
+    const leaf = { ...unsignedLeaf, provider: otherAccount.address, nonce: '0x88' };
+    const otherKey = { Authorization: `Bearer ${registered.body.apiKey}` };
+    assert.equal((await post('/leaves', { ...leaf, providerSig: await sign(otherAccount, leaf) }, otherKey)).status, 202);
+
+    const revoked = await fetch(`${baseUrl}/admin/providers/${otherAccount.address}`, { method: 'DELETE', headers: admin });
+    assert.equal(revoked.status, 200);
+
+    const after = await post('/leaves', { ...leaf, nonce: '0x89', providerSig: '0x00' }, otherKey);
+    assert.equal(after.status, 401);
+    assert.equal(after.body.error.code, 'PROVIDER_REVOKED');
+  });
+});
+
+describe('POST /leaves/batch', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+
+  before(async () => {
+    const store = new MemoryStore();
+    apiKey = (await registerProvider(store, { address: providerAccount.address, issueApiKey: true, nodes: [] })).apiKey!;
+    ({ server, baseUrl } = await listen(createServer(store, { maxBatchLeaves: 10, maxRequestBytes: 4096, maxStreamRequestBytes: 16 * 1024 })));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  async function signedLeaf(nonce: string, overrides: Partial<typeof unsignedLeaf> = {}) {
+    const unsigned = { ...unsignedLeaf, nonce, ...overrides };
+    return { ...unsigned, providerSig: await sign(providerAccount, unsigned) };
+  }
+
+  function postBatch(body: string, contentType: string, headers: Record<string, string> = { Authorization: `Bearer ${apiKey}` }) {
+    return fetch(`${baseUrl}/leaves/batch`, { method: 'POST', headers: { 'Content-Type': contentType, ...headers }, body });
+  }
+
+  it('should report a result for every entry of a JSON array', async () => {
+    const first = await signedLeaf('0xb1');
+    const entries = [
+      first,
+      { ...first },
+      await signedLeaf('0xb2', { provider: otherAccount.address }),
+      { ...first, nonce: '0xb3', providerSig: '0x1234' },
+      { nodeId: 'missing-fields' },
+      await signedLeaf('0xb4'),
+    ];
+    const response = await postBatch(JSON.stringify(entries), 'application/json');
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(body.results.map((r: { status: string; code?: string }) => r.code ?? r.status), [
+      'queued',
+      'duplicate',
+      'PROVIDER_MISMATCH',
+      'INVALID_SIGNATURE',
+      'INVALID_LEAF',
+      'queued',
+    ]);
+    assert.deepEqual(body.summary, { received: 6, accepted: 3, rejected: 3 });
+  });
+
+  it('should refuse arrays over the entry limit and non-array bodies', async () => {
+    const tooMany = await postBatch(JSON.stringify(Array.from({ length: 11 }, () => ({}))), 'application/json');
+    assert.equal(tooMany.status, 413);
+    assert.equal((await tooMany.json()).error.code, 'BATCH_TOO_LARGE');
+
+    const notArray = await postBatch(JSON.stringify({ leaves: [] }), 'application/json');
+    assert.equal(notArray.status, 400);
+  });
+
+  it('should stream NDJSON results line by line', async () => {
+    const lines = [
+      JSON.stringify(await signedLeaf('0xc1')),
+      '',
+      '{not json',
+      JSON.stringify(await signedLeaf('0xc2')),
+    ];
+    const response = await postBatch(lines.join('\n'), 'application/x-ndjson');
+    const output = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type')?.startsWith('application/x-ndjson'), true);
+    assert.deepEqual(output.slice(0, 3).map(r => [r.index, r.code ?? r.status]), [[0, 'queued'], [1, 'INVALID_JSON'], [2, 'queued']]);
+    assert.deepEqual(output[3].summary, { received: 3, accepted: 2, rejected: 1 });
+  });
+
+  it('should reject NDJSON lines over the line limit and keep going', async () => {
+    const lines = ['x'.repeat(5000), JSON.stringify(await signedLeaf('0xc3'))];
+    const response = await postBatch(lines.join('\n'), 'application/x-ndjson');
+    const output = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+
+    assert.deepEqual(output.slice(0, 2).map(r => [r.index, r.code ?? r.status]), [[0, 'PAYLOAD_TOO_LARGE'], [1, 'queued']]);
+  });
+
+  it('should refuse NDJSON streams over the body limit', async () => {
+    const declared = await postBatch('\n'.repeat(17 * 1024), 'application/x-ndjson');
+    assert.equal(declared.status, 413);
+    assert.equal((await declared.json()).error.code, 'PAYLOAD_TOO_LARGE');
+
+    // Without a Content-Length the limit is only reached while streaming, and reported in-band
+    const leaf = JSON.stringify(await signedLeaf('0xc4'));
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`${leaf}\n${'\n'.repeat(17 * 1024)}`));
+        controller.close();
+      },
+    });
+    const streamed = await fetch(`${baseUrl}/leaves/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-ndjson', Authorization: `Bearer ${apiKey}` },
+      body,
+      duplex: 'half',
+    } as RequestInit);
+    const output = (await streamed.text()).trim().split('\n').map(line => JSON.parse(line));
+    assert.equal(output[0].status, 'queued');
+    assert.equal(output[output.length - 1].error.code, 'PAYLOAD_TOO_LARGE');
+  });
+
+  it('should require an API key for NDJSON streams', async () => {
+    const payload = JSON.stringify(await signedLeaf('0xd1'));
+    const timestamp = Math.floor(Date.now() / 1000);
+    const message = createRequestSigningMessage({ method: 'POST', path: '/leaves/batch', timestamp, body: '' });
+    const response = await postBatch(payload, 'application/x-ndjson', {
+      [REQUEST_SIGNATURE_HEADERS.provider]: providerAccount.address,
+      [REQUEST_SIGNATURE_HEADERS.timestamp]: String(timestamp),
+      [REQUEST_SIGNATURE_HEADERS.signature]: await providerAccount.signMessage({ message }),
+    });
+    assert.equal(response.status, 401);
+  });
+});
+
+describe('GET /events', () => {
+  // A provider no other test uses, so events from elsewhere in the process cannot match the filter
+  const streamAccount = privateKeyToAccount('0x5555555555555555555555555555555555555555555555555555555555555555');
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+  const opsApiKey = 'ops-secret';
+
+  before(async () => {
+    const store = new MemoryStore();
+    apiKey = (await registerProvider(store, { address: streamAccount.address, issueApiKey: true, nodes: [] })).apiKey!;
+    ({ server, baseUrl } = await listen(createServer(store, { opsApiKey })));
+  });
+
+  after(() => {
+    server.close();
+    server.closeAllConnections();
+  });
+
+  async function postLeaf(nonce: string, unitsConsumed = 1000) {
+    const leaf = { ...unsignedLeaf, provider: streamAccount.address, nonce, unitsConsumed };
+    await fetch(`${baseUrl}/leaves`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({ ...leaf, providerSig: await sign(streamAccount, leaf) }),
+    });
+  }
+
+  /** Read SSE events until `count` have arrived, then disconnect */
+  async function readEvents(response: Response, count: number, controller: AbortController) {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    const received: Array<{ id: string; event: string; data: any }> = [];
+    let buffer = '';
+    while (received.length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      let end;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const fields = Object.fromEntries(buffer.slice(0, end).split('\n').filter(l => !l.startsWith(':')).map(l => {
+          const colon = l.indexOf(': ');
+          return [l.slice(0, colon), l.slice(colon + 2)];
+        }));
+        buffer = buffer.slice(end + 2);
+        if (fields.event) received.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+      }
+    }
+    controller.abort();
+    return received;
+  }
+
+  it('should stream accepted and rejected leaves for the requested provider', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/events`, { headers: { Authorization: `Bearer ${apiKey}` }, signal: controller.signal });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type')?.startsWith('text/event-stream'), true);
+
+    await postLeaf('0xe1');
+    await postLeaf('0xe1', 5);
+    const [accepted, rejected] = await readEvents(response, 2, controller);
+
+    assert.equal(accepted.event, 'leaf.accepted');
+    assert.equal(accepted.data.provider, streamAccount.address);
+    assert.equal(accepted.data.nonce, '0xe1');
+    assert.equal(rejected.event, 'leaf.rejected');
+    assert.equal(rejected.data.code, 'NONCE_REUSED');
+    assert.equal(Number(rejected.id), Number(accepted.id) + 1);
+  });
+
+  it('should replay events after Last-Event-ID', async () => {
+    await postLeaf('0xe2');
+    const first = new AbortController();
+    const [latest] = await readEvents(
+      await fetch(`${baseUrl}/events?provider=${streamAccount.address}&types=leaf.accepted`, {
+        headers: { 'Last-Event-ID': '0', Authorization: `Bearer ${opsApiKey}` },
+        signal: first.signal,
+      }),
+      1,
+      first,
+    );
+    assert.equal(latest.data.nonce, '0xe1');
+
+    const second = new AbortController();
+    const [next] = await readEvents(
+      await fetch(`${baseUrl}/events?provider=${streamAccount.address}&types=leaf.accepted`, {
+        headers: { 'Last-Event-ID': latest.id, Authorization: `Bearer ${opsApiKey}` },
+        signal: second.signal,
+      }),
+      1,
+      second,
+    );
+    assert.equal(next.data.nonce, '0xe2');
+  });
+
+  it('should only stream to operators and to providers following themselves', async () => {
+    assert.equal((await fetch(`${baseUrl}/events`)).status, 401);
+    assert.equal((await fetch(`${baseUrl}/events`, { headers: { Authorization: 'Bearer wrong' } })).status, 401);
+
+    const other = await fetch(`${baseUrl}/events?provider=${otherAccount.address}`, { headers: { Authorization: `Bearer ${apiKey}` } });
+    assert.equal(other.status, 403);
+    assert.equal((await other.json()).error.code, 'FORBIDDEN');
+
+    const controller = new AbortController();
+    const own = await fetch(`${baseUrl}/events?provider=${streamAccount.address}`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal: controller.signal,
+    });
+    assert.equal(own.status, 200);
+    controller.abort();
+  });
+
+  it('should reject unknown event types and malformed addresses', async () => {
+    const headers = { Authorization: `Bearer ${opsApiKey}` };
+    assert.equal((await fetch(`${baseUrl}/events?types=leaf.eaten`, { headers })).status, 400);
+    assert.equal((await fetch(`${baseUrl}/events?provider=0x1234`, { headers })).status, 400);
+  });
+});
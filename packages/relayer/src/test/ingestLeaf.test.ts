@@ -0,0 +1,120 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createCanonicalJson } from '@edgecharge/shared';
+import type { Leaf } from '../domain/leaf.js';
+import { MemoryStore } from '../services/memoryStore.js';
+import { leafWindowPaths } from '../services/metrics.js';
+import { ingestLeaf } from '../usecases/ingestLeaf.js';
+
+const account = privateKeyToAccount('0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef');
+const now = 1_700_000_000;
+const options = { nonceRetentionSeconds: 3600, now };
+
+async function signedLeaf(overrides: Partial<Omit<Leaf, 'providerSig'>> = {}): Promise<Leaf> {
+  const unsigned = {
+    provider: account.address,
+    nodeId: 'test-node-001',
+    windowStart: now - 60,
+    windowEnd: now,
+    unitsConsumed: 1000,
+    rateId: 'rate-test-1',
+    nonce: '0x01',
+    ...overrides,
+  };
+  const providerSig = await account.signMessage({ message: { raw: createCanonicalJson(unsigned) as `0x${string}` } });
+  return { ...unsigned, providerSig };
+}
+
+describe('ingestLeaf', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it('should queue a fresh leaf once and report identical resubmissions as duplicates', async () => {
+    const leaf = await signedLeaf();
+
+    const first = await ingestLeaf(store, leaf, options);
+    const second = await ingestLeaf(store, leaf, options);
+
+    assert.equal(first.status, 'queued');
+    assert.equal(second.status, 'duplicate');
+    assert.equal((await store.pendingLeavesEndingBy(now)).length, 1);
+  });
+
+  it('should reject a reused nonce carrying different usage', async () => {
+    await ingestLeaf(store, await signedLeaf(), options);
+
+    const result = await ingestLeaf(store, await signedLeaf({ unitsConsumed: 1 }), options);
+    assert.equal(result.status, 'rejected');
+    assert.equal(result.status === 'rejected' && result.code, 'NONCE_REUSED');
+  });
+
+  it('should refuse leaves older than the retention horizon', async () => {
+    const result = await ingestLeaf(store, await signedLeaf({ windowStart: now - 7200, windowEnd: now - 7140 }), options);
+
+    assert.equal(result.status === 'rejected' && result.code, 'LEAF_EXPIRED');
+  });
+
+  it('should refuse leaves for a closed epoch when stragglers are rejected', async () => {
+    const rejectClosedEpochs = { epochSeconds: 300, graceSeconds: 30 };
+    const rejectedBefore = leafWindowPaths.get({ path: 'rejected' });
+
+    // now is 200s into an epoch; the previous epoch closed 170s ago
+    const late = await ingestLeaf(store, await signedLeaf({ windowStart: now - 260, windowEnd: now - 200 }), { ...options, rejectClosedEpochs });
+    const graced = await ingestLeaf(store, await signedLeaf({ nonce: '0x02' }), { ...options, now: now + 120, rejectClosedEpochs });
+
+    assert.equal(late.status === 'rejected' && late.code, 'LEAF_TOO_LATE');
+    assert.equal(graced.status, 'queued');
+    assert.equal(leafWindowPaths.get({ path: 'rejected' }), rejectedBefore + 1);
+  });
+
+  it('should forget nonces once they are pruned', async () => {
+    const leaf = await signedLeaf();
+    await ingestLeaf(store, leaf, options);
+    await store.pruneSeenNonces(now + 1);
+
+    assert.equal(await store.findSeenNonce(leaf.provider, leaf.nonce), undefined);
+  });
+
+  it('should reject leaves overlapping an anchored window of the same node', async () => {
+    const anchored = await ingestLeaf(store, await signedLeaf({ windowStart: now - 120, windowEnd: now - 60 }), options);
+    assert.equal(anchored.status, 'queued');
+    if (anchored.status !== 'queued') return;
+    await store.createBatch({
+      provider: account.address,
+      windowStart: now - 120,
+      windowEnd: now - 60,
+      merkleRoot: `0x${'ab'.repeat(32)}`,
+      treeVersion: 2,
+      totalUsage: 1000n,
+    }, [anchored.leaf.id]);
+
+    const overlapping = await ingestLeaf(store, await signedLeaf({ nonce: '0x02', windowStart: now - 90, windowEnd: now - 30 }), options);
+    const otherNode = await ingestLeaf(store, await signedLeaf({ nonce: '0x03', nodeId: 'test-node-002', windowStart: now - 90, windowEnd: now - 30 }), options);
+    const adjacent = await ingestLeaf(store, await signedLeaf({ nonce: '0x04', windowStart: now - 60, windowEnd: now }), options);
+
+    assert.equal(overlapping.status === 'rejected' && overlapping.code, 'WINDOW_ALREADY_ANCHORED');
+    assert.equal(otherNode.status, 'queued');
+    assert.equal(adjacent.status, 'queued');
+  });
+
+  it('should not count windows of failed batches as anchored', async () => {
+    const first = await ingestLeaf(store, await signedLeaf(), options);
+    if (first.status !== 'queued') return assert.fail('expected first leaf to be queued');
+    const batch = await store.createBatch({
+      provider: account.address,
+      windowStart: now - 60,
+      windowEnd: now,
+      merkleRoot: `0x${'ab'.repeat(32)}`,
+      treeVersion: 2,
+      totalUsage: 1000n,
+    }, [first.leaf.id]);
+    await store.markBatchFailed(batch.id, 'reverted');
+
+    const result = await ingestLeaf(store, await signedLeaf({ nonce: '0x02' }), options);
+    assert.equal(result.status, 'queued');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Lifecycle } from '../services/lifecycle.js';
+
+function worker(name: string, stopped: string[], stop: () => Promise<void> = async () => undefined) {
+  return {
+    name,
+    stop: async () => {
+      await stop();
+      stopped.push(name);
+    },
+  };
+}
+
+describe('Lifecycle', () => {
+  it('should only accept leaves once ready and until shutdown begins', async () => {
+    const lifecycle = new Lifecycle();
+    assert.equal(lifecycle.state, 'starting');
+    assert.equal(lifecycle.acceptingLeaves, false);
+
+    lifecycle.markReady();
+    assert.equal(lifecycle.acceptingLeaves, true);
+
+    let release!: () => void;
+    lifecycle.register({ name: 'batcher', stop: () => new Promise<void>(resolve => { release = resolve; }) });
+    const shutdown = lifecycle.shutdown('SIGTERM', 1000);
+    assert.equal(lifecycle.state, 'draining');
+    assert.equal(lifecycle.acceptingLeaves, false);
+
+    release();
+    assert.deepEqual(await shutdown, { clean: true, timedOut: [], failed: [] });
+    assert.equal(lifecycle.state, 'stopped');
+  });
+
+  it('should stop workers one at a time in registration order', async () => {
+    const lifecycle = new Lifecycle();
+    const stopped: string[] = [];
+    lifecycle.register(worker('disputeWatcher', stopped, () => new Promise(resolve => setTimeout(resolve, 10))));
+    lifecycle.register(worker('batcher', stopped));
+    lifecycle.register(worker('store', stopped));
+
+    await lifecycle.shutdown('SIGTERM', 1000);
+    assert.deepEqual(stopped, ['disputeWatcher', 'batcher', 'store']);
+  });
+
+  it('should abandon a worker at the deadline and still stop the rest', async () => {
+    const lifecycle = new Lifecycle();
+    const stopped: string[] = [];
+    lifecycle.register(worker('batcher', stopped, () => new Promise(() => undefined)));
+    lifecycle.register(worker('store', stopped));
+
+    const result = await lifecycle.shutdown('SIGTERM', 20);
+    assert.deepEqual(result, { clean: false, timedOut: ['batcher'], failed: [] });
+    assert.deepEqual(stopped, ['store']);
+  });
+
+  it('should report workers that fail to stop', async () => {
+    const lifecycle = new Lifecycle();
+    const stopped: string[] = [];
+    lifecycle.register(worker('http', stopped, async () => { throw new Error('server not running'); }));
+    lifecycle.register(worker('store', stopped));
+
+    assert.deepEqual(await lifecycle.shutdown('SIGINT', 1000), { clean: false, timedOut: [], failed: ['http'] });
+    assert.deepEqual(stopped, ['store']);
+  });
+
+  it('should stop workers once when shutdown is requested twice', async () => {
+    const lifecycle = new Lifecycle();
+    const stopped: string[] = [];
+    lifecycle.register(worker('batcher', stopped));
+
+    const [first, second] = await Promise.all([lifecycle.shutdown('SIGTERM', 1000), lifecycle.shutdown('SIGINT', 1000)]);
+    assert.equal(first, second);
+    assert.deepEqual(stopped, ['batcher']);
+  });
+});
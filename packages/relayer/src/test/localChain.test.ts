@@ -0,0 +1,74 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createPublicClient, createWalletClient, http, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { resolveChain } from '../config/chain.js';
+import { computeAnchorId } from '../lib/anchorId.js';
+import { TransactionManager } from '../services/txManager.js';
+import { submitAnchor, type AnchorTarget } from '../usecases/submitAnchor.js';
+
+/**
+ * End to end against a local node: `npx hardhat node` (or `anvil`) plus a
+ * compiled contracts package, then run with LOCAL_RPC_URL=http://127.0.0.1:8545.
+ */
+const rpcUrl = process.env.LOCAL_RPC_URL;
+
+// Hardhat and anvil both fund this well-known development key (account #0)
+const devKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const artifactFile = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../../contracts/artifacts/contracts/EdgeCharge.sol/EdgeCharge.json',
+);
+
+describe('Anchoring to a local node', { skip: !rpcUrl && 'set LOCAL_RPC_URL to run against Hardhat or anvil' }, () => {
+  let target: AnchorTarget;
+
+  before(async () => {
+    const { abi, bytecode } = JSON.parse(fs.readFileSync(artifactFile, 'utf8')) as { abi: any[]; bytecode: Hex };
+    const chain = resolveChain({ chainId: 31337, rpcUrl });
+    const account = privateKeyToAccount(devKey);
+    const transport = http(rpcUrl);
+    const publicClient = createPublicClient({ chain, transport });
+    const walletClient = createWalletClient({ account, chain, transport });
+
+    const deployed = await publicClient.waitForTransactionReceipt({ hash: await walletClient.deployContract({ abi, bytecode, args: [] }) });
+    const address = deployed.contractAddress!;
+    await publicClient.waitForTransactionReceipt({
+      hash: await walletClient.writeContract({ address, abi, functionName: 'authorizeRelayer', args: [account.address] }),
+    });
+
+    target = {
+      address,
+      txManager: new TransactionManager(publicClient, walletClient, {
+        maxAttempts: 1,
+        retryBaseDelayMs: 1,
+        stuckAfterMs: 30_000,
+        feeBumpPercent: 20,
+        maxFeeBumps: 0,
+      }),
+    };
+  });
+
+  it('should anchor once and recognise the anchor when it is resubmitted', async () => {
+    const payload = {
+      provider: '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb',
+      windowStart: 1690000000,
+      windowEnd: 1690000060,
+      merkleRoot: `0x${'ab'.repeat(32)}`,
+      totalUsage: 1000n,
+    } as const;
+    const anchorId = computeAnchorId(payload.provider, payload.windowStart, payload.windowEnd, payload.merkleRoot);
+
+    const first = await submitAnchor(payload, target);
+    assert.equal(first.status, 'success');
+    assert.equal(first.anchorId, anchorId);
+
+    const again = await submitAnchor(payload, target);
+    assert.equal(again.alreadyAnchored, true);
+    assert.equal(again.txHash, first.txHash);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLogger, type LogLevel } from '../lib/logger.js';
+
+describe('Logger', () => {
+  function capture(level: LogLevel = 'info') {
+    const lines: string[] = [];
+    const log = createLogger({ level, write: line => lines.push(line) });
+    return { log, entries: () => lines.map(line => JSON.parse(line)) };
+  }
+
+  it('should write one JSON line per entry with child bindings', () => {
+    const { log, entries } = capture();
+    log.child({ correlationId: 'req-1' }).info({ batchId: 3, totalUsage: 10n }, 'Batch created');
+
+    const [entry] = entries();
+    assert.equal(entry.level, 30);
+    assert.equal(entry.msg, 'Batch created');
+    assert.equal(entry.correlationId, 'req-1');
+    assert.equal(entry.batchId, 3);
+    assert.equal(entry.totalUsage, '10');
+    assert.equal(typeof entry.time, 'number');
+  });
+
+  it('should drop entries below the level, which children share', () => {
+    const { log, entries } = capture('warn');
+    const child = log.child({ component: 'batcher' });
+    child.info('hidden');
+    log.level = 'info';
+    child.info('shown');
+
+    assert.deepEqual(entries().map(e => e.msg), ['shown']);
+  });
+
+  it('should serialize errors passed as err', () => {
+    const { log, entries } = capture();
+    log.error({ err: new TypeError('boom') }, 'Failed');
+
+    const [entry] = entries();
+    assert.equal(entry.err.type, 'TypeError');
+    assert.equal(entry.err.message, 'boom');
+    assert.ok(entry.err.stack);
+  });
+});
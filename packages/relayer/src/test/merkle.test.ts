@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { keccak256, toBytes } from 'viem';
+import {
+  buildMerkleRoot,
+  buildMerkleTree,
+  getMerkleProof,
+  hashUsageLeaf,
+  MERKLE_TREE_VERSIONS,
+  verifyMerkleProof,
+  type Hash,
+} from '@edgecharge/shared';
+
+function leaves(count: number): Hash[] {
+  return Array.from({ length: count }, (_, i) => keccak256(toBytes(`leaf-${i}`)));
+}
+
+function records(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    provider: '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb',
+    nodeId: `node-${i}`,
+    windowStart: 1690000000 + i,
+    windowEnd: 1690000060 + i,
+    unitsConsumed: 1000 + i,
+    rateId: 'rate-test-1',
+    nonce: `0x0${i}`,
+  }));
+}
+
+for (const version of MERKLE_TREE_VERSIONS) {
+  describe(`Merkle proofs (tree version ${version})`, () => {
+    for (const count of [1, 2, 3, 5, 8, 13]) {
+      it(`should produce verifiable proofs for every leaf of a ${count}-leaf tree`, () => {
+        const hashes = leaves(count);
+        const tree = buildMerkleTree(hashes, version);
+
+        assert.equal(tree.root, buildMerkleRoot(hashes, version));
+        for (const leaf of hashes) {
+          const proof = getMerkleProof(tree, leaf);
+          assert.ok(proof, 'leaf should be in the tree');
+          assert.ok(verifyMerkleProof(leaf, proof, tree.root));
+        }
+      });
+    }
+
+    it('should return no proof for a leaf outside the tree', () => {
+      const tree = buildMerkleTree(leaves(4), version);
+      assert.equal(getMerkleProof(tree, keccak256(toBytes('stranger'))), null);
+    });
+
+    it('should not verify a proof against another root', () => {
+      const hashes = leaves(4);
+      const tree = buildMerkleTree(hashes, version);
+      const otherRoot = buildMerkleRoot(leaves(5), version);
+
+      assert.ok(!verifyMerkleProof(hashes[0], getMerkleProof(tree, hashes[0])!, otherRoot));
+    });
+  });
+}
+
+describe('Usage leaf tree versions', () => {
+  // Roots from @openzeppelin/merkle-tree: StandardMerkleTree.of(values, USAGE_LEAF_ENCODING).root
+  it('should build the same root as OpenZeppelin StandardMerkleTree in version 2', () => {
+    const root = (count: number) => buildMerkleRoot(records(count).map(r => hashUsageLeaf(r, 2)), 2);
+
+    assert.equal(root(1), '0x174ebace942b5d0c1a122bdcd202b2fc3de4c0d4e7654a5e35b9a5d0880214ac');
+    assert.equal(root(3), '0xf09e2fcb032a66f0ec8d4c5c688b29afff5f59b0397637ff061cd8d6a6d7f7e1');
+    assert.equal(root(4), '0xb0d8eab8e0a8464685f7e1a5f207e2bd2a10b51669639f6a2674ddbea990dfa2');
+    assert.equal(root(7), '0x8223510766aa58aefdb0e1d4fb87ac2e01f955e9adfa2dfa944cdea0b0126ae2');
+  });
+
+  it('should keep version 1 roots of existing anchors unchanged', () => {
+    const root = buildMerkleRoot(records(3).map(r => hashUsageLeaf(r, 1)), 1);
+    assert.equal(root, '0x63f0e87276c2a4a5e81c725d16538df9346273959eee09acdb8bccea80b6cd2a');
+  });
+
+  it('should not hand out a version 2 proof for an inner node', () => {
+    const hashes = records(4).map(r => hashUsageLeaf(r));
+    const tree = buildMerkleTree(hashes, 2);
+    assert.ok(tree.version === 2);
+
+    assert.equal(getMerkleProof(tree, tree.nodes[1]), null);
+    assert.equal(getMerkleProof(tree, tree.root), null);
+  });
+
+  it('should hash the same record differently in each version', () => {
+    const [record] = records(1);
+    assert.notEqual(hashUsageLeaf(record, 1), hashUsageLeaf(record, 2));
+    assert.equal(hashUsageLeaf(record), hashUsageLeaf(record, 2));
+  });
+});
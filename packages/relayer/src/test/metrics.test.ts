@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MetricsRegistry } from '../lib/metrics.js';
+
+describe('MetricsRegistry', () => {
+  it('should render counters and gauges in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('test_leaves_total', 'Leaves').inc({ reason: 'BAD "quote"' }, 2);
+    registry.gauge('test_queue_depth', 'Queue depth').set({}, 7);
+
+    assert.equal(registry.render(), [
+      '# HELP test_leaves_total Leaves',
+      '# TYPE test_leaves_total counter',
+      'test_leaves_total{reason="BAD \\"quote\\""} 2',
+      '# HELP test_queue_depth Queue depth',
+      '# TYPE test_queue_depth gauge',
+      'test_queue_depth 7',
+      '',
+    ].join('\n'));
+  });
+
+  it('should count histogram observations into cumulative buckets', () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram('test_seconds', 'Latency', [1, 0.1]);
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 3);
+
+    const lines = registry.render().split('\n');
+    assert.deepEqual(lines.filter(l => l.startsWith('test_seconds')), [
+      'test_seconds_bucket{le="0.1"} 1',
+      'test_seconds_bucket{le="1"} 2',
+      'test_seconds_bucket{le="+Inf"} 3',
+      'test_seconds_sum 3.55',
+      'test_seconds_count 3',
+    ]);
+  });
+
+  it('should return the registered metric for a repeated name and refuse a different type', () => {
+    const registry = new MetricsRegistry();
+    assert.equal(registry.counter('test_total', 'A'), registry.counter('test_total', 'A'));
+    assert.throws(() => registry.gauge('test_total', 'A'), /already registered as a counter/);
+  });
+});
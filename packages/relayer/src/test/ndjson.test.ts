@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { NdjsonLineSplitter, type NdjsonLine } from '../server/ndjson.js';
+
+async function split(chunks: string[], limits = { maxLineBytes: 8, maxTotalBytes: 64 }) {
+  const lines: NdjsonLine[] = [];
+  for await (const item of Readable.from(chunks.map(c => Buffer.from(c))).pipe(new NdjsonLineSplitter(limits))) {
+    lines.push(item);
+  }
+  return lines;
+}
+
+describe('NdjsonLineSplitter', () => {
+  it('should join lines split across chunks and strip carriage returns', async () => {
+    assert.deepEqual(await split(['{"a"', ':1}\r\n\n{"b":2}']), [{ line: '{"a":1}' }, { line: '' }, { line: '{"b":2}' }]);
+  });
+
+  it('should drop a line over the limit without losing the next one', async () => {
+    assert.deepEqual(await split(['123456', '789\nok\n', '1234567890']), [
+      { oversized: true },
+      { line: 'ok' },
+      { oversized: true },
+    ]);
+  });
+
+  it('should end after the lines within the total limit once the body is over it, newline or not', async () => {
+    assert.deepEqual(await split(['ok\n', 'x'.repeat(40), 'x'.repeat(40), 'more\n']), [{ line: 'ok' }, { streamTooLarge: true }]);
+    assert.deepEqual(await split([`ok\n${'\n'.repeat(70)}`]), [{ line: 'ok' }, ...Array(61).fill({ line: '' }), { streamTooLarge: true }]);
+  });
+});
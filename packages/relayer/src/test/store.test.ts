@@ -0,0 +1,331 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { Leaf } from '../domain/leaf.js';
+import type { AddLeafResult, RelayerStore, StoredLeaf } from '../services/store.js';
+import { MemoryStore } from '../services/memoryStore.js';
+import { SqliteStore } from '../services/sqliteStore.js';
+
+const provider = '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb';
+const merkleRoot = `0x${'ab'.repeat(32)}` as const;
+const txHash = `0x${'cd'.repeat(32)}` as const;
+const anchorId = `0x${'ef'.repeat(32)}` as const;
+
+function leaf(nonce: string, windowEnd: number): Leaf {
+  return {
+    provider,
+    nodeId: 'test-node-001',
+    windowStart: windowEnd - 60,
+    windowEnd,
+    unitsConsumed: 100,
+    rateId: 'rate-test-1',
+    nonce,
+    providerSig: '0x00',
+  };
+}
+
+function added(result: AddLeafResult): StoredLeaf {
+  assert.equal(result.status, 'added');
+  return (result as Extract<AddLeafResult, { status: 'added' }>).leaf;
+}
+
+const implementations: Array<[string, () => RelayerStore]> = [
+  ['MemoryStore', () => new MemoryStore()],
+  ['SqliteStore', () => new SqliteStore(':memory:')],
+];
+
+for (const [name, create] of implementations) {
+  describe(name, () => {
+    let store: RelayerStore;
+
+    beforeEach(() => {
+      store = create();
+    });
+
+    afterEach(async () => {
+      await store.close();
+    });
+
+    it('should return every pending leaf whose window has ended, however old', async () => {
+      await store.addLeaf(leaf('0x01', 1000));
+      await store.addLeaf(leaf('0x02', 900));
+      await store.addLeaf(leaf('0x03', 1100));
+
+      const pending = await store.pendingLeavesEndingBy(1000);
+      assert.deepEqual(pending.map(l => l.nonce), ['0x01', '0x02']);
+    });
+
+    it('should keep the correlation id a leaf arrived with', async () => {
+      const stored = added(await store.addLeaf(leaf('0x01', 1000), 'req-1'));
+      assert.equal(stored.correlationId, 'req-1');
+      assert.equal((await store.pendingLeavesEndingBy(1000))[0].correlationId, 'req-1');
+    });
+
+    it('should stop returning leaves once a batch claims them', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      const b = added(await store.addLeaf(leaf('0x02', 1000)));
+
+      const batch = await store.createBatch(
+        { provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 200n },
+        [a.id],
+      );
+
+      assert.equal(batch.status, 'pending');
+      assert.equal(batch.leafCount, 1);
+      assert.deepEqual((await store.pendingLeavesEndingBy(1000)).map(l => l.id), [b.id]);
+      assert.deepEqual((await store.listBatchLeaves(batch.id)).map(l => l.nonce), ['0x01']);
+    });
+
+    it('should refuse to batch a leaf twice', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      const batch = { provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n } as const;
+      await store.createBatch(batch, [a.id]);
+
+      await assert.rejects(store.createBatch(batch, [a.id]), /already batched/);
+      assert.equal((await store.listBatches()).length, 1);
+    });
+
+    it('should track batch status and list confirmed batches as anchors', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      const b = added(await store.addLeaf(leaf('0x02', 1000)));
+      const policy = { maxLeaves: 500, minUsage: 50, maxWaitSeconds: 3600, source: 'provider', trigger: 'ready' } as const;
+      const first = await store.createBatch({ provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n, policy }, [a.id]);
+      const second = await store.createBatch({ provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n }, [b.id]);
+
+      await store.markBatchConfirmed(first.id, { anchorId, txHash, blockNumber: 123n, gasUsed: 45678n });
+      await store.markBatchFailed(second.id, 'rpc down');
+
+      assert.equal((await store.getBatch(first.id))?.status, 'confirmed');
+      assert.equal((await store.getBatch(second.id))?.error, 'rpc down');
+      assert.deepEqual((await store.listBatches({ status: 'failed' })).map(x => x.id), [second.id]);
+
+      const anchors = await store.listAnchors();
+      assert.equal(anchors.length, 1);
+      assert.equal(anchors[0].anchorId, anchorId);
+      assert.equal(anchors[0].txHash, txHash);
+      assert.equal(anchors[0].blockNumber, 123n);
+      assert.equal(anchors[0].gasUsed, 45678n);
+      assert.equal(anchors[0].totalUsage, 100n);
+      assert.deepEqual(anchors[0].policy, policy);
+      assert.equal((await store.findBatchByAnchorId(anchorId))?.id, first.id);
+    });
+
+    it('should park the leaves of a failed batch in it', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      const failed = await store.createBatch(
+        { provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n },
+        [a.id],
+      );
+
+      await store.markBatchFailed(failed.id, 'reverted');
+
+      assert.equal((await store.getBatch(failed.id))?.status, 'failed');
+      assert.deepEqual((await store.listBatchLeaves(failed.id)).map(l => l.id), [a.id]);
+      assert.deepEqual(await store.pendingLeavesEndingBy(1000), []);
+    });
+
+    it('should return the leaves of a failed batch to the pending pool when asked to', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      const batch = { provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n } as const;
+      const failed = await store.createBatch(batch, [a.id]);
+
+      await store.markBatchFailed(failed.id, 'rpc down', { requeueLeaves: true });
+
+      assert.deepEqual((await store.pendingLeavesEndingBy(1000)).map(l => l.id), [a.id]);
+      assert.deepEqual(await store.listBatchLeaves(failed.id), []);
+      assert.equal((await store.getBatch(failed.id))?.status, 'failed');
+
+      const retried = await store.createBatch(batch, [a.id]);
+      assert.deepEqual((await store.listBatchLeaves(retried.id)).map(l => l.nonce), ['0x01']);
+      assert.deepEqual(await store.pendingLeavesEndingBy(1000), []);
+    });
+
+    it('should keep retried batches pending and count their attempts', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      const batch = await store.createBatch({ provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n }, [a.id]);
+      assert.equal(batch.attempts, 0);
+
+      await store.markBatchRetry(batch.id, 'rpc down');
+      await store.markBatchRetry(batch.id, 'rpc still down');
+
+      const [pending] = await store.listBatches({ status: 'pending' });
+      assert.equal(pending.id, batch.id);
+      assert.equal(pending.attempts, 2);
+      assert.equal(pending.error, 'rpc still down');
+    });
+
+    it('should confirm an anchor whose transaction is unknown', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      const batch = await store.createBatch({ provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n }, [a.id]);
+
+      await store.markBatchConfirmed(batch.id, { anchorId });
+
+      const [anchor] = await store.listAnchors();
+      assert.equal(anchor.anchorId, anchorId);
+      assert.equal(anchor.txHash, undefined);
+      assert.equal(anchor.blockNumber, undefined);
+      assert.equal(anchor.dryRun, undefined);
+    });
+
+    it('should mark anchors built by a dry run', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      const batch = await store.createBatch({ provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n }, [a.id]);
+
+      await store.markBatchConfirmed(batch.id, { anchorId, dryRun: 'journal' });
+
+      assert.equal((await store.getBatch(batch.id))?.dryRun, 'journal');
+      assert.equal((await store.listAnchors())[0].dryRun, 'journal');
+    });
+
+    it('should page anchors and batch history newest first', async () => {
+      const other = '0x6715671733872Ce246A260F0497400430c4dEeD4';
+      const ids: number[] = [];
+      for (const [i, owner] of ([provider, other, provider, provider] as const).entries()) {
+        const a = added(await store.addLeaf({ ...leaf(`0x0${i}`, 1000), provider: owner }));
+        const batch = await store.createBatch({ provider: owner, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n }, [a.id]);
+        await store.markBatchConfirmed(batch.id, { anchorId: `0x${String(i).repeat(64)}` as const });
+        ids.push(batch.id);
+      }
+      await store.markBatchFailed(ids[3], 'reverted');
+
+      const first = await store.listAnchors({ provider: provider.toLowerCase(), limit: 1 });
+      assert.deepEqual(first.map(a => a.batchId), [ids[2]]);
+      const rest = await store.listAnchors({ provider, beforeId: first[0].batchId });
+      assert.deepEqual(rest.map(a => a.batchId), [ids[0]]);
+
+      assert.deepEqual((await store.listBatchHistory()).map(b => b.id), [...ids].reverse());
+      assert.deepEqual((await store.listBatchHistory({ status: 'failed' })).map(b => b.id), [ids[3]]);
+      assert.deepEqual((await store.listBatchHistory({ provider: other })).map(b => b.id), [ids[1]]);
+    });
+
+    it('should summarize pending leaves per provider and node', async () => {
+      await store.addLeaf(leaf('0x01', 1000));
+      await store.addLeaf(leaf('0x02', 1060));
+      await store.addLeaf({ ...leaf('0x03', 900), nodeId: 'test-node-002', unitsConsumed: 7 });
+      const batched = added(await store.addLeaf(leaf('0x04', 1000)));
+      await store.createBatch({ provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n }, [batched.id]);
+
+      const summary = await store.summarizePendingLeaves();
+      assert.deepEqual(summary.map(s => [s.provider, s.nodeId, s.leaves, s.units, s.oldestWindowEnd, s.newestWindowEnd]), [
+        [provider.toLowerCase(), 'test-node-001', 2, 200n, 1000, 1060],
+        [provider.toLowerCase(), 'test-node-002', 1, 7n, 900, 900],
+      ]);
+    });
+
+    it('should report provider activity', async () => {
+      const a = added(await store.addLeaf(leaf('0x01', 1000)));
+      await store.addLeaf({ ...leaf('0x02', 1000), nodeId: 'test-node-002' });
+      const batch = await store.createBatch({ provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n }, [a.id]);
+      await store.markBatchConfirmed(batch.id, { anchorId });
+
+      const [activity] = await store.providerActivity(Date.now(), provider);
+      assert.equal(activity.provider, provider.toLowerCase());
+      assert.equal(activity.lastSeen?.nodeId, 'test-node-002');
+      assert.equal(activity.leavesLastHour, 2);
+      assert.equal(activity.pendingLeaves, 1);
+      assert.equal(activity.anchors, 1);
+      assert.equal(activity.unitsAnchored, 100n);
+      assert.ok(activity.lastAnchoredAt);
+
+      const later = await store.providerActivity(Date.now() + 2 * 60 * 60 * 1000);
+      assert.equal(later[0].leavesLastHour, 0);
+      assert.equal(later[0].leavesLastDay, 2);
+      assert.deepEqual(await store.providerActivity(Date.now(), '0x6715671733872Ce246A260F0497400430c4dEeD4'), []);
+    });
+
+    it('should record each dispute event once and resolve the open dispute', async () => {
+      const dispute = {
+        deployment: 'default',
+        anchorId,
+        disputant: provider,
+        reason: 'double counted',
+        txHash,
+        logIndex: 3,
+        blockNumber: 77n,
+      } as const;
+
+      const first = await store.recordDispute(dispute);
+      assert.equal(first.created, true);
+      assert.equal((await store.recordDispute(dispute)).created, false);
+      assert.equal(await store.markDisputeResolved('other', anchorId, true), undefined);
+
+      const resolved = await store.markDisputeResolved('default', anchorId, false);
+      assert.equal(resolved?.id, first.dispute.id);
+      assert.equal(resolved?.resolvedInFavorOfProvider, false);
+      assert.equal(await store.markDisputeResolved('default', anchorId, true), undefined);
+
+      const reopened = await store.recordDispute({ ...dispute, logIndex: 4, blockNumber: 90n });
+      assert.deepEqual((await store.listDisputes({ anchorId })).map(d => d.id), [reopened.dispute.id, first.dispute.id]);
+      assert.deepEqual((await store.listDisputes({ open: true })).map(d => d.id), [reopened.dispute.id]);
+      assert.equal((await store.listDisputes({ open: false }))[0].blockNumber, 77n);
+    });
+
+    it('should keep chain cursors per key', async () => {
+      assert.equal(await store.getChainCursor('disputes:default'), undefined);
+      await store.setChainCursor('disputes:default', 10n);
+      await store.setChainCursor('disputes:default', 12n);
+      assert.equal(await store.getChainCursor('disputes:default'), 12n);
+      assert.equal(await store.getChainCursor('disputes:other'), undefined);
+    });
+
+    it('should register, look up and revoke providers', async () => {
+      const apiKeyHash = `0x${'12'.repeat(32)}` as const;
+      await store.saveProvider({ address: provider, apiKeyHash, signers: [provider], nodes: ['test-node-001'], batchPolicy: { minUsage: 1000 }, createdAt: 1 });
+
+      assert.deepEqual((await store.getProvider(provider.toLowerCase()))?.nodes, ['test-node-001']);
+      assert.deepEqual((await store.getProvider(provider))?.batchPolicy, { minUsage: 1000 });
+      assert.equal((await store.findProviderByApiKeyHash(apiKeyHash))?.address, provider);
+      assert.equal(await store.revokeProvider(provider), true);
+      assert.equal(await store.revokeProvider(provider), false);
+      assert.ok((await store.getProvider(provider))?.revokedAt);
+
+      await store.saveProvider({ address: provider, signers: [provider], nodes: [], createdAt: 1 });
+      const [reinstated] = await store.listProviders();
+      assert.equal(reinstated.revokedAt, undefined);
+      assert.equal(reinstated.apiKeyHash, undefined);
+    });
+  });
+}
+
+describe('SqliteStore durability', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relayer-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep pending leaves and unsubmitted batches across restarts', async () => {
+    const file = path.join(dir, 'relayer.db');
+    const first = new SqliteStore(file);
+    const a = added(await first.addLeaf(leaf('0x01', 1000)));
+    await first.addLeaf(leaf('0x02', 1000));
+    await first.createBatch({ provider, windowStart: 940, windowEnd: 1000, merkleRoot, treeVersion: 2, totalUsage: 100n }, [a.id]);
+    await first.close();
+
+    const reopened = new SqliteStore(file);
+    assert.deepEqual((await reopened.pendingLeavesEndingBy(1000)).map(l => l.nonce), ['0x02']);
+    const pending = await reopened.listBatches({ status: 'pending' });
+    assert.equal(pending.length, 1);
+    assert.equal(pending[0].totalUsage, 100n);
+    assert.equal(pending[0].treeVersion, 2);
+    await reopened.close();
+  });
+
+  it('should look up a provider node by index rather than by scanning every leaf', async () => {
+    const file = path.join(dir, 'relayer.db');
+    await new SqliteStore(file).close();
+
+    const db = new Database(file, { readonly: true });
+    const plan = db.prepare('EXPLAIN QUERY PLAN SELECT * FROM leaves WHERE lower(provider) = ? AND node_id = ?')
+      .all(provider.toLowerCase(), 'test-node-001') as { detail: string }[];
+    db.close();
+    assert.match(plan.map(step => step.detail).join('; '), /USING INDEX leaves_provider_node/);
+  });
+});
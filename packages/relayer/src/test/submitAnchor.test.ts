@@ -0,0 +1,163 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { BaseError, encodeAbiParameters, encodeEventTopics, type Log } from 'viem';
+import { usageAnchoredEvent } from '../contracts/edgeCharge.js';
+import { computeAnchorId } from '../lib/anchorId.js';
+import type { TransactionManager } from '../services/txManager.js';
+import { dryRunAnchor, type DryRunJournalEntry } from '../usecases/dryRunAnchor.js';
+import { anchorIdFromReceipt, submitAnchor } from '../usecases/submitAnchor.js';
+
+const contract = '0x6715671733872Ce246A260F0497400430c4dEeD4';
+const payload = {
+  provider: '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb',
+  windowStart: 1690000000,
+  windowEnd: 1690000060,
+  merkleRoot: `0x${'ab'.repeat(32)}`,
+  totalUsage: 1000n,
+} as const;
+
+function usageAnchoredLog(address: `0x${string}`, anchorId: `0x${string}`): Log<bigint, number, false> {
+  return {
+    address,
+    topics: encodeEventTopics({
+      abi: [usageAnchoredEvent],
+      eventName: 'UsageAnchored',
+      args: { anchorId, provider: payload.provider },
+    }) as Log['topics'],
+    data: encodeAbiParameters(
+      [{ type: 'uint256' }, { type: 'uint256' }, { type: 'bytes32' }, { type: 'uint256' }],
+      [BigInt(payload.windowStart), BigInt(payload.windowEnd), payload.merkleRoot, payload.totalUsage],
+    ),
+    blockHash: `0x${'00'.repeat(32)}`,
+    blockNumber: 1n,
+    logIndex: 0,
+    transactionHash: `0x${'00'.repeat(32)}`,
+    transactionIndex: 0,
+    removed: false,
+  };
+}
+
+describe('anchorIdFromReceipt', () => {
+  const derived = computeAnchorId(payload.provider, payload.windowStart, payload.windowEnd, payload.merkleRoot);
+
+  it('should read the anchorId from the UsageAnchored log', () => {
+    const logs = [usageAnchoredLog(contract, derived)];
+    assert.equal(anchorIdFromReceipt({ logs }, contract, payload), derived);
+  });
+
+  it('should prefer the emitted anchorId over the local derivation', () => {
+    const emitted = `0x${'99'.repeat(32)}` as const;
+    const logs = [usageAnchoredLog(contract, emitted)];
+    assert.equal(anchorIdFromReceipt({ logs }, contract, payload), emitted);
+  });
+
+  it('should ignore UsageAnchored logs from other contracts', () => {
+    const logs = [usageAnchoredLog('0x0000000000000000000000000000000000000001', `0x${'99'.repeat(32)}`)];
+    assert.equal(anchorIdFromReceipt({ logs }, contract, payload), derived);
+  });
+
+  it('should fall back to the contract derivation without a log', () => {
+    assert.equal(anchorIdFromReceipt({ logs: [] }, contract, payload), derived);
+  });
+});
+
+describe('submitAnchor', () => {
+  const derived = computeAnchorId(payload.provider, payload.windowStart, payload.windowEnd, payload.merkleRoot);
+  const earlierTx = `0x${'e1'.repeat(32)}` as const;
+
+  function target(anchoredBy?: `0x${string}`) {
+    const txManager = {
+      send: async () => ({ transactionHash: `0x${'e2'.repeat(32)}`, status: 'reverted', blockNumber: 6n, gasUsed: 30000n, logs: [] }),
+      publicClient: {
+        getLogs: async () => (anchoredBy ? [{ transactionHash: anchoredBy }] : []),
+        getTransactionReceipt: async () => ({ transactionHash: anchoredBy, blockNumber: 5n, gasUsed: 90000n }),
+      },
+    };
+    return { address: contract, txManager: txManager as unknown as TransactionManager } as const;
+  }
+
+  it('should recognise an anchor mined from before a restart when the resubmission reverts', async () => {
+    const submission = await submitAnchor(payload, target(earlierTx));
+    assert.deepEqual(submission, {
+      anchorId: derived,
+      txHash: earlierTx,
+      blockNumber: 5n,
+      gasUsed: 90000n,
+      status: 'success',
+      alreadyAnchored: true,
+    });
+  });
+
+  it('should report other reverts as reverted', async () => {
+    const submission = await submitAnchor(payload, target());
+    assert.equal(submission.status, 'reverted');
+    assert.equal(submission.alreadyAnchored, undefined);
+  });
+});
+
+describe('dryRunAnchor', () => {
+  const derived = computeAnchorId(payload.provider, payload.windowStart, payload.windowEnd, payload.merkleRoot);
+  const relayer = '0x2546BcD3c84621e976D8185a91A922aE77ECEc30';
+  let dir: string;
+  let journalPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relayer-dry-run-'));
+    journalPath = path.join(dir, 'journal', 'dry-run.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function target(simulateContract: () => Promise<unknown>) {
+    const txManager = {
+      address: relayer,
+      send: async () => assert.fail('a dry run must not send'),
+      publicClient: { chain: { id: 31337 }, simulateContract },
+    };
+    return { address: contract, txManager: txManager as unknown as TransactionManager } as const;
+  }
+
+  function journal(): DryRunJournalEntry[] {
+    return fs.readFileSync(journalPath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  }
+
+  it('should journal the call with a locally derived anchorId without touching the RPC', async () => {
+    const submission = await dryRunAnchor(payload, target(async () => assert.fail('journal mode must not simulate')), { mode: 'journal', journalPath });
+    await dryRunAnchor({ ...payload, windowEnd: 1690000120 }, target(async () => ({})), { mode: 'journal', journalPath });
+
+    assert.deepEqual(submission, { anchorId: derived, status: 'success', alreadyAnchored: undefined, dryRun: 'journal' });
+    const [entry, second] = journal();
+    assert.equal(second.args.windowEnd, '1690000120');
+    assert.equal(entry.anchorId, derived);
+    assert.equal(entry.from, relayer);
+    assert.equal(entry.chainId, 31337);
+    assert.deepEqual(entry.args, { ...payload, windowStart: '1690000000', windowEnd: '1690000060', totalUsage: '1000' });
+    assert.match(entry.data, /^0x[0-9a-f]+$/);
+  });
+
+  it('should take the anchorId from the simulation and count an existing anchor as anchored', async () => {
+    const simulated = await dryRunAnchor(payload, target(async () => ({ result: derived })), { mode: 'simulate', journalPath });
+    const existing = await dryRunAnchor(payload, target(async () => {
+      throw new BaseError('EdgeCharge: Anchor already exists');
+    }), { mode: 'simulate', journalPath });
+
+    assert.equal(simulated.alreadyAnchored, false);
+    assert.equal(existing.alreadyAnchored, true);
+    assert.deepEqual(journal().map(e => [e.mode, e.alreadyAnchored]), [['simulate', false], ['simulate', true]]);
+  });
+
+  it('should throw simulated reverts without journaling them', async () => {
+    await assert.rejects(
+      dryRunAnchor(payload, target(async () => {
+        throw new BaseError('EdgeCharge: Not authorized relayer');
+      }), { mode: 'simulate', journalPath }),
+      /Not authorized relayer/,
+    );
+    assert.equal(fs.existsSync(journalPath), false);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExecutionRevertedError, HttpRequestError, type Hex } from 'viem';
+import { StuckTransactionError, TransactionManager, type TransactionManagerOptions } from '../services/txManager.js';
+import { isAnchorAlreadyExistsError } from '../usecases/submitAnchor.js';
+
+const account = { address: '0x1Be31A94361a391bBaFB2a4CCd704F57dc04d4bb', type: 'local' } as const;
+const to = '0x6715671733872Ce246A260F0497400430c4dEeD4';
+
+const options: TransactionManagerOptions = {
+  maxAttempts: 3,
+  retryBaseDelayMs: 1,
+  stuckAfterMs: 5,
+  feeBumpPercent: 20,
+  maxFeeBumps: 2,
+};
+
+type Sent = { nonce: number; maxFeePerGas?: bigint; hash: Hex };
+
+type FakeChainOptions = {
+  mine?: (tx: Sent) => boolean;
+  failures?: Error[];
+  pendingNonce?: number;
+};
+
+/**
+ * Just enough of a chain for the manager: every broadcast is recorded and
+ * mined unless `mine` says otherwise; `failures` lists errors thrown by
+ * estimateGas before it succeeds.
+ */
+function fakeChain({ mine = () => true, failures = [], pendingNonce = 7 }: FakeChainOptions = {}) {
+  const sent: Sent[] = [];
+  const mined = new Set<Hex>();
+  const receipt = (hash: Hex) => ({ transactionHash: hash, status: 'success', blockNumber: 1n, gasUsed: 21000n });
+
+  const publicClient = {
+    estimateGas: async () => {
+      const failure = failures.shift();
+      if (failure) throw failure;
+      return 50000n;
+    },
+    getTransactionCount: async () => pendingNonce,
+    estimateFeesPerGas: async () => ({ maxFeePerGas: 100n, maxPriorityFeePerGas: 10n }),
+    waitForTransactionReceipt: async ({ hash }: { hash: Hex }) => {
+      if (!mined.has(hash)) throw new Error('timed out');
+      return receipt(hash);
+    },
+    getTransactionReceipt: async ({ hash }: { hash: Hex }) => {
+      if (!mined.has(hash)) throw new Error('not found');
+      return receipt(hash);
+    },
+  };
+  const walletClient = {
+    account,
+    chain: { id: 2484 },
+    sendTransaction: async ({ nonce, maxFeePerGas }: { nonce: number; maxFeePerGas?: bigint }) => {
+      const tx = { nonce, maxFeePerGas, hash: `0x${(sent.length + 1).toString(16).padStart(64, '0')}` as Hex };
+      sent.push(tx);
+      if (mine(tx)) mined.add(tx.hash);
+      return tx.hash;
+    },
+  };
+
+  const manager = new TransactionManager(publicClient as any, walletClient as any, options);
+  return { manager, sent };
+}
+
+describe('TransactionManager', () => {
+  it('should assign consecutive nonces to queued transactions', async () => {
+    const { manager, sent } = fakeChain();
+
+    await Promise.all([
+      manager.send({ to, data: '0x01' }),
+      manager.send({ to, data: '0x02' }),
+      manager.send({ to, data: '0x03' }),
+    ]);
+
+    assert.deepEqual(sent.map(tx => tx.nonce), [7, 8, 9]);
+  });
+
+  it('should replace a stuck transaction at the same nonce with bumped fees', async () => {
+    const { manager, sent } = fakeChain({ mine: tx => tx.maxFeePerGas! > 110n });
+
+    const receipt = await manager.send({ to, data: '0x01' });
+
+    assert.deepEqual(sent.map(tx => tx.nonce), [7, 7]);
+    assert.deepEqual(sent.map(tx => tx.maxFeePerGas), [100n, 120n]);
+    assert.equal(receipt.transactionHash, sent[1].hash);
+  });
+
+  it('should give up once the fee bumps are exhausted', async () => {
+    const { manager, sent } = fakeChain({ mine: () => false });
+
+    await assert.rejects(manager.send({ to, data: '0x01' }), StuckTransactionError);
+    assert.equal(sent.length, options.maxFeeBumps + 1);
+  });
+
+  it('should read the nonce from the chain again after giving up on a stuck transaction', async () => {
+    // The stuck transaction is dropped, so the chain's pending nonce stays at 7
+    const { manager, sent } = fakeChain({ mine: () => sent.length > options.maxFeeBumps + 1 });
+
+    await assert.rejects(manager.send({ to, data: '0x01' }), StuckTransactionError);
+    await manager.send({ to, data: '0x02' });
+
+    assert.deepEqual(sent.map(tx => tx.nonce), [7, 7, 7, 7]);
+  });
+
+  it('should retry RPC errors with backoff', async () => {
+    const rpcError = new HttpRequestError({ url: 'http://rpc', status: 502 });
+    const { manager, sent } = fakeChain({ failures: [rpcError, rpcError] });
+
+    await manager.send({ to, data: '0x01' });
+    assert.equal(sent.length, 1);
+  });
+
+  it('should not retry a reverting call', async () => {
+    const revert = new ExecutionRevertedError({ message: 'execution reverted: EdgeCharge: Anchor already exists' });
+    const { manager, sent } = fakeChain({ failures: [revert] });
+
+    await assert.rejects(manager.send({ to, data: '0x01' }), (err: unknown) => isAnchorAlreadyExistsError(err));
+    assert.equal(sent.length, 0);
+  });
+
+  it('should keep serving the queue after a transaction fails', async () => {
+    const revert = new ExecutionRevertedError({ message: 'execution reverted' });
+    const { manager, sent } = fakeChain({ failures: [revert] });
+
+    await assert.rejects(manager.send({ to, data: '0x01' }));
+    await manager.send({ to, data: '0x02' });
+    assert.deepEqual(sent.map(tx => tx.nonce), [7]);
+  });
+});
@@ -0,0 +1,70 @@
+import { recoverRequestSigner } from '@edgecharge/shared';
+import type { ProviderRegistration, RelayerStore } from '../services/store.js';
+import { hashApiKey } from './registerProvider.js';
+
+export type RequestCredentials = {
+  /** `Authorization` header */
+  authorization?: string;
+  /** Signed-request headers */
+  provider?: string;
+  timestamp?: string;
+  signature?: string;
+  method: string;
+  path: string;
+  body: string | Uint8Array;
+};
+
+export type AuthenticationResult =
+  | { ok: true; provider: ProviderRegistration; via: 'apiKey' | 'signature' }
+  | { ok: false; code: 'UNAUTHENTICATED' | 'INVALID_CREDENTIALS' | 'PROVIDER_REVOKED'; message: string };
+
+/**
+ * Identify the registered provider behind a request, either by a bearer API
+ * key or by a request signature from one of its allowed signers. Signed
+ * requests must be no older (or newer) than `maxSkewSeconds`.
+ */
+export async function authenticateRequest(
+  store: RelayerStore,
+  credentials: RequestCredentials,
+  { maxSkewSeconds, now = Math.floor(Date.now() / 1000) }: { maxSkewSeconds: number; now?: number },
+): Promise<AuthenticationResult> {
+  const bearer = credentials.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (bearer) {
+    const provider = await store.findProviderByApiKeyHash(hashApiKey(bearer));
+    if (!provider) return { ok: false, code: 'INVALID_CREDENTIALS', message: 'Unknown API key' };
+    return active(provider, 'apiKey');
+  }
+
+  if (!credentials.provider || !credentials.timestamp || !credentials.signature) {
+    return { ok: false, code: 'UNAUTHENTICATED', message: 'Send a bearer API key or a signed request' };
+  }
+
+  const timestamp = Number(credentials.timestamp);
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > maxSkewSeconds) {
+    return { ok: false, code: 'INVALID_CREDENTIALS', message: `Request timestamp is outside the ${maxSkewSeconds}s window` };
+  }
+
+  const provider = await store.getProvider(credentials.provider);
+  if (!provider) return { ok: false, code: 'INVALID_CREDENTIALS', message: `Provider ${credentials.provider} is not registered` };
+
+  let signer: `0x${string}`;
+  try {
+    signer = await recoverRequestSigner(
+      { method: credentials.method, path: credentials.path, timestamp, body: credentials.body },
+      credentials.signature as `0x${string}`,
+    );
+  } catch {
+    return { ok: false, code: 'INVALID_CREDENTIALS', message: 'Request signature could not be recovered' };
+  }
+  if (!provider.signers.some(s => s.toLowerCase() === signer.toLowerCase())) {
+    return { ok: false, code: 'INVALID_CREDENTIALS', message: `${signer} is not an allowed signer for ${provider.address}` };
+  }
+  return active(provider, 'signature');
+}
+
+function active(provider: ProviderRegistration, via: 'apiKey' | 'signature'): AuthenticationResult {
+  if (provider.revokedAt !== undefined) {
+    return { ok: false, code: 'PROVIDER_REVOKED', message: `Provider ${provider.address} has been revoked` };
+  }
+  return { ok: true, provider, via };
+}
@@ -0,0 +1,142 @@
+import { buildMerkleTree, getMerkleProof, hashUsageLeaf, verifyMerkleProof, type Hash } from '@edgecharge/shared';
+import type { PublicClient } from 'viem';
+import { usageAnchorsFunction } from '../contracts/edgeCharge.js';
+import type { Leaf } from '../domain/leaf.js';
+import { toAnchorRecord, type AnchorRecord, type DisputeRecord, type RelayerStore } from '../services/store.js';
+import { verifyLeafSignature, type LeafSignatureCheck } from './verifyLeafSignature.js';
+
+export type EvidenceLeaf = {
+  leaf: Leaf;
+  receivedAt: number;
+  leafHash: Hash;
+  /** Inclusion proof in the anchor's tree version; see getLeafProof for the matching contract call */
+  proof: Hash[];
+  /** The proof reaches the root anchored on chain */
+  proofValid: boolean;
+  signature: { valid: true; signer: `0x${string}` } | { valid: false; code: Exclude<LeafSignatureCheck, { ok: true }>['code']; message: string };
+};
+
+/** The anchor as the contract holds it, which is what the owner rules on */
+export type OnChainAnchor = { merkleRoot: Hash; totalUsage: bigint };
+
+/**
+ * Reads an anchor from the deployment it was submitted to; resolves
+ * undefined when the contract has no such anchor and rejects when the
+ * chain cannot be read.
+ */
+export type AnchorReader = (anchorId: `0x${string}`, deployment: string | undefined) => Promise<OnChainAnchor | undefined>;
+
+export type EvidenceChecks = {
+  /** Whether the anchor was read from the contract; every other check against it fails unless `found` */
+  onChain: 'found' | 'missing' | 'unreadable';
+  /** The stored leaves rebuild the Merkle root anchored on chain */
+  rootMatches: boolean;
+  /** Leaves found versus leaves the batch claimed when it was built */
+  leafCount: number;
+  expectedLeafCount: number;
+  unitsSum: bigint;
+  /** The anchor's totalUsage on chain; unset when it could not be read */
+  totalUsage?: bigint;
+  unitsMatchTotal: boolean;
+  signaturesValid: boolean;
+  proofsValid: boolean;
+};
+
+export type DisputeEvidence = {
+  anchor: AnchorRecord;
+  /** Disputes recorded for the anchor, newest first */
+  disputes: DisputeRecord[];
+  leaves: EvidenceLeaf[];
+  checks: EvidenceChecks;
+  /** Every check passed: the anchor is fully backed by signed leaves */
+  consistent: boolean;
+  generatedAt: number;
+};
+
+export type DisputeEvidenceResult =
+  | { ok: true; evidence: DisputeEvidence }
+  | { ok: false; code: 'ANCHOR_NOT_FOUND'; message: string };
+
+/**
+ * Everything the relayer knows about an anchor, for the owner deciding
+ * `resolveDispute`: every leaf with its provider signature re-verified and
+ * its inclusion proof, and whether the leaves add up to the anchor as
+ * `readAnchor` finds it on chain, so a store that drifted from the chain
+ * does not vouch for itself. Failed checks are reported, never hidden; an
+ * anchor whose leaves no longer reproduce its root, or that could not be
+ * read from the contract, still gets a bundle with the failed checks.
+ */
+export async function buildDisputeEvidence(store: RelayerStore, anchorId: `0x${string}`, readAnchor: AnchorReader): Promise<DisputeEvidenceResult> {
+  const batch = await store.findBatchByAnchorId(anchorId);
+  if (!batch || batch.status !== 'confirmed') {
+    return { ok: false, code: 'ANCHOR_NOT_FOUND', message: `No anchor ${anchorId} known to this relayer` };
+  }
+
+  let onChain: OnChainAnchor | undefined;
+  let onChainStatus: EvidenceChecks['onChain'];
+  try {
+    onChain = await readAnchor(anchorId, batch.deployment);
+    onChainStatus = onChain ? 'found' : 'missing';
+  } catch {
+    onChainStatus = 'unreadable';
+  }
+
+  const stored = await store.listBatchLeaves(batch.id);
+  const hashes = stored.map(l => hashUsageLeaf(l, batch.treeVersion));
+  const tree = buildMerkleTree(hashes, batch.treeVersion);
+
+  const leaves = await Promise.all(stored.map(async ({ id: _id, batchId: _batchId, correlationId: _correlationId, receivedAt, ...leaf }, i): Promise<EvidenceLeaf> => {
+    const proof = getMerkleProof(tree, hashes[i]) ?? [];
+    const check = await verifyLeafSignature(leaf);
+    return {
+      leaf,
+      receivedAt,
+      leafHash: hashes[i],
+      proof,
+      proofValid: onChain !== undefined && verifyMerkleProof(hashes[i], proof, onChain.merkleRoot),
+      signature: check.ok ? { valid: true, signer: check.signer } : { valid: false, code: check.code, message: check.message },
+    };
+  }));
+
+  const unitsSum = stored.reduce((sum, l) => sum + BigInt(l.unitsConsumed), 0n);
+  const checks: EvidenceChecks = {
+    onChain: onChainStatus,
+    rootMatches: stored.length > 0 && onChain !== undefined && tree.root.toLowerCase() === onChain.merkleRoot.toLowerCase(),
+    leafCount: stored.length,
+    expectedLeafCount: batch.leafCount,
+    unitsSum,
+    totalUsage: onChain?.totalUsage,
+    unitsMatchTotal: onChain !== undefined && unitsSum === onChain.totalUsage,
+    signaturesValid: leaves.every(l => l.signature.valid),
+    proofsValid: leaves.every(l => l.proofValid),
+  };
+
+  return {
+    ok: true,
+    evidence: {
+      anchor: toAnchorRecord(batch),
+      disputes: await store.listDisputes({ anchorId }),
+      leaves,
+      checks,
+      consistent: checks.rootMatches
+        && checks.leafCount === checks.expectedLeafCount
+        && checks.unitsMatchTotal
+        && checks.signaturesValid
+        && checks.proofsValid,
+      generatedAt: Date.now(),
+    },
+  };
+}
+
+/** An AnchorReader for one deployment's contract, read through `usageAnchors` */
+export function readUsageAnchor({ address, publicClient }: { address: `0x${string}`; publicClient: PublicClient }): AnchorReader {
+  return async anchorId => {
+    const [, , , merkleRoot, totalUsage, , exists] = await publicClient.readContract({
+      address,
+      abi: [usageAnchorsFunction],
+      functionName: 'usageAnchors',
+      args: [anchorId],
+    });
+    return exists ? { merkleRoot, totalUsage } : undefined;
+  };
+}
@@ -0,0 +1,94 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { encodeFunctionData } from 'viem';
+import type { DryRunMode } from '../config/env.js';
+import { submitUsageAnchorFunction } from '../contracts/edgeCharge.js';
+import { computeAnchorId } from '../lib/anchorId.js';
+import type { Logger } from '../lib/logger.js';
+import { logger } from '../services/logger.js';
+import { anchorCallArgs, isAnchorAlreadyExistsError, type AnchorPayload, type AnchorSubmission, type AnchorTarget } from './submitAnchor.js';
+
+export type DryRunOptions = {
+  mode: DryRunMode;
+  /** JSON Lines file the would-be calls are appended to */
+  journalPath: string;
+};
+
+/** One line of the dry-run journal: a submitUsageAnchor call that was not sent */
+export type DryRunJournalEntry = {
+  at: number;
+  mode: DryRunMode;
+  chainId?: number;
+  contract: `0x${string}`;
+  from: `0x${string}`;
+  functionName: 'submitUsageAnchor';
+  args: { provider: `0x${string}`; windowStart: string; windowEnd: string; merkleRoot: `0x${string}`; totalUsage: string };
+  /** Calldata, ready for `cast send` or a wallet */
+  data: `0x${string}`;
+  anchorId: `0x${string}`;
+  /** Only in simulate mode: the contract already holds this anchor */
+  alreadyAnchored?: boolean;
+};
+
+function appendJournal(journalPath: string, entry: DryRunJournalEntry) {
+  fs.mkdirSync(path.dirname(path.resolve(journalPath)), { recursive: true });
+  fs.appendFileSync(journalPath, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * The dry-run stand-in for submitAnchor: nothing is signed or broadcast.
+ * In `simulate` mode the call is run with eth_call from the manager's
+ * account, so reverts (an unauthorized relayer, a bad window) surface as
+ * they would on chain and the anchorId is the one the contract returns.
+ * In `journal` mode no RPC is made and the anchorId is derived locally.
+ * Either way the call is appended to the journal.
+ */
+export async function dryRunAnchor(
+  payload: AnchorPayload,
+  { address, txManager }: AnchorTarget,
+  { mode, journalPath }: DryRunOptions,
+  log: Logger = logger,
+): Promise<AnchorSubmission> {
+  const args = anchorCallArgs(payload);
+  const derived = computeAnchorId(payload.provider, payload.windowStart, payload.windowEnd, payload.merkleRoot);
+  let anchorId = derived;
+  let alreadyAnchored: boolean | undefined;
+
+  if (mode === 'simulate') {
+    try {
+      const { result } = await txManager.publicClient.simulateContract({
+        address,
+        abi: [submitUsageAnchorFunction],
+        functionName: 'submitUsageAnchor',
+        args,
+        account: txManager.address,
+      });
+      if (result !== derived) log.warn({ simulated: result, derived }, 'Simulated anchorId differs from local derivation');
+      anchorId = result;
+      alreadyAnchored = false;
+    } catch (err) {
+      if (!isAnchorAlreadyExistsError(err)) throw err;
+      alreadyAnchored = true;
+    }
+  }
+
+  appendJournal(journalPath, {
+    at: Date.now(),
+    mode,
+    chainId: txManager.publicClient.chain?.id,
+    contract: address,
+    from: txManager.address,
+    functionName: 'submitUsageAnchor',
+    args: {
+      provider: payload.provider,
+      windowStart: payload.windowStart.toString(),
+      windowEnd: payload.windowEnd.toString(),
+      merkleRoot: payload.merkleRoot,
+      totalUsage: payload.totalUsage.toString(),
+    },
+    data: encodeFunctionData({ abi: [submitUsageAnchorFunction], functionName: 'submitUsageAnchor', args }),
+    anchorId,
+    alreadyAnchored,
+  });
+  return { anchorId, status: 'success', alreadyAnchored, dryRun: mode };
+}
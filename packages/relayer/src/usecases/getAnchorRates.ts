@@ -0,0 +1,64 @@
+import { buildMerkleRoot, hashUsageLeaf, type Hash, type MerkleTreeVersion } from '@edgecharge/shared';
+import type { RelayerStore, StoredLeaf } from '../services/store.js';
+
+export type RateTotal = {
+  rateId: string;
+  unitsConsumed: bigint;
+  leafCount: number;
+};
+
+export type AnchorRates = {
+  anchorId: `0x${string}`;
+  provider: `0x${string}`;
+  merkleRoot: Hash;
+  treeVersion: MerkleTreeVersion;
+  totalUsage: bigint;
+  /** Sorted by rateId; one entry for anchors built per (provider, rateId) */
+  rates: RateTotal[];
+  /** The anchored leaves, so the breakdown can be checked by rebuilding `merkleRoot` */
+  leaves: Array<Omit<StoredLeaf, 'id' | 'batchId' | 'receivedAt'>>;
+};
+
+export type AnchorRatesResult =
+  | { ok: true; rates: AnchorRates }
+  | { ok: false; code: 'ANCHOR_NOT_FOUND' | 'ROOT_MISMATCH'; message: string };
+
+/**
+ * Units per rateId behind a confirmed anchor. Every leaf commits its rateId
+ * to the tree, so a caller holding the on-chain merkleRoot and totalUsage
+ * can rebuild the root from `leaves`, sum them per rate and rely on the
+ * breakdown without trusting the relayer.
+ */
+export async function getAnchorRates(store: RelayerStore, anchorId: `0x${string}`): Promise<AnchorRatesResult> {
+  const batch = await store.findBatchByAnchorId(anchorId);
+  if (batch?.status !== 'confirmed') {
+    return { ok: false, code: 'ANCHOR_NOT_FOUND', message: `No anchor ${anchorId} known to this relayer` };
+  }
+
+  const stored = await store.listBatchLeaves(batch.id);
+  const root = buildMerkleRoot(stored.map(l => hashUsageLeaf(l, batch.treeVersion)), batch.treeVersion);
+  if (root.toLowerCase() !== batch.merkleRoot.toLowerCase()) {
+    return { ok: false, code: 'ROOT_MISMATCH', message: `Stored leaves do not reproduce root ${batch.merkleRoot}` };
+  }
+
+  const totals = new Map<string, RateTotal>();
+  for (const leaf of stored) {
+    const total = totals.get(leaf.rateId) ?? { rateId: leaf.rateId, unitsConsumed: 0n, leafCount: 0 };
+    total.unitsConsumed += BigInt(leaf.unitsConsumed);
+    total.leafCount++;
+    totals.set(leaf.rateId, total);
+  }
+
+  return {
+    ok: true,
+    rates: {
+      anchorId: batch.anchorId ?? anchorId,
+      provider: batch.provider,
+      merkleRoot: batch.merkleRoot,
+      treeVersion: batch.treeVersion,
+      totalUsage: batch.totalUsage,
+      rates: [...totals.values()].sort((a, b) => (a.rateId < b.rateId ? -1 : a.rateId > b.rateId ? 1 : 0)),
+      leaves: stored.map(({ id: _id, batchId: _batchId, receivedAt: _receivedAt, ...leaf }) => leaf),
+    },
+  };
+}
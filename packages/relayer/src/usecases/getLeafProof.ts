@@ -0,0 +1,63 @@
+import { buildMerkleTree, getMerkleProof, hashUsageLeaf, type Hash, type MerkleTreeVersion } from '@edgecharge/shared';
+import type { RelayerStore, StoredLeaf } from '../services/store.js';
+
+export type LeafSelector = { nonce: string } | { leafHash: Hash };
+
+export type LeafProof = {
+  anchorId: `0x${string}`;
+  merkleRoot: Hash;
+  treeVersion: MerkleTreeVersion;
+  leaf: Omit<StoredLeaf, 'id' | 'batchId' | 'receivedAt'>;
+  leafHash: Hash;
+  proof: Hash[];
+};
+
+export type LeafProofResult =
+  | { ok: true; proof: LeafProof }
+  | { ok: false; code: 'ANCHOR_NOT_FOUND' | 'LEAF_NOT_FOUND' | 'ROOT_MISMATCH'; message: string };
+
+/**
+ * Rebuild an anchored tree from its stored leaves, in the tree version it
+ * was built with, and produce the inclusion proof for one of them. A
+ * version 2 proof can be passed unchanged to
+ * EdgeCharge.verifyUsageLeaf(anchorId, leaf, proof), a version 1 proof to
+ * EdgeCharge.verifyMerkleProof(anchorId, leafHash, proof).
+ */
+export async function getLeafProof(
+  store: RelayerStore,
+  anchorId: `0x${string}`,
+  selector: LeafSelector,
+): Promise<LeafProofResult> {
+  const batch = await store.findBatchByAnchorId(anchorId);
+  if (!batch) {
+    return { ok: false, code: 'ANCHOR_NOT_FOUND', message: `No anchor ${anchorId} known to this relayer` };
+  }
+
+  const leaves = await store.listBatchLeaves(batch.id);
+  const hashes = leaves.map(l => hashUsageLeaf(l, batch.treeVersion));
+  const tree = buildMerkleTree(hashes, batch.treeVersion);
+  if (tree.root.toLowerCase() !== batch.merkleRoot.toLowerCase()) {
+    // Stored leaves no longer reproduce the anchored root; never hand out a proof that cannot verify
+    return { ok: false, code: 'ROOT_MISMATCH', message: `Stored leaves do not reproduce root ${batch.merkleRoot}` };
+  }
+
+  const index = 'nonce' in selector
+    ? leaves.findIndex(l => l.nonce === selector.nonce)
+    : hashes.findIndex(h => h.toLowerCase() === selector.leafHash.toLowerCase());
+  if (index === -1) {
+    return { ok: false, code: 'LEAF_NOT_FOUND', message: `Leaf is not part of anchor ${anchorId}` };
+  }
+
+  const { id: _id, batchId: _batchId, receivedAt: _receivedAt, ...leaf } = leaves[index];
+  return {
+    ok: true,
+    proof: {
+      anchorId: batch.anchorId ?? anchorId,
+      merkleRoot: batch.merkleRoot,
+      treeVersion: batch.treeVersion,
+      leaf,
+      leafHash: hashes[index],
+      proof: getMerkleProof(tree, hashes[index]) ?? [],
+    },
+  };
+}
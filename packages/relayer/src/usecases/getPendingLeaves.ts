@@ -0,0 +1,42 @@
+import { getAddress } from 'viem';
+import type { PendingNodeSummary, RelayerStore } from '../services/store.js';
+
+export type PendingProvider = {
+  provider: `0x${string}`;
+  leaves: number;
+  units: bigint;
+  oldestWindowEnd: number;
+  nodes: Array<Omit<PendingNodeSummary, 'provider'>>;
+};
+
+export type PendingLeaves = {
+  leaves: number;
+  units: bigint;
+  providers: PendingProvider[];
+};
+
+/**
+ * Leaves waiting for a batch, grouped by provider and then node. An old
+ * `oldestWindowEnd` means a provider's usage is queued but not being anchored.
+ */
+export async function getPendingLeaves(store: RelayerStore): Promise<PendingLeaves> {
+  const providers = new Map<string, PendingProvider>();
+  for (const { provider, ...node } of await store.summarizePendingLeaves()) {
+    let group = providers.get(provider);
+    if (!group) {
+      group = { provider: getAddress(provider), leaves: 0, units: 0n, oldestWindowEnd: node.oldestWindowEnd, nodes: [] };
+      providers.set(provider, group);
+    }
+    group.leaves += node.leaves;
+    group.units += node.units;
+    group.oldestWindowEnd = Math.min(group.oldestWindowEnd, node.oldestWindowEnd);
+    group.nodes.push(node);
+  }
+
+  const groups = [...providers.values()];
+  return {
+    leaves: groups.reduce((sum, g) => sum + g.leaves, 0),
+    units: groups.reduce((sum, g) => sum + g.units, 0n),
+    providers: groups,
+  };
+}
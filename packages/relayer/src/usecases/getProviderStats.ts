@@ -0,0 +1,51 @@
+import { getAddress } from 'viem';
+import type { ProviderActivity, RelayerStore } from '../services/store.js';
+
+export type ProviderStats = Omit<ProviderActivity, 'provider' | 'leavesLastDay'> & {
+  provider: `0x${string}`;
+  registered: boolean;
+  revoked: boolean;
+  /** Average over the last 24 hours */
+  leavesPerHour: number;
+};
+
+function toStats(
+  activity: ProviderActivity,
+  registration?: { revokedAt?: number },
+): ProviderStats {
+  const { provider, leavesLastDay, ...rest } = activity;
+  return {
+    ...rest,
+    provider: getAddress(provider),
+    registered: !!registration,
+    revoked: registration?.revokedAt !== undefined,
+    leavesPerHour: Math.round((leavesLastDay / 24) * 100) / 100,
+  };
+}
+
+function idle(provider: string): ProviderActivity {
+  return { provider: provider.toLowerCase(), leavesLastHour: 0, leavesLastDay: 0, pendingLeaves: 0, anchors: 0, unitsAnchored: 0n };
+}
+
+/**
+ * Stats for every provider that is registered or has sent a leaf, so a
+ * registered provider that has gone quiet still shows up.
+ */
+export async function listProviderStats(store: RelayerStore, now = Date.now()): Promise<ProviderStats[]> {
+  const registrations = new Map((await store.listProviders()).map(p => [p.address.toLowerCase(), p]));
+  const activity = new Map((await store.providerActivity(now)).map(a => [a.provider, a]));
+  for (const address of registrations.keys()) {
+    if (!activity.has(address)) activity.set(address, idle(address));
+  }
+  return [...activity.values()]
+    .sort((a, b) => a.provider.localeCompare(b.provider))
+    .map(a => toStats(a, registrations.get(a.provider)));
+}
+
+/** Undefined when the relayer has neither a registration nor any leaves for `provider` */
+export async function getProviderStats(store: RelayerStore, provider: string, now = Date.now()): Promise<ProviderStats | undefined> {
+  const registration = await store.getProvider(provider);
+  const [activity] = await store.providerActivity(now, provider);
+  if (!registration && !activity) return undefined;
+  return toStats(activity ?? idle(provider), registration);
+}
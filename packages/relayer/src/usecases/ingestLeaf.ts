@@ -0,0 +1,144 @@
+import { leafContentHash, type Leaf } from '../domain/leaf.js';
+import { epochCloseOf, type EpochConfig } from '../lib/epochs.js';
+import { events } from '../services/events.js';
+import { leafWindowPaths, recordLeafOutcome } from '../services/metrics.js';
+import type { ProviderRegistration, RelayerStore, SeenNonce, StoredLeaf } from '../services/store.js';
+import { verifyLeafSignature } from './verifyLeafSignature.js';
+
+export type IngestOptions = {
+  /** Seconds a (provider, nonce) pair is remembered; older leaves are refused */
+  nonceRetentionSeconds: number;
+  /** The authenticated caller; leaves must belong to it and to one of its allowed nodes */
+  provider?: ProviderRegistration;
+  /** Refuse leaves whose anchoring epoch has already closed (STRAGGLER_POLICY=reject) */
+  rejectClosedEpochs?: EpochConfig;
+  /** Stored with the leaf so that batch and transaction logs can be traced back to the submission */
+  correlationId?: string;
+  now?: number;
+};
+
+export type LeafRejectionCode =
+  | 'PROVIDER_MISMATCH'
+  | 'NODE_NOT_ALLOWED'
+  | 'INVALID_SIGNATURE'
+  | 'SIGNER_MISMATCH'
+  | 'LEAF_EXPIRED'
+  | 'LEAF_TOO_LATE'
+  | 'NONCE_REUSED'
+  | 'WINDOW_ALREADY_ANCHORED';
+
+export type IngestResult =
+  | { status: 'queued'; leaf: StoredLeaf }
+  | { status: 'duplicate'; leafId: number }
+  | {
+      status: 'rejected';
+      httpStatus: 401 | 403 | 409 | 422;
+      code: LeafRejectionCode;
+      message: string;
+      details?: Record<string, unknown>;
+    };
+
+function compareWithSeen(leaf: Leaf, seen: SeenNonce): IngestResult {
+  if (seen.contentHash === leafContentHash(leaf)) {
+    return { status: 'duplicate', leafId: seen.leafId };
+  }
+  return {
+    status: 'rejected',
+    httpStatus: 409,
+    code: 'NONCE_REUSED',
+    message: `Nonce ${leaf.nonce} was already used by ${leaf.provider} for a different record`,
+  };
+}
+
+/**
+ * Admit a provider leaf into the queue: verify its signature, refuse replays
+ * and anything that would bill a node twice for the same period.
+ *
+ * Resubmitting an identical signed record is idempotent and reports
+ * `duplicate` instead of queueing it again.
+ */
+export async function ingestLeaf(store: RelayerStore, leaf: Leaf, options: IngestOptions): Promise<IngestResult> {
+  const result = await admitLeaf(store, leaf, options);
+  recordLeafOutcome(result.status, result.status === 'rejected' ? result.code : undefined);
+  const provider = leaf.provider as `0x${string}`;
+  const { correlationId } = options;
+  if (result.status === 'queued') {
+    const { nodeId, nonce, windowStart, windowEnd, unitsConsumed, rateId } = leaf;
+    events.publish({ type: 'leaf.accepted', provider, nodeId, nonce, windowStart, windowEnd, unitsConsumed, rateId, correlationId });
+  } else if (result.status === 'rejected') {
+    events.publish({ type: 'leaf.rejected', provider, nonce: leaf.nonce, code: result.code, message: result.message, correlationId });
+  }
+  return result;
+}
+
+async function admitLeaf(store: RelayerStore, leaf: Leaf, options: IngestOptions): Promise<IngestResult> {
+  const caller = options.provider;
+  if (caller && caller.address.toLowerCase() !== leaf.provider.toLowerCase()) {
+    return {
+      status: 'rejected',
+      httpStatus: 403,
+      code: 'PROVIDER_MISMATCH',
+      message: `Authenticated as ${caller.address}, cannot submit leaves for ${leaf.provider}`,
+    };
+  }
+  if (caller && caller.nodes.length > 0 && !caller.nodes.includes(leaf.nodeId)) {
+    return {
+      status: 'rejected',
+      httpStatus: 403,
+      code: 'NODE_NOT_ALLOWED',
+      message: `Node ${leaf.nodeId} is not registered for ${caller.address}`,
+    };
+  }
+
+  const signature = await verifyLeafSignature(leaf);
+  if (!signature.ok) {
+    return {
+      status: 'rejected',
+      httpStatus: signature.status,
+      code: signature.code,
+      message: signature.message,
+      details: signature.recoveredSigner ? { recoveredSigner: signature.recoveredSigner } : undefined,
+    };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const horizon = now - options.nonceRetentionSeconds;
+  if (leaf.windowEnd < horizon) {
+    // Its nonce may already have been forgotten, so a replay could not be detected
+    return {
+      status: 'rejected',
+      httpStatus: 422,
+      code: 'LEAF_EXPIRED',
+      message: `Leaf window ended before the ${options.nonceRetentionSeconds}s retention horizon`,
+    };
+  }
+
+  if (options.rejectClosedEpochs && epochCloseOf(leaf.windowEnd, options.rejectClosedEpochs) < now) {
+    leafWindowPaths.inc({ path: 'rejected' });
+    return {
+      status: 'rejected',
+      httpStatus: 422,
+      code: 'LEAF_TOO_LATE',
+      message: `The anchoring epoch for windowEnd ${leaf.windowEnd} closed at ${epochCloseOf(leaf.windowEnd, options.rejectClosedEpochs)}`,
+    };
+  }
+
+  const seen = await store.findSeenNonce(leaf.provider, leaf.nonce);
+  if (seen) return compareWithSeen(leaf, seen);
+
+  const overlap = await store.findBatchedOverlap(leaf);
+  if (overlap) {
+    return {
+      status: 'rejected',
+      httpStatus: 409,
+      code: 'WINDOW_ALREADY_ANCHORED',
+      message: `Node ${leaf.nodeId} already has anchored usage overlapping ${leaf.windowStart}-${leaf.windowEnd}`,
+      details: { windowStart: overlap.windowStart, windowEnd: overlap.windowEnd, nonce: overlap.nonce },
+    };
+  }
+
+  const result = await store.addLeaf(leaf, options.correlationId);
+  // Another request may have claimed the nonce since the check above
+  if (result.status === 'nonce_seen') return compareWithSeen(leaf, result.seen);
+  return { status: 'queued', leaf: result.leaf };
+}
@@ -0,0 +1,77 @@
+import { LeafSchema } from '../domain/leaf.js';
+import { events } from '../services/events.js';
+import { recordLeafOutcome } from '../services/metrics.js';
+import type { RelayerStore } from '../services/store.js';
+import { ingestLeaf, type IngestOptions, type LeafRejectionCode } from './ingestLeaf.js';
+
+export type LeafItemRejectionCode = LeafRejectionCode | 'INVALID_LEAF' | 'INVALID_JSON' | 'PAYLOAD_TOO_LARGE';
+
+/** Outcome for one entry of a bulk submission; `index` is its position in the request */
+export type LeafItemResult =
+  | { index: number; status: 'queued' | 'duplicate'; nonce: string }
+  | {
+      index: number;
+      status: 'rejected';
+      nonce?: string;
+      code: LeafItemRejectionCode;
+      message: string;
+      details?: Record<string, unknown>;
+    };
+
+export type LeafBatchSummary = { received: number; accepted: number; rejected: number };
+
+/**
+ * Validate and ingest one entry of a bulk submission. Every failure is
+ * reported as a result rather than thrown, so one bad entry never affects
+ * the others.
+ */
+export async function ingestLeafItem(
+  store: RelayerStore,
+  index: number,
+  raw: unknown,
+  options: IngestOptions,
+): Promise<LeafItemResult> {
+  const parse = LeafSchema.safeParse(raw);
+  if (!parse.success) {
+    recordLeafOutcome('rejected', 'INVALID_LEAF');
+    events.publish({
+      type: 'leaf.rejected',
+      provider: options.provider?.address,
+      code: 'INVALID_LEAF',
+      message: 'Entry failed schema validation',
+      correlationId: options.correlationId,
+    });
+    return {
+      index,
+      status: 'rejected',
+      code: 'INVALID_LEAF',
+      message: 'Entry failed schema validation',
+      details: parse.error.flatten(),
+    };
+  }
+
+  const leaf = parse.data;
+  const result = await ingestLeaf(store, leaf, options);
+  if (result.status === 'rejected') {
+    return { index, status: 'rejected', nonce: leaf.nonce, code: result.code, message: result.message, details: result.details };
+  }
+  return { index, status: result.status, nonce: leaf.nonce };
+}
+
+/** Ingest entries in order; later entries see the nonces claimed by earlier ones */
+export async function ingestLeafBatch(
+  store: RelayerStore,
+  entries: unknown[],
+  options: IngestOptions,
+): Promise<{ results: LeafItemResult[]; summary: LeafBatchSummary }> {
+  const results: LeafItemResult[] = [];
+  for (const [index, raw] of entries.entries()) {
+    results.push(await ingestLeafItem(store, index, raw, options));
+  }
+  return { results, summary: summarize(results) };
+}
+
+export function summarize(results: LeafItemResult[]): LeafBatchSummary {
+  const rejected = results.filter(r => r.status === 'rejected').length;
+  return { received: results.length, accepted: results.length - rejected, rejected };
+}
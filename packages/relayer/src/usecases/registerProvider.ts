@@ -0,0 +1,42 @@
+import crypto from 'node:crypto';
+import { getAddress } from 'viem';
+import type { ProviderRegistrationInput } from '../domain/provider.js';
+import type { ProviderRegistration, RelayerStore } from '../services/store.js';
+
+export type ProviderView = Omit<ProviderRegistration, 'apiKeyHash'> & { hasApiKey: boolean };
+
+export function hashApiKey(apiKey: string): `0x${string}` {
+  return `0x${crypto.createHash('sha256').update(apiKey).digest('hex')}`;
+}
+
+/** What the admin API returns for a registration; the key hash never leaves the relayer */
+export function toProviderView({ apiKeyHash, ...registration }: ProviderRegistration): ProviderView {
+  return { ...registration, hasApiKey: apiKeyHash !== undefined };
+}
+
+/**
+ * Register a provider, or update an existing registration. A newly issued
+ * API key is returned exactly once; only its hash is stored. Updating a
+ * provider without issuing a key keeps its current one.
+ */
+export async function registerProvider(
+  store: RelayerStore,
+  input: ProviderRegistrationInput,
+): Promise<{ provider: ProviderView; apiKey?: string }> {
+  const address = getAddress(input.address);
+  const existing = await store.getProvider(address);
+  const apiKey = input.issueApiKey ? `ec_${crypto.randomBytes(32).toString('hex')}` : undefined;
+
+  const registration: ProviderRegistration = {
+    address,
+    apiKeyHash: apiKey ? hashApiKey(apiKey) : existing?.apiKeyHash,
+    signers: (input.signers ?? [address]).map(signer => getAddress(signer)),
+    nodes: input.nodes,
+    rateLimitPerMinute: input.rateLimitPerMinute,
+    deployment: input.deployment,
+    batchPolicy: input.batchPolicy,
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+  await store.saveProvider(registration);
+  return { provider: toProviderView(registration), apiKey };
+}
@@ -1,57 +1,128 @@
-import { createConfig, http } from '@wagmi/core';
-import { privateKeyToAccount } from 'viem/accounts';
-import { writeContract, getAccount, reconnect, disconnect } from '@wagmi/core';
-import { createPublicClient } from 'viem';
-import { u2uNebulasTestnet } from '../config/chain.js';
-import { getEdgeChargeAdapter } from '../contracts/edgeCharge.js';
-import { loadEnv } from '../config/env.js';
+import { BaseError, encodeFunctionData, isAddressEqual, parseEventLogs, type TransactionReceipt } from 'viem';
+import { submitUsageAnchorFunction, usageAnchoredEvent } from '../contracts/edgeCharge.js';
+import { computeAnchorId } from '../lib/anchorId.js';
+import type { Logger } from '../lib/logger.js';
+import { logger } from '../services/logger.js';
+import { rpcErrors } from '../services/metrics.js';
+import type { AnchorConfirmation } from '../services/store.js';
+import { getDeployment, type Deployment } from '../services/deployments.js';
+import { errorType, type TransactionManager } from '../services/txManager.js';
 
 export type AnchorPayload = {
   provider: `0x${string}`;
-  windowStart: bigint | number | string;
-  windowEnd: bigint | number | string;
+  windowStart: number;
+  windowEnd: number;
   merkleRoot: `0x${string}`; // bytes32
-  totalUsage: bigint | number | string;
+  totalUsage: bigint;
 };
 
-export async function submitAnchor(payload: AnchorPayload) {
-  const env = loadEnv();
-  const account = privateKeyToAccount(env.RELAYER_PRIVATE_KEY as `0x${string}`);
+/** The payload as submitUsageAnchor arguments */
+export function anchorCallArgs({ provider, windowStart, windowEnd, merkleRoot, totalUsage }: AnchorPayload) {
+  return [provider, BigInt(windowStart), BigInt(windowEnd), merkleRoot, totalUsage] as const;
+}
 
-  const config = createConfig({
-    chains: [u2uNebulasTestnet],
-    ssr: true,
-    transports: {
-      [u2uNebulasTestnet.id]: http(env.U2U_RPC_URL),
-    },
-  });
+export type AnchorSubmission = {
+  anchorId: `0x${string}`;
+  /** Unset only when the anchor already existed and its transaction could not be found */
+  txHash?: `0x${string}`;
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+  status: TransactionReceipt['status'];
+  /** The contract already held this anchor, e.g. from a submission interrupted by a restart */
+  alreadyAnchored?: boolean;
+  /** The anchor was built by a dry run and never sent */
+  dryRun?: AnchorConfirmation['dryRun'];
+};
 
-  // Create a viem public client to wait for receipt
-  const publicClient = createPublicClient({
-    chain: u2uNebulasTestnet,
-    transport: http(env.U2U_RPC_URL),
+/**
+ * Read the anchorId from the UsageAnchored log emitted by `contract`.
+ * Falls back to the contract's own derivation when the log is missing
+ * (e.g. a reverted transaction) so callers always get a joinable id.
+ */
+export function anchorIdFromReceipt(
+  receipt: Pick<TransactionReceipt, 'logs'>,
+  contract: `0x${string}`,
+  payload: AnchorPayload,
+): `0x${string}` {
+  const derived = computeAnchorId(payload.provider, payload.windowStart, payload.windowEnd, payload.merkleRoot);
+  const [event] = parseEventLogs({
+    abi: [usageAnchoredEvent],
+    eventName: 'UsageAnchored',
+    logs: receipt.logs.filter(log => isAddressEqual(log.address, contract)),
   });
+  if (!event) return derived;
+  if (event.args.anchorId !== derived) {
+    logger.warn({ emitted: event.args.anchorId, derived }, 'UsageAnchored anchorId differs from local derivation');
+  }
+  return event.args.anchorId;
+}
 
-  // Prepare adapter and call
-  const adapter = getEdgeChargeAdapter(env.EDGECHARGE_ADDRESS as `0x${string}` | undefined);
-  const hash = await writeContract(config, {
-    abi: adapter.abi,
-    address: adapter.address,
-    functionName: 'submitUsageAnchor',
-    args: [
-      payload.provider,
-      BigInt(payload.windowStart as any),
-      BigInt(payload.windowEnd as any),
-      payload.merkleRoot,
-      BigInt(payload.totalUsage as any),
-    ],
-    chainId: u2uNebulasTestnet.id,
-    account,
-  });
+/** The contract refused the anchor because an identical one is already on chain */
+export function isAnchorAlreadyExistsError(err: unknown): boolean {
+  return err instanceof BaseError && /Anchor already exists/.test(err.message);
+}
 
-  // Wait for receipt via viem client
-  const receipt = await publicClient.waitForTransactionReceipt({ hash });
-  return receipt;
+/**
+ * Locate the transaction that first anchored `anchorId`, so a resubmission
+ * that lost a race (or follows a crash mid-flight) still records it.
+ */
+async function findExistingAnchor(txManager: TransactionManager, contract: `0x${string}`, anchorId: `0x${string}`, log: Logger) {
+  try {
+    const [log] = await txManager.publicClient.getLogs({
+      address: contract,
+      event: usageAnchoredEvent,
+      args: { anchorId },
+      fromBlock: 'earliest',
+    });
+    if (!log?.transactionHash) return {};
+    const receipt = await txManager.publicClient.getTransactionReceipt({ hash: log.transactionHash });
+    return { txHash: receipt.transactionHash, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed };
+  } catch (err) {
+    rpcErrors.inc({ error: errorType(err) });
+    log.warn({ anchorId, err }, 'Could not look up existing anchor transaction');
+    return {};
+  }
 }
 
+/** Where an anchor is sent: a contract and the manager for its chain */
+export type AnchorTarget = Pick<Deployment, 'address' | 'txManager'>;
 
+export async function submitAnchor(
+  payload: AnchorPayload,
+  { address, txManager }: AnchorTarget = getDeployment(),
+  log: Logger = logger,
+): Promise<AnchorSubmission> {
+  const data = encodeFunctionData({
+    abi: [submitUsageAnchorFunction],
+    functionName: 'submitUsageAnchor',
+    args: anchorCallArgs(payload),
+  });
+
+  try {
+    const receipt = await txManager.send({ to: address, data }, log);
+    if (receipt.status === 'reverted') {
+      // The transaction of a submission cut short by a shutdown can still be mined ahead of its resubmission
+      const anchorId = anchorIdFromReceipt({ logs: [] }, address, payload);
+      const existing = await findExistingAnchor(txManager, address, anchorId, log);
+      if (existing.txHash && existing.txHash !== receipt.transactionHash) {
+        return { anchorId, ...existing, status: 'success', alreadyAnchored: true };
+      }
+    }
+    return {
+      anchorId: anchorIdFromReceipt(receipt, address, payload),
+      txHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      status: receipt.status,
+    };
+  } catch (err) {
+    if (!isAnchorAlreadyExistsError(err)) throw err;
+    const anchorId = anchorIdFromReceipt({ logs: [] }, address, payload);
+    return {
+      anchorId,
+      ...(await findExistingAnchor(txManager, address, anchorId, log)),
+      status: 'success',
+      alreadyAnchored: true,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { verifyUsageRecordSignature } from '@edgecharge/shared';
+import type { Leaf } from '../domain/leaf.js';
+
+export type LeafSignatureCheck =
+  | { ok: true; signer: `0x${string}` }
+  | {
+      ok: false;
+      status: 401 | 422;
+      code: 'INVALID_SIGNATURE' | 'SIGNER_MISMATCH';
+      message: string;
+      recoveredSigner?: `0x${string}`;
+    };
+
+/**
+ * Recover the signer of a leaf from its canonical record and check it is `leaf.provider`.
+ * A signature that cannot be recovered at all is malformed (422); a well-formed
+ * signature from someone other than the provider is unauthenticated (401).
+ */
+export async function verifyLeafSignature(leaf: Leaf): Promise<LeafSignatureCheck> {
+  const result = await verifyUsageRecordSignature(leaf);
+  if (result.isValid && result.recoveredSigner) {
+    return { ok: true, signer: result.recoveredSigner };
+  }
+  if (!result.recoveredSigner) {
+    return {
+      ok: false,
+      status: 422,
+      code: 'INVALID_SIGNATURE',
+      message: result.error ?? 'providerSig could not be recovered',
+    };
+  }
+  return {
+    ok: false,
+    status: 401,
+    code: 'SIGNER_MISMATCH',
+    message: result.error ?? 'providerSig was not produced by provider',
+    recoveredSigner: result.recoveredSigner,
+  };
+}
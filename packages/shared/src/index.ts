@@ -0,0 +1,4 @@
+export * from './usageRecord.js';
+export * from './verification.js';
+export * from './requestSignature.js';
+export * from './merkleTree.js';
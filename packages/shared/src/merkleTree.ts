@@ -0,0 +1,141 @@
+import { encodeAbiParameters, keccak256, parseAbiParameters, toBytes, type Hex } from 'viem';
+import { createCanonicalObject, type CanonicalUsageRecord } from './usageRecord.js';
+
+export type Hash = Hex; // 0x-prefixed bytes32
+
+/**
+ * How usage leaves are hashed and arranged into a tree. An anchor is built
+ * with one version and its proofs only verify under that version.
+ *
+ * - 1: keccak256 of the canonical JSON; every layer sorted, an odd node
+ *   paired with itself. Kept so anchors built with it stay verifiable.
+ * - 2: OpenZeppelin `StandardMerkleTree` with `USAGE_LEAF_ENCODING`: the
+ *   leaf is keccak256(keccak256(abi.encode(...))), so it can never be
+ *   confused with an inner node, and any OpenZeppelin tooling rebuilds it.
+ */
+export type MerkleTreeVersion = 1 | 2;
+
+export const MERKLE_TREE_VERSIONS: readonly MerkleTreeVersion[] = [1, 2];
+
+export const LATEST_TREE_VERSION: MerkleTreeVersion = 2;
+
+/** Leaf encoding for `StandardMerkleTree.of(values, USAGE_LEAF_ENCODING)`, in `usageLeafValues` order */
+export const USAGE_LEAF_ENCODING = ['address', 'string', 'uint256', 'uint256', 'uint256', 'string', 'string'] as const;
+
+const usageLeafParameters = parseAbiParameters('address, string, uint256, uint256, uint256, string, string');
+
+export type MerkleTree =
+  | { version: 1; /** layers[0] are the sorted leaves, the last layer holds the root */ layers: Hash[][]; root: Hash }
+  | { version: 2; /** StandardMerkleTree's array layout: the root first, the sorted leaves last, reversed */ nodes: Hash[]; root: Hash };
+
+const ZERO_HASH = ('0x' + '00'.repeat(32)) as Hash;
+
+/** A record as the values of a version 2 leaf: provider, nodeId, windowStart, windowEnd, unitsConsumed, rateId, nonce */
+export function usageLeafValues(record: CanonicalUsageRecord) {
+  return [
+    record.provider.toLowerCase() as `0x${string}`,
+    record.nodeId,
+    BigInt(record.windowStart),
+    BigInt(record.windowEnd),
+    BigInt(record.unitsConsumed),
+    record.rateId,
+    record.nonce,
+  ] as const;
+}
+
+export function hashUsageLeaf(record: CanonicalUsageRecord, version: MerkleTreeVersion = LATEST_TREE_VERSION): Hash {
+  if (version === 1) return keccak256(toBytes(JSON.stringify(createCanonicalObject(record))));
+  return keccak256(keccak256(encodeAbiParameters(usageLeafParameters, usageLeafValues(record))));
+}
+
+export function hashPairCommutative(a: Hash, b: Hash): Hash {
+  return a.toLowerCase() < b.toLowerCase()
+    ? keccak256(concatBytes(a, b))
+    : keccak256(concatBytes(b, a));
+}
+
+function concatBytes(a: Hash, b: Hash) {
+  const ab = new Uint8Array(64);
+  ab.set(toBytes(a));
+  ab.set(toBytes(b), 32);
+  return ab;
+}
+
+export function buildMerkleTree(leaves: Hash[], version: MerkleTreeVersion = LATEST_TREE_VERSION): MerkleTree {
+  return version === 1 ? buildLayeredTree(leaves) : buildStandardTree(leaves);
+}
+
+export function buildMerkleRoot(leaves: Hash[], version: MerkleTreeVersion = LATEST_TREE_VERSION): Hash {
+  return buildMerkleTree(leaves, version).root;
+}
+
+function buildLayeredTree(leaves: Hash[]): MerkleTree {
+  if (leaves.length === 0) return { version: 1, layers: [[]], root: ZERO_HASH };
+  let layer = [...leaves];
+  layer.sort();
+  const layers = [layer];
+  while (layer.length > 1) {
+    const next: Hash[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      const left = layer[i];
+      const right = layer[i + 1] ?? layer[i];
+      next.push(hashPairCommutative(left, right));
+    }
+    next.sort();
+    layer = next;
+    layers.push(layer);
+  }
+  return { version: 1, layers, root: layer[0] };
+}
+
+/** Same construction as @openzeppelin/merkle-tree's `makeMerkleTree` over sorted leaves */
+function buildStandardTree(leaves: Hash[]): MerkleTree {
+  if (leaves.length === 0) return { version: 2, nodes: [], root: ZERO_HASH };
+  const sorted = leaves.map(l => l.toLowerCase() as Hash).sort();
+  const nodes = new Array<Hash>(2 * sorted.length - 1);
+  sorted.forEach((leaf, i) => {
+    nodes[nodes.length - 1 - i] = leaf;
+  });
+  for (let i = nodes.length - 1 - sorted.length; i >= 0; i--) {
+    nodes[i] = hashPairCommutative(nodes[2 * i + 1], nodes[2 * i + 2]);
+  }
+  return { version: 2, nodes, root: nodes[0] };
+}
+
+/**
+ * Sibling path from a leaf to the root, in the order OpenZeppelin's
+ * `MerkleProof.verify` consumes it. In a version 1 tree an odd node out is
+ * paired with itself, so its sibling is its own hash.
+ */
+export function getMerkleProof(tree: MerkleTree, leaf: Hash): Hash[] | null {
+  let node = leaf.toLowerCase() as Hash;
+
+  if (tree.version === 2) {
+    const leafCount = (tree.nodes.length + 1) / 2;
+    let index = tree.nodes.findIndex(h => h === node);
+    // Inner nodes are not leaves; only the last leafCount entries are
+    if (index === -1 || index < tree.nodes.length - leafCount) return null;
+    const proof: Hash[] = [];
+    while (index > 0) {
+      proof.push(tree.nodes[index % 2 === 1 ? index + 1 : index - 1]);
+      index = Math.floor((index - 1) / 2);
+    }
+    return proof;
+  }
+
+  if (!tree.layers[0].some(h => h.toLowerCase() === node)) return null;
+  const proof: Hash[] = [];
+  for (const layer of tree.layers.slice(0, -1)) {
+    const index = layer.findIndex(h => h.toLowerCase() === node);
+    const sibling = layer[index ^ 1] ?? layer[index];
+    proof.push(sibling);
+    node = hashPairCommutative(layer[index], sibling).toLowerCase() as Hash;
+  }
+  return proof;
+}
+
+/** Both versions pair nodes commutatively, so one check serves them */
+export function verifyMerkleProof(leaf: Hash, proof: Hash[], root: Hash): boolean {
+  const computed = proof.reduce((acc, sibling) => hashPairCommutative(acc, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
@@ -0,0 +1,35 @@
+import { keccak256, recoverMessageAddress, toBytes } from 'viem';
+
+/** Headers carrying a signed relayer request */
+export const REQUEST_SIGNATURE_HEADERS = {
+  provider: 'x-edgecharge-provider',
+  timestamp: 'x-edgecharge-timestamp',
+  signature: 'x-edgecharge-signature',
+} as const;
+
+export interface RequestSigningInput {
+  method: string;
+  /** Path including the query string, e.g. `/leaves` */
+  path: string;
+  /** Unix seconds */
+  timestamp: number;
+  /** Raw request body exactly as sent; empty for bodiless requests */
+  body: string | Uint8Array;
+}
+
+/**
+ * The message a provider (or one of its allowed signers) signs to
+ * authenticate a request to the relayer. The body is committed by hash,
+ * so the signature covers exactly the bytes on the wire.
+ */
+export function createRequestSigningMessage({ method, path, timestamp, body }: RequestSigningInput): string {
+  const bodyHash = keccak256(typeof body === 'string' ? toBytes(body) : body);
+  return ['EdgeCharge relayer request', method.toUpperCase(), path, String(timestamp), bodyHash].join('\n');
+}
+
+/**
+ * Recover the EIP-191 signer of a relayer request.
+ */
+export async function recoverRequestSigner(input: RequestSigningInput, signature: `0x${string}`): Promise<`0x${string}`> {
+  return recoverMessageAddress({ message: createRequestSigningMessage(input), signature });
+}
@@ -0,0 +1,41 @@
+/**
+ * The fields a provider signs, in the order they are serialized.
+ * Anything that signs, verifies or hashes a usage record must go through
+ * this canonical form so the provider and the relayer agree byte-for-byte.
+ */
+export interface CanonicalUsageRecord {
+  provider: string;
+  nodeId: string;
+  windowStart: number;
+  windowEnd: number;
+  unitsConsumed: number;
+  rateId: string;
+  nonce: string;
+}
+
+export interface SignedUsageRecord extends CanonicalUsageRecord {
+  providerSig: string;
+}
+
+/**
+ * Create a canonical object with consistent field ordering.
+ * Extra fields (such as providerSig) are dropped.
+ */
+export function createCanonicalObject(record: CanonicalUsageRecord): CanonicalUsageRecord {
+  return {
+    provider: record.provider,
+    nodeId: record.nodeId,
+    windowStart: record.windowStart,
+    windowEnd: record.windowEnd,
+    unitsConsumed: record.unitsConsumed,
+    rateId: record.rateId,
+    nonce: record.nonce,
+  };
+}
+
+/**
+ * Create the canonical JSON string that providers sign.
+ */
+export function createCanonicalJson(record: CanonicalUsageRecord): string {
+  return JSON.stringify(createCanonicalObject(record));
+}
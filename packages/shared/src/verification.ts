@@ -0,0 +1,49 @@
+import { recoverMessageAddress } from 'viem';
+import { SignedUsageRecord, createCanonicalJson } from './usageRecord.js';
+
+export interface VerificationResult {
+  isValid: boolean;
+  error?: string;
+}
+
+export interface SignerVerificationResult extends VerificationResult {
+  /** Address recovered from providerSig, if the signature could be parsed at all */
+  recoveredSigner?: `0x${string}`;
+}
+
+/**
+ * Recover the address that signed a usage record.
+ * The provider signs the canonical JSON as an EIP-191 personal message.
+ */
+export async function recoverUsageRecordSigner(record: SignedUsageRecord): Promise<`0x${string}`> {
+  const messageString = createCanonicalJson(record);
+  return recoverMessageAddress({
+    message: { raw: messageString as `0x${string}` },
+    signature: record.providerSig as `0x${string}`,
+  });
+}
+
+/**
+ * Verify that a usage record was signed by its own `provider` address.
+ */
+export async function verifyUsageRecordSignature(record: SignedUsageRecord): Promise<SignerVerificationResult> {
+  let recoveredSigner: `0x${string}`;
+  try {
+    recoveredSigner = await recoverUsageRecordSigner(record);
+  } catch (error) {
+    return {
+      isValid: false,
+      error: error instanceof Error ? error.message : 'Unknown verification error',
+    };
+  }
+
+  if (recoveredSigner.toLowerCase() !== record.provider.toLowerCase()) {
+    return {
+      isValid: false,
+      recoveredSigner,
+      error: `Signer ${recoveredSigner} does not match provider ${record.provider}`,
+    };
+  }
+
+  return { isValid: true, recoveredSigner };
+}